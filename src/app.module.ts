@@ -5,6 +5,8 @@ import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
 import { DocumentsModule } from "./modules/documents/documents.module";
 import { AuthModule } from "./modules/auth/auth.module";
+import { WebhooksModule } from "./modules/webhooks/webhooks.module";
+import { UsageModule } from "./modules/usage/usage.module";
 
 @Module({
   imports: [
@@ -23,6 +25,8 @@ import { AuthModule } from "./modules/auth/auth.module";
     }),
     DocumentsModule,
     AuthModule,
+    WebhooksModule,
+    UsageModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -2,6 +2,16 @@
  * Common type definitions used across the application
  */
 
+/**
+ * One line of an invoice; amounts are plain numbers in the invoice currency
+ */
+export interface InvoiceLineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount?: number;
+}
+
 /**
  * Metadata that can be extracted from documents
  * Flexible structure for various document types
@@ -15,6 +25,9 @@ export interface ExtractedMetadata {
   currency?: string;
   vendorName?: string;
   vendorAddress?: string;
+  lineItems?: InvoiceLineItem[];
+  subtotal?: number;
+  taxAmount?: number;
 
   // CV metadata
   fullName?: string;
@@ -24,6 +37,12 @@ export interface ExtractedMetadata {
   experience?: string[];
   skills?: string[];
 
+  // Contract metadata
+  parties?: string[];
+  effectiveDate?: string;
+  expirationDate?: string;
+  governingLaw?: string;
+
   // General metadata
   date?: string;
   author?: string;
@@ -33,13 +52,20 @@ export interface ExtractedMetadata {
   keywords?: string[];
 
   // Allow additional custom fields
-  [key: string]: string | number | boolean | string[] | undefined;
+  [key: string]:
+    | string
+    | number
+    | boolean
+    | string[]
+    | InvoiceLineItem[]
+    | undefined;
 }
 
 /**
  * Filter options for querying documents
  */
 export interface DocumentFilterOptions {
+  owner: string;
   isDeleted: boolean;
   analysisStatus?: string;
   documentType?: string;
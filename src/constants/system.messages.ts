@@ -15,17 +15,50 @@ export const DOCUMENT_NOT_FOUND_FOR_UPDATE = "Document not found for update.";
 // ==================== DOCUMENT MESSAGES ====================
 export const DOCUMENT_UPLOADED =
   "Document uploaded and text extracted successfully.";
+export const DOCUMENT_UPLOADED_ANALYSIS_QUEUED =
+  "Document uploaded successfully and queued for analysis.";
+export const DOCUMENT_UPLOADED_ANALYSIS_REUSED =
+  "Document uploaded. The analysis of an identical document was reused.";
+export const DOCUMENT_DUPLICATE =
+  "An identical file has already been uploaded as document";
+export const DOCUMENT_DUPLICATE_EXISTING =
+  "An identical file has already been uploaded. Returning the existing document.";
+export const DOCUMENT_DUPLICATE_LINKED =
+  "Duplicate upload linked to the stored file of document";
+export const DUPLICATE_UPLOAD_POLICY_UNKNOWN =
+  "Unknown duplicate upload policy";
+export const ANALYSIS_REUSED = "Reused the analysis of identical document";
+export const AUTO_ANALYSIS_QUEUE_FAILED =
+  "Failed to queue automatic analysis after upload";
 export const DOCUMENT_UPLOAD_FAILED =
   "Document upload failed. Please try again.";
 export const DOCUMENT_UPLOAD_FAILED_TEXT_EXTRACTION =
   "Document upload failed during text extraction.";
 export const DOCUMENT_UPLOAD_FAILED_DATABASE_SAVE =
   "Document upload failed during database save.";
+export const BATCH_UPLOADED =
+  "Batch uploaded. Check the results for files that could not be stored.";
+export const BATCH_FETCHED = "Batch retrieved successfully.";
+export const BATCH_NOT_FOUND = "Batch not found.";
+export const BATCH_INVALID_ID = "Invalid batch ID provided.";
+export const BATCH_NO_FILES = "No files provided. Attach one or more files.";
+export const BATCH_TOO_MANY_FILES =
+  "Too many files. A batch may contain at most 50 files, counting each file inside a ZIP archive.";
+export const BATCH_ANALYSIS_QUEUED =
+  "Documents of the batch queued for analysis.";
+export const ARCHIVE_INVALID = "The ZIP archive could not be read.";
+export const ARCHIVE_EMPTY = "The ZIP archive contains no files.";
 export const DOCUMENT_NOT_FOUND = "Document not found.";
 export const DOCUMENT_FETCHED = "Document retrieved successfully.";
 export const DOCUMENTS_FETCHED = "Documents retrieved successfully.";
+export const DOCUMENTS_SEARCHED = "Search completed successfully.";
+export const SEARCH_INVALID_DATE_RANGE =
+  "Invalid date range: the start date must not be after the end date.";
 export const DOCUMENT_DELETED = "Document deleted successfully.";
 export const DOCUMENT_INVALID_ID = "Invalid document ID provided.";
+export const DOCUMENT_FILE_URL_CREATED = "Download URL created successfully.";
+export const DOCUMENT_STRUCTURE_FETCHED =
+  "Document structure retrieved successfully.";
 
 // ==================== ANALYSIS MESSAGES ====================
 export const ANALYSIS_INITIATED = "Document analysis initiated successfully.";
@@ -35,6 +68,130 @@ export const ANALYSIS_ALREADY_COMPLETED =
 export const ANALYSIS_FAILED = "Document analysis failed. Please try again.";
 export const ANALYSIS_IN_PROGRESS =
   "Document analysis is currently in progress.";
+export const ANALYSIS_QUEUED =
+  "Document analysis has been queued. Poll the analysis status for progress.";
+export const ANALYSIS_STATUS_FETCHED =
+  "Document analysis status retrieved successfully.";
+export const ANALYSIS_CACHE_HIT = "Reused cached analysis";
+export const ANALYSIS_CACHE_FAILED =
+  "Analysis cache unavailable, analyzing without it";
+export const ANALYSIS_CACHE_INVALIDATED = "Invalidated cached analyses";
+export const ANALYSIS_CACHE_CLEARED =
+  "Cached analyses of the document cleared successfully.";
+export const ANALYSIS_VERSIONS_FETCHED =
+  "Analysis versions retrieved successfully.";
+export const ANALYSIS_VERSION_NOT_FOUND = "Analysis version not found";
+export const ANALYSIS_VERSION_INVALID =
+  "Analysis version must be a positive whole number";
+export const ANALYSIS_VERSION_PINNED =
+  "Analysis version pinned as current successfully.";
+export const ANALYSIS_VERSION_UNPINNED =
+  "Analysis version unpinned; the latest version is current again.";
+export const ANALYSIS_VERSION_KEPT_PINNED =
+  "Recorded new analysis version; the pinned version stays current";
+export const ANALYSIS_DIFF_COMPUTED =
+  "Analysis versions compared successfully.";
+
+// ==================== QUESTION ANSWERING MESSAGES ====================
+export const DOCUMENT_QUESTION_ANSWERED = "Question answered successfully.";
+export const DOCUMENT_QUESTION_NOT_ANSWERABLE =
+  "The document does not contain the answer to this question.";
+export const DOCUMENT_QUESTIONS_FETCHED =
+  "Conversation history retrieved successfully.";
+export const DOCUMENT_QUESTIONS_CLEARED =
+  "Conversation history cleared successfully.";
+export const LIBRARY_QUESTION_ANSWERED =
+  "Question answered from your documents successfully.";
+export const LIBRARY_QUESTION_NOT_ANSWERABLE =
+  "None of your documents contain the answer to this question.";
+export const QUESTION_QUOTE_NOT_FOUND =
+  "Discarded answer quotes that are not in the document";
+export const QUESTION_SOURCES_TRIMMED =
+  "Retrieved passages exceed the LLM input budget, answering from the best matches";
+export const QUESTION_CONTEXT_SELECTED =
+  "Document exceeds the LLM input budget, answering from the most relevant sections";
+
+// ==================== SEMANTIC SEARCH MESSAGES ====================
+export const DOCUMENTS_SEMANTIC_SEARCHED =
+  "Semantic search completed successfully.";
+export const EMBEDDING_PROVIDER_UNKNOWN =
+  "Unknown EMBEDDING_PROVIDER configured";
+export const EMBEDDING_PROVIDER_SELECTED = "Using embedding provider";
+export const EMBEDDING_REQUEST_FAILED = "Failed to compute embeddings.";
+export const EMBEDDING_RESPONSE_INVALID =
+  "Embedding provider returned an invalid response.";
+export const DOCUMENT_EMBEDDINGS_INDEXED = "Indexed document chunks";
+export const DOCUMENT_EMBEDDINGS_FAILED = "Failed to index document chunks";
+export const EMBEDDING_BACKFILL_DISABLED = "Embedding backfill is disabled";
+export const EMBEDDING_BACKFILL_COMPLETED =
+  "Indexed documents without embeddings";
+export const EMBEDDING_BACKFILL_STOPPED =
+  "Embedding backfill stopped after a failure";
+
+// ==================== ANALYSIS JOB MESSAGES ====================
+export const ANALYSIS_JOB_QUEUED = "Analysis job queued";
+export const ANALYSIS_JOB_ALREADY_QUEUED =
+  "Analysis job not queued, the document already has an active job";
+export const ANALYSIS_JOB_RETRY_SCHEDULED = "Analysis job retry scheduled";
+export const ANALYSIS_JOB_FAILED = "Analysis job failed after all attempts";
+export const ANALYSIS_JOB_LEASE_EXPIRED =
+  "Analysis job lease expired before completion.";
+export const ANALYSIS_JOB_LEASES_RECOVERED =
+  "Recovered analysis jobs with expired leases";
+export const ANALYSIS_ORPHANS_RECOVERED =
+  "Requeued documents stuck in ANALYZING without an active job";
+export const ANALYSIS_WORKER_STARTED = "Analysis worker started";
+export const ANALYSIS_WORKER_DISABLED =
+  "Analysis worker disabled by configuration";
+export const ANALYSIS_WORKER_POLL_FAILED = "Analysis worker poll failed";
+
+// ==================== USAGE MESSAGES ====================
+export const USAGE_FETCHED = "Token usage retrieved successfully.";
+export const USAGE_RECORD_FAILED = "Failed to record token usage";
+export const USAGE_INVALID_DATE_RANGE =
+  "The start date must not be after the end date";
+export const LLM_MODEL_PRICES_INVALID =
+  "LLM_MODEL_PRICES must be a JSON object of models to { prompt, completion } prices";
+
+// ==================== WEBHOOK MESSAGES ====================
+export const WEBHOOK_CREATED = "Webhook created successfully.";
+export const WEBHOOKS_FETCHED = "Webhooks retrieved successfully.";
+export const WEBHOOK_FETCHED = "Webhook retrieved successfully.";
+export const WEBHOOK_UPDATED = "Webhook updated successfully.";
+export const WEBHOOK_DELETED = "Webhook deleted successfully.";
+export const WEBHOOK_NOT_FOUND = "Webhook not found.";
+export const WEBHOOK_INVALID_ID = "Invalid webhook ID provided.";
+export const WEBHOOK_URL_NOT_PUBLIC =
+  "Webhook URL must point at a public host, not a loopback, private or link-local address.";
+export const WEBHOOK_URL_UNRESOLVABLE =
+  "Webhook URL host could not be resolved";
+export const WEBHOOK_INACTIVE =
+  "Webhook is inactive. Activate it before redelivering events.";
+export const WEBHOOK_DELIVERIES_FETCHED =
+  "Webhook deliveries retrieved successfully.";
+export const WEBHOOK_DELIVERY_NOT_FOUND = "Webhook delivery not found.";
+export const WEBHOOK_DELIVERY_INVALID_ID =
+  "Invalid webhook delivery ID provided.";
+export const WEBHOOK_REDELIVERY_QUEUED =
+  "Webhook event has been queued for redelivery.";
+export const WEBHOOK_DISPATCH_FAILED = "Failed to queue webhook deliveries";
+export const WEBHOOK_DELIVERED = "Webhook delivered";
+export const WEBHOOK_ENDPOINT_REJECTED =
+  "Webhook endpoint responded with HTTP status";
+export const WEBHOOK_ENDPOINT_UNAVAILABLE =
+  "Webhook was deleted or deactivated before the event could be delivered.";
+export const WEBHOOK_DELIVERY_RETRY_SCHEDULED =
+  "Webhook delivery retry scheduled";
+export const WEBHOOK_DELIVERY_FAILED =
+  "Webhook delivery failed after all attempts";
+export const WEBHOOK_DELIVERY_LEASE_EXPIRED =
+  "Webhook delivery was interrupted before completion.";
+export const WEBHOOK_DELIVERIES_RECOVERED =
+  "Recovered interrupted webhook deliveries";
+export const WEBHOOK_WORKER_STARTED = "Webhook delivery worker started";
+export const WEBHOOK_WORKER_DISABLED =
+  "Webhook delivery worker disabled by configuration";
+export const WEBHOOK_WORKER_POLL_FAILED = "Webhook delivery worker poll failed";
 
 // ==================== FILE STORAGE MESSAGES ====================
 export const FILE_SAVED = "File saved successfully.";
@@ -47,8 +204,16 @@ export const STORAGE_DIRECTORY_ENSURED =
 export const MINIO_BUCKET_CREATED = "MinIO bucket created successfully.";
 export const MINIO_BUCKET_EXISTS = "MinIO bucket already exists.";
 export const MINIO_CONNECTION_FAILED = "Failed to connect to MinIO server.";
-export const MINIO_UPLOAD_FAILED = "Failed to upload file to MinIO.";
-export const MINIO_DELETE_FAILED = "Failed to delete file from MinIO.";
+export const FILE_NOT_FOUND = "Stored file not found";
+export const FILE_READ_FAILED = "Failed to read file.";
+export const PRESIGNED_URL_UNSUPPORTED =
+  "Presigned download URLs are only available with the MinIO storage driver.";
+export const PRESIGNED_URL_FAILED = "Failed to create a download URL.";
+export const STORAGE_INVALID_OBJECT_KEY = "Invalid storage object key";
+export const STORAGE_DRIVER_UNKNOWN = "Unknown storage driver";
+export const STORAGE_DRIVER_SELECTED = "Storage driver selected";
+export const STORAGE_MINIO_NOT_CONFIGURED =
+  "MinIO storage requires MINIO_ENDPOINT, MINIO_ACCESS_KEY and MINIO_SECRET_KEY";
 export const MINIO_INITIALIZED = "MinIO storage initialized successfully.";
 
 // ==================== TEXT EXTRACTION MESSAGES ====================
@@ -57,9 +222,20 @@ export const TEXT_EXTRACTION_SUCCESS =
 export const TEXT_EXTRACTION_FAILED = "Failed to extract text from document.";
 export const TEXT_EXTRACTION_PDF_FAILED = "Failed to extract text from PDF.";
 export const TEXT_EXTRACTION_DOCX_FAILED = "Failed to extract text from DOCX.";
-export const UNSUPPORTED_FILE_TYPE = "Only PDF and DOCX files are supported.";
-export const TEXT_TRUNCATED =
-  "Document text truncated to maximum allowed length.";
+export const TEXT_EXTRACTION_OCR_FAILED =
+  "Failed to extract text from the document with OCR.";
+export const TEXT_EXTRACTION_NO_TEXT =
+  "No text could be extracted from the document.";
+export const UNSUPPORTED_FILE_TYPE =
+  "Unsupported file type. Supported formats: PDF, DOCX, ODT, RTF, TXT, Markdown, HTML, XLSX, EML, PNG, JPEG and TIFF.";
+export const OCR_DISABLED =
+  "Image uploads require OCR, which is disabled on this server.";
+export const OCR_DISABLED_SCANNED_PDF =
+  "PDF has pages without a text layer but OCR is disabled";
+export const OCR_PAGE_LIMIT_REACHED =
+  "Scanned PDF exceeds OCR_MAX_PAGES, remaining pages were not recognized";
+export const OCR_ENGINE_STARTING = "Starting OCR engine";
+export const OCR_PAGES_RECOGNIZED = "Recognized scanned PDF pages with OCR";
 
 // ==================== OPENROUTER/LLM MESSAGES ====================
 export const OPENROUTER_API_KEY_MISSING =
@@ -70,16 +246,31 @@ export const OPENROUTER_RATE_LIMIT =
   "OpenRouter API rate limit exceeded. Please try again later.";
 export const OPENROUTER_INSUFFICIENT_CREDITS =
   "Insufficient credits on OpenRouter account.";
+export const LLM_API_KEY_MISSING = "LLM_API_KEY is not configured.";
+export const LLM_UNAUTHORIZED =
+  "Invalid LLM provider API key. Please check your credentials.";
+export const LLM_RATE_LIMIT =
+  "LLM provider rate limit exceeded. Please try again later.";
+export const LLM_INSUFFICIENT_CREDITS =
+  "Insufficient credits on the LLM provider account.";
+export const LLM_PROVIDER_UNKNOWN = "Unknown LLM_PROVIDER configured";
+export const LLM_PROVIDER_SELECTED = "Using LLM provider";
+export const EXTRACTION_VALIDATION_ISSUES =
+  "Extracted metadata failed validation";
+export const LLM_CHUNKED_ANALYSIS =
+  "Document exceeds the LLM input budget, analyzing in sections";
 export const LLM_ANALYSIS_SUCCESS = "LLM analysis completed successfully.";
-export const LLM_ANALYSIS_FAILED =
-  "Failed to analyze document with OpenRouter LLM.";
-export const LLM_RESPONSE_INVALID = "LLM response is missing required fields.";
+export const LLM_ANALYSIS_FAILED = "Failed to analyze document with the LLM.";
+export const LLM_RESPONSE_INVALID =
+  "LLM response does not match the expected schema";
+export const LLM_RESPONSE_REPAIR =
+  "LLM response failed validation, asking the model to correct it";
+export const LLM_RESPONSE_ACCEPTED_WITH_ERRORS =
+  "LLM response still invalid after repair attempts, keeping the valid fields";
 
 // ==================== VALIDATION MESSAGES ====================
 export const FILE_TOO_LARGE =
   "File size exceeds the maximum allowed limit of 5MB.";
-export const INVALID_FILE_TYPE =
-  "Invalid file type. Only PDF and DOCX files are allowed.";
 export const MISSING_FILE = "No file provided for upload.";
 export const INVALID_OBJECT_ID = "Invalid MongoDB ObjectId format.";
 
@@ -90,6 +281,7 @@ export const USER_ALREADY_EXISTS = "User with this email already exists.";
 export const INVALID_CREDENTIALS = "Invalid credentials.";
 export const UNAUTHORIZED = "Unauthorized access.";
 export const USER_NOT_FOUND = "User not found.";
+export const PREFERENCES_UPDATED = "Preferences updated successfully.";
 
 // ==================== DATABASE OPERATION MESSAGES ====================
 export const DB_CREATE_FAILED = "Failed to create record in database.";
@@ -44,7 +44,7 @@ async function bootstrap() {
   const config = new DocumentBuilder()
     .setTitle("AI Document Summarizer Service")
     .setDescription(
-      "Service to upload, extract, and analyze documents using OpenRouter LLM.",
+      "Service to upload, extract, and analyze documents using a pluggable LLM provider (OpenRouter, OpenAI-compatible or offline heuristic).",
     )
     .setVersion("1.0")
     .addBearerAuth(
@@ -57,6 +57,8 @@ async function bootstrap() {
     )
     .addTag("Authentication")
     .addTag("Documents")
+    .addTag("Webhooks")
+    .addTag("Usage")
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument } from "mongoose";
+import { IDocumentAnalysisResult } from "../llm/interfaces";
+
+export type AnalysisCacheEntryDocument = AnalysisCacheEntry & MongooseDocument;
+
+/**
+ * Stored analysis of a document text
+ * An entry only matches the same text analyzed with the same prompt version
+ * and model; MongoDB removes it once expiresAt has passed
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class AnalysisCacheEntry {
+  @Prop({ required: true })
+  textHash: string; // SHA-256 of the text sent for analysis
+
+  @Prop({ required: true })
+  promptVersion: string;
+
+  @Prop({ required: true })
+  model: string; // "<provider>:<model>"
+
+  @Prop({ type: Object, required: true })
+  result: IDocumentAnalysisResult;
+
+  @Prop({ default: 0 })
+  hits: number; // Analyses answered from this entry
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const AnalysisCacheEntrySchema =
+  SchemaFactory.createForClass(AnalysisCacheEntry);
+
+AnalysisCacheEntrySchema.index(
+  { textHash: 1, promptVersion: 1, model: 1 },
+  { unique: true },
+);
+// TTL index: MongoDB deletes expired entries in the background
+AnalysisCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,25 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConfigModule } from "@nestjs/config";
+import {
+  AnalysisCacheEntry,
+  AnalysisCacheEntrySchema,
+} from "./analysis-cache-entry.schema";
+import { AnalysisCacheService } from "./analysis-cache.service";
+import { AnalysisCacheEntryModelAction } from "./model-actions";
+
+/**
+ * Analysis cache module
+ * Stores analysis results in MongoDB so identical inputs skip the LLM
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: AnalysisCacheEntry.name, schema: AnalysisCacheEntrySchema },
+    ]),
+  ],
+  providers: [AnalysisCacheService, AnalysisCacheEntryModelAction],
+  exports: [AnalysisCacheService],
+})
+export class AnalysisCacheModule {}
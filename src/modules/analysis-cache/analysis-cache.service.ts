@@ -0,0 +1,99 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import * as sysMsg from "../../constants/system.messages";
+import { IDocumentAnalysisResult } from "../llm/interfaces";
+import { PROMPT_VERSION } from "../llm/llm.prompts";
+import {
+  AnalysisCacheEntryModelAction,
+  IAnalysisCacheKey,
+} from "./model-actions";
+
+/**
+ * Cache of document analyses keyed on the analyzed text, the prompt version
+ * and the model, so identical inputs are not sent to the LLM again
+ * Cache failures are logged and treated as misses; they never fail an analysis
+ */
+@Injectable()
+export class AnalysisCacheService {
+  private readonly logger = new Logger(AnalysisCacheService.name);
+  private readonly enabled: boolean;
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly analysisCacheEntryModelAction: AnalysisCacheEntryModelAction,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>("ANALYSIS_CACHE_ENABLED", "true") !==
+      "false";
+    this.ttlMs =
+      Number(
+        this.configService.get<string>("ANALYSIS_CACHE_TTL_SECONDS", "2592000"),
+      ) * 1000;
+  }
+
+  /**
+   * Returns the stored analysis of a text by a model, or null on a miss
+   */
+  async get(
+    text: string,
+    model: string,
+  ): Promise<IDocumentAnalysisResult | null> {
+    if (!this.enabled) return null;
+
+    try {
+      const entry = await this.analysisCacheEntryModelAction.findFresh(
+        this.buildKey(text, model),
+      );
+      return entry?.result ?? null;
+    } catch (error) {
+      this.logger.warn(`${sysMsg.ANALYSIS_CACHE_FAILED}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Stores the analysis of a text by a model for ANALYSIS_CACHE_TTL_SECONDS
+   */
+  async set(
+    text: string,
+    model: string,
+    result: IDocumentAnalysisResult,
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.analysisCacheEntryModelAction.upsert(
+        this.buildKey(text, model),
+        { result, expiresAt: new Date(Date.now() + this.ttlMs) },
+      );
+    } catch (error) {
+      this.logger.warn(`${sysMsg.ANALYSIS_CACHE_FAILED}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Removes every stored analysis of a text, for all prompt versions and models
+   * Returns the number of entries removed
+   */
+  async invalidate(text: string): Promise<number> {
+    const removed = await this.analysisCacheEntryModelAction.deleteByTextHash(
+      this.hashText(text),
+    );
+    this.logger.log(`${sysMsg.ANALYSIS_CACHE_INVALIDATED}: ${removed} entries`);
+    return removed;
+  }
+
+  private buildKey(text: string, model: string): IAnalysisCacheKey {
+    return {
+      textHash: this.hashText(text),
+      promptVersion: PROMPT_VERSION,
+      model,
+    };
+  }
+
+  private hashText(text: string): string {
+    return createHash("sha256").update(text).digest("hex");
+  }
+}
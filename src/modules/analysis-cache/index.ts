@@ -0,0 +1,4 @@
+export * from "./analysis-cache-entry.schema";
+export * from "./analysis-cache.module";
+export * from "./analysis-cache.service";
+export * from "./model-actions";
@@ -0,0 +1,93 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  AnalysisCacheEntry,
+  AnalysisCacheEntryDocument,
+} from "../analysis-cache-entry.schema";
+
+/**
+ * Fields identifying a cache entry
+ */
+export interface IAnalysisCacheKey {
+  textHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+/**
+ * Model action for AnalysisCacheEntry entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class AnalysisCacheEntryModelAction extends AbstractModelAction<AnalysisCacheEntry> {
+  constructor(
+    @InjectModel(AnalysisCacheEntry.name)
+    private analysisCacheEntryModel: Model<AnalysisCacheEntryDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(analysisCacheEntryModel);
+  }
+
+  /**
+   * Returns the unexpired entry for a key and counts the hit
+   * The TTL monitor only runs once a minute, so expiry is checked here too
+   */
+  async findFresh(key: IAnalysisCacheKey): Promise<AnalysisCacheEntry | null> {
+    try {
+      return await this.analysisCacheEntryModel.findOneAndUpdate(
+        { ...key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 } },
+        { new: true },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_FIND_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Creates or replaces the entry for a key
+   */
+  async upsert(
+    key: IAnalysisCacheKey,
+    payload: Pick<AnalysisCacheEntry, "result" | "expiresAt">,
+  ): Promise<void> {
+    try {
+      await this.analysisCacheEntryModel.updateOne(
+        key,
+        { $set: { ...payload, hits: 0 } },
+        { upsert: true },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_UPDATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the entries of a text, whatever their prompt version and model
+   */
+  async deleteByTextHash(textHash: string): Promise<number> {
+    try {
+      const result = await this.analysisCacheEntryModel.deleteMany({
+        textHash,
+      });
+      return result.deletedCount;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_DELETE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+}
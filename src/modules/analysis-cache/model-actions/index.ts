@@ -0,0 +1 @@
+export * from "./analysis-cache-entry.action";
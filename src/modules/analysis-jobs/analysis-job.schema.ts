@@ -0,0 +1,99 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+
+export type AnalysisJobDocument = AnalysisJob & MongooseDocument;
+
+/**
+ * Lifecycle status of a queued analysis job
+ */
+export enum AnalysisJobStatus {
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+/**
+ * Analysis job schema backing the Mongo job queue
+ * A job is claimed by a worker by atomically moving it from QUEUED to RUNNING
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class AnalysisJob {
+  @Prop({ type: Types.ObjectId, ref: "Document", required: true })
+  document: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: Object.values(AnalysisJobStatus),
+    default: AnalysisJobStatus.QUEUED,
+  })
+  status: AnalysisJobStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  maxAttempts: number;
+
+  @Prop({ default: () => new Date() })
+  runAt: Date; // Earliest time the job may be claimed (used for retry backoff)
+
+  @Prop({ default: null })
+  lockedAt?: Date; // Lease timestamp, renewed while a worker processes the job
+
+  @Prop({ default: null })
+  lockedBy?: string; // Identifier of the worker holding the lease
+
+  @Prop({ default: null })
+  lastError?: string;
+
+  @Prop({ default: null })
+  completedAt?: Date;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const AnalysisJobSchema = SchemaFactory.createForClass(AnalysisJob);
+
+// Indexes for claiming and lookups
+AnalysisJobSchema.index({ status: 1, runAt: 1 });
+AnalysisJobSchema.index({ status: 1, lockedAt: 1 });
+AnalysisJobSchema.index({ document: 1, createdAt: -1 });
+
+// A document has at most one queued or running job, even under concurrent requests
+AnalysisJobSchema.index(
+  { document: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: { $in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING] },
+    },
+  },
+);
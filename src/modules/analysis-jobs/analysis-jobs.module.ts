@@ -0,0 +1,22 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConfigModule } from "@nestjs/config";
+import { AnalysisJob, AnalysisJobSchema } from "./analysis-job.schema";
+import { AnalysisJobsService } from "./analysis-jobs.service";
+import { AnalysisJobModelAction } from "./model-actions";
+
+/**
+ * Analysis jobs module
+ * Provides the Mongo-backed queue used to run document analysis in the background
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: AnalysisJob.name, schema: AnalysisJobSchema },
+    ]),
+  ],
+  providers: [AnalysisJobsService, AnalysisJobModelAction],
+  exports: [AnalysisJobsService],
+})
+export class AnalysisJobsModule {}
@@ -0,0 +1,254 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Types } from "mongoose";
+import * as sysMsg from "../../constants/system.messages";
+import { AnalysisJobModelAction } from "./model-actions";
+import {
+  AnalysisJob,
+  AnalysisJobDocument,
+  AnalysisJobStatus,
+} from "./analysis-job.schema";
+
+/**
+ * Outcome of recording a failed job attempt
+ */
+export interface IJobFailureResult {
+  willRetry: boolean;
+  runAt: Date;
+}
+
+/**
+ * Service for the Mongo-backed analysis job queue
+ * Handles enqueueing, claiming, retry backoff and lease recovery
+ */
+@Injectable()
+export class AnalysisJobsService {
+  private readonly logger = new Logger(AnalysisJobsService.name);
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly analysisJobModelAction: AnalysisJobModelAction,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get<string>("ANALYSIS_JOB_MAX_ATTEMPTS", "3"),
+    );
+    this.retryDelayMs = Number(
+      this.configService.get<string>("ANALYSIS_JOB_RETRY_DELAY_MS", "5000"),
+    );
+    this.leaseMs = Number(
+      this.configService.get<string>("ANALYSIS_JOB_LEASE_MS", "300000"),
+    );
+  }
+
+  /**
+   * Adds a new analysis job for a document to the queue
+   * Returns null when the document already has a queued or running job
+   */
+  async enqueue(
+    documentId: string,
+    ownerId: string,
+  ): Promise<AnalysisJob | null> {
+    const job = await this.analysisJobModelAction.createIfNotActive({
+      document: new Types.ObjectId(documentId),
+      owner: new Types.ObjectId(ownerId),
+      status: AnalysisJobStatus.QUEUED,
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      runAt: new Date(),
+    });
+
+    if (!job) {
+      this.logger.log(`${sysMsg.ANALYSIS_JOB_ALREADY_QUEUED}: ${documentId}`);
+      return null;
+    }
+
+    this.logger.log(`${sysMsg.ANALYSIS_JOB_QUEUED}: ${documentId}`);
+    return job;
+  }
+
+  /**
+   * Adds an already running job for an analysis performed outside the queue
+   * (e.g. streamed within a request), so recovery leaves the document alone
+   * while the lease is kept alive. Streamed analyses are not retried, so a
+   * lapsed lease fails the job. Returns null when the document already has
+   * a queued or running job
+   */
+  async startRunning(
+    documentId: string,
+    ownerId: string,
+    lockedBy: string,
+  ): Promise<AnalysisJobDocument | null> {
+    const now = new Date();
+    return this.analysisJobModelAction.createIfNotActive({
+      document: new Types.ObjectId(documentId),
+      owner: new Types.ObjectId(ownerId),
+      status: AnalysisJobStatus.RUNNING,
+      attempts: 1,
+      maxAttempts: 1,
+      runAt: now,
+      lockedAt: now,
+      lockedBy,
+    });
+  }
+
+  /**
+   * Returns the queued or running job for a document, if any
+   */
+  async findActiveJob(documentId: string): Promise<AnalysisJob | null> {
+    return this.analysisJobModelAction.get({
+      identifierOptions: {
+        document: documentId,
+        status: {
+          $in: [AnalysisJobStatus.QUEUED, AnalysisJobStatus.RUNNING],
+        },
+      },
+    });
+  }
+
+  /**
+   * Returns the most recently created job for a document, if any
+   */
+  async findLatestJob(documentId: string): Promise<AnalysisJob | null> {
+    const { payload } = await this.analysisJobModelAction.list({
+      filterRecordOptions: { document: documentId },
+      sort: { createdAt: -1 },
+      paginationPayload: { page: 1, limit: 1 },
+    });
+
+    return payload[0] ?? null;
+  }
+
+  /**
+   * Atomically claims the next due job for a worker
+   */
+  async claimNext(workerId: string): Promise<AnalysisJobDocument | null> {
+    return this.analysisJobModelAction.claimNext(workerId);
+  }
+
+  /**
+   * Extends the lease of a job that is still being processed
+   */
+  async renewLease(job: AnalysisJobDocument): Promise<void> {
+    await this.analysisJobModelAction.update({
+      identifierOptions: { _id: job.id, status: AnalysisJobStatus.RUNNING },
+      updatePayload: { lockedAt: new Date() },
+    });
+  }
+
+  /**
+   * Renews the lease of a running job periodically until the returned
+   * function is called
+   */
+  keepLeaseAlive(job: AnalysisJobDocument): () => void {
+    const heartbeat = setInterval(
+      () =>
+        this.renewLease(job).catch((error) => this.logger.warn(error.message)),
+      Math.max(this.leaseMs / 3, 1000),
+    );
+
+    return () => clearInterval(heartbeat);
+  }
+
+  /**
+   * Marks a job as successfully completed
+   */
+  async markCompleted(job: AnalysisJobDocument): Promise<void> {
+    await this.analysisJobModelAction.update({
+      identifierOptions: { _id: job.id },
+      updatePayload: {
+        status: AnalysisJobStatus.COMPLETED,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Records a failed attempt, requeueing the job with exponential backoff
+   * until it runs out of attempts
+   */
+  async markFailed(
+    job: AnalysisJobDocument,
+    errorMessage: string,
+  ): Promise<IJobFailureResult> {
+    const willRetry = job.attempts < job.maxAttempts;
+    const runAt = willRetry
+      ? new Date(Date.now() + this.retryDelayMs * 2 ** (job.attempts - 1))
+      : job.runAt;
+
+    await this.analysisJobModelAction.update({
+      identifierOptions: { _id: job.id },
+      updatePayload: {
+        status: willRetry ? AnalysisJobStatus.QUEUED : AnalysisJobStatus.FAILED,
+        runAt,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: errorMessage,
+      },
+    });
+
+    if (willRetry) {
+      this.logger.warn(
+        `${sysMsg.ANALYSIS_JOB_RETRY_SCHEDULED}: ${job.document} (attempt ${job.attempts}/${job.maxAttempts}, next run ${runAt.toISOString()})`,
+      );
+    } else {
+      this.logger.error(`${sysMsg.ANALYSIS_JOB_FAILED}: ${job.document}`);
+    }
+
+    return { willRetry, runAt };
+  }
+
+  /**
+   * Releases RUNNING jobs whose lease has expired
+   * Jobs with attempts left are requeued, the rest are marked as failed
+   */
+  async recoverStaleLeases(): Promise<AnalysisJob[]> {
+    const staleBefore = new Date(Date.now() - this.leaseMs);
+    const { payload: staleJobs } = await this.analysisJobModelAction.find({
+      findOptions: {
+        status: AnalysisJobStatus.RUNNING,
+        lockedAt: { $lt: staleBefore },
+      },
+    });
+
+    const recovered: AnalysisJob[] = [];
+    for (const job of staleJobs as AnalysisJobDocument[]) {
+      const exhausted = job.attempts >= job.maxAttempts;
+      try {
+        const updated = await this.analysisJobModelAction.update({
+          identifierOptions: {
+            _id: job.id,
+            status: AnalysisJobStatus.RUNNING,
+            lockedAt: job.lockedAt,
+          },
+          updatePayload: {
+            status: exhausted
+              ? AnalysisJobStatus.FAILED
+              : AnalysisJobStatus.QUEUED,
+            runAt: new Date(),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: sysMsg.ANALYSIS_JOB_LEASE_EXPIRED,
+          },
+        });
+        recovered.push(updated);
+      } catch (error) {
+        // Another worker renewed or recovered the lease in the meantime
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+    }
+
+    if (recovered.length > 0) {
+      this.logger.warn(
+        `${sysMsg.ANALYSIS_JOB_LEASES_RECOVERED}: ${recovered.length}`,
+      );
+    }
+
+    return recovered;
+  }
+}
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { AnalysisJobDocument, AnalysisJobStatus } from "../analysis-job.schema";
+
+/**
+ * Response DTO for an analysis job
+ */
+export class AnalysisJobResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the job",
+    example: "6571f1a2bcf86cd799439099",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Current status of the job",
+    enum: AnalysisJobStatus,
+    example: AnalysisJobStatus.QUEUED,
+  })
+  status: AnalysisJobStatus;
+
+  @ApiProperty({
+    description: "Number of attempts made so far",
+    example: 1,
+  })
+  attempts: number;
+
+  @ApiProperty({
+    description: "Maximum number of attempts before the job fails",
+    example: 3,
+  })
+  maxAttempts: number;
+
+  @ApiProperty({
+    description: "Earliest time the job will be picked up by a worker",
+    example: "2024-12-06T10:00:05.000Z",
+  })
+  runAt: Date;
+
+  @ApiPropertyOptional({
+    description: "Error message of the last failed attempt",
+    example: null,
+  })
+  lastError?: string;
+
+  @ApiPropertyOptional({
+    description: "Timestamp when the job completed",
+    example: null,
+  })
+  completedAt?: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the job was created",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the job was last updated",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  updatedAt: Date;
+
+  constructor(partial: Partial<AnalysisJobResponseDto>) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      partial &&
+      typeof (partial as Record<string, unknown>).toObject === "function"
+        ? (partial as AnalysisJobDocument).toObject()
+        : partial;
+
+    this.id = plain.id || plain._id;
+    this.status = plain.status;
+    this.attempts = plain.attempts;
+    this.maxAttempts = plain.maxAttempts;
+    this.runAt = plain.runAt;
+    this.lastError = plain.lastError;
+    this.completedAt = plain.completedAt;
+    this.createdAt = plain.createdAt;
+    this.updatedAt = plain.updatedAt;
+  }
+}
@@ -0,0 +1 @@
+export * from "./analysis-job-response.dto";
@@ -0,0 +1,5 @@
+export * from "./analysis-job.schema";
+export * from "./analysis-jobs.module";
+export * from "./analysis-jobs.service";
+export * from "./dtos";
+export * from "./model-actions";
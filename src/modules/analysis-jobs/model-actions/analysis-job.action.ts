@@ -0,0 +1,79 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  AnalysisJob,
+  AnalysisJobDocument,
+  AnalysisJobStatus,
+} from "../analysis-job.schema";
+
+// Duplicate key error raised when a document already has an active job
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Model action for AnalysisJob entity
+ * Adds atomic queue operations on top of the standard CRUD operations
+ */
+@Injectable()
+export class AnalysisJobModelAction extends AbstractModelAction<AnalysisJob> {
+  constructor(
+    @InjectModel(AnalysisJob.name)
+    private analysisJobModel: Model<AnalysisJobDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(analysisJobModel);
+  }
+
+  /**
+   * Creates a job unless its document already has a queued or running one
+   * Returns null in that case; the unique partial index makes this atomic
+   */
+  async createIfNotActive(
+    payload: Partial<AnalysisJob>,
+  ): Promise<AnalysisJobDocument | null> {
+    try {
+      return await this.analysisJobModel.create(payload);
+    } catch (error: unknown) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_CREATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Atomically claims the oldest due job for the given worker
+   * Returns null when no job is ready to run
+   */
+  async claimNext(workerId: string): Promise<AnalysisJobDocument | null> {
+    const now = new Date();
+
+    try {
+      return await this.analysisJobModel.findOneAndUpdate(
+        { status: AnalysisJobStatus.QUEUED, runAt: { $lte: now } },
+        {
+          $set: {
+            status: AnalysisJobStatus.RUNNING,
+            lockedAt: now,
+            lockedBy: workerId,
+          },
+          $inc: { attempts: 1 },
+        },
+        { sort: { runAt: 1 }, new: true },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_UPDATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+}
@@ -0,0 +1 @@
+export * from "./analysis-job.action";
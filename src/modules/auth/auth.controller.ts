@@ -1,14 +1,18 @@
-import { Controller, Post, Body } from "@nestjs/common";
-import { ApiTags } from "@nestjs/swagger";
+import { Controller, Post, Patch, Body, UseGuards } from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
 import { AuthService } from "./auth.service";
 import {
   SignupDto,
   LoginDto,
   AuthResponseDto,
   LoginResponseDto,
+  UpdatePreferencesDto,
 } from "./dto/auth.dto";
 import { ApiResponse } from "../../common";
-import { DocsSignup, DocsLogin } from "./docs";
+import { DocsSignup, DocsLogin, DocsUpdatePreferences } from "./docs";
+import { JwtAuthGuard } from "./jwt-auth.guard";
+import { CurrentUser } from "./current-user.decorator";
+import { UserDocument } from "./user.schema";
 
 @ApiTags("Authentication")
 @Controller("auth")
@@ -30,4 +34,15 @@ export class AuthController {
   ): Promise<ApiResponse<LoginResponseDto>> {
     return this.authService.login(loginDto);
   }
+
+  @Patch("preferences")
+  @ApiBearerAuth("JWT")
+  @UseGuards(JwtAuthGuard)
+  @DocsUpdatePreferences()
+  async updatePreferences(
+    @CurrentUser() user: UserDocument,
+    @Body() preferencesDto: UpdatePreferencesDto,
+  ): Promise<ApiResponse<AuthResponseDto>> {
+    return this.authService.updatePreferences(user.id, preferencesDto);
+  }
 }
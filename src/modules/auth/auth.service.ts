@@ -1,6 +1,7 @@
 import {
   Injectable,
   ConflictException,
+  NotFoundException,
   UnauthorizedException,
 } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
@@ -13,6 +14,7 @@ import {
   LoginDto,
   AuthResponseDto,
   LoginResponseDto,
+  UpdatePreferencesDto,
 } from "./dto/auth.dto";
 import { ApiResponse } from "../../common";
 import * as sysMsg from "../../constants/system.messages";
@@ -71,6 +73,25 @@ export class AuthService {
     };
   }
 
+  async updatePreferences(
+    userId: string,
+    preferencesDto: UpdatePreferencesDto,
+  ): Promise<ApiResponse<AuthResponseDto>> {
+    const user = await this.userModel.findByIdAndUpdate(
+      userId,
+      { $set: preferencesDto },
+      { new: true },
+    );
+    if (!user) {
+      throw new NotFoundException(sysMsg.USER_NOT_FOUND);
+    }
+
+    return {
+      message: sysMsg.PREFERENCES_UPDATED,
+      data: new AuthResponseDto(user.toObject()),
+    };
+  }
+
   async validateUser(userId: string): Promise<UserDocument> {
     return this.userModel.findById(userId);
   }
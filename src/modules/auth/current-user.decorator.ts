@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { UserDocument } from "./user.schema";
+
+/**
+ * Parameter decorator that resolves the authenticated user
+ * Populated by JwtStrategy.validate on routes protected by JwtAuthGuard
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): UserDocument => {
+    const request = context.switchToHttp().getRequest();
+    return request.user;
+  },
+);
@@ -177,3 +177,64 @@ export function DocsLogin() {
     }),
   );
 }
+
+/**
+ * Swagger decorator for update preferences endpoint
+ */
+export function DocsUpdatePreferences() {
+  return applyDecorators(
+    ApiOperation({
+      summary: "Update user preferences",
+      description:
+        "Update per-user defaults such as automatic analysis of uploaded documents",
+    }),
+    ApiBody({
+      schema: {
+        type: "object",
+        properties: {
+          autoAnalyzeUploads: {
+            type: "boolean",
+            example: true,
+          },
+        },
+      },
+    }),
+    ApiResponse({
+      status: 200,
+      description: "Preferences updated",
+      schema: {
+        type: "object",
+        properties: {
+          message: {
+            type: "string",
+            example: "Preferences updated successfully.",
+          },
+          data: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                example: "507f1f77bcf86cd799439011",
+              },
+              email: { type: "string", example: "user@example.com" },
+              firstName: { type: "string", example: "John" },
+              lastName: { type: "string", example: "Doe" },
+              autoAnalyzeUploads: { type: "boolean", example: true },
+              createdAt: { type: "string", format: "date-time" },
+            },
+          },
+        },
+      },
+    }),
+    ApiUnauthorizedResponse({
+      description: "Missing or invalid token",
+      schema: {
+        type: "object",
+        properties: {
+          statusCode: { type: "number", example: 401 },
+          message: { type: "string", example: "Unauthorized" },
+        },
+      },
+    }),
+  );
+}
@@ -1,5 +1,12 @@
-import { IsEmail, IsNotEmpty, IsString, MinLength } from "class-validator";
-import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MinLength,
+} from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 
 export class SignupDto {
   @ApiProperty({ example: "user@example.com" })
@@ -36,11 +43,22 @@ export class LoginDto {
   password: string;
 }
 
+export class UpdatePreferencesDto {
+  @ApiPropertyOptional({
+    example: true,
+    description: "Queue uploaded documents for analysis automatically",
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoAnalyzeUploads?: boolean;
+}
+
 export class AuthResponseDto {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
+  autoAnalyzeUploads: boolean;
   createdAt: Date;
 
   constructor(partial: Partial<AuthResponseDto>) {
@@ -48,6 +66,7 @@ export class AuthResponseDto {
     this.email = partial.email;
     this.firstName = partial.firstName;
     this.lastName = partial.lastName;
+    this.autoAnalyzeUploads = partial.autoAnalyzeUploads;
     this.createdAt = partial.createdAt;
   }
 }
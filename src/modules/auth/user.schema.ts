@@ -41,6 +41,9 @@ export class User {
   @Prop({ required: true })
   lastName: string;
 
+  @Prop({ default: false })
+  autoAnalyzeUploads: boolean; // Default for the upload autoAnalyze flag
+
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -0,0 +1,153 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as os from "os";
+import * as sysMsg from "../../constants/system.messages";
+import { AnalysisJobsService } from "../analysis-jobs/analysis-jobs.service";
+import {
+  AnalysisJobDocument,
+  AnalysisJobStatus,
+} from "../analysis-jobs/analysis-job.schema";
+import { DocumentsService } from "./documents.service";
+import { AnalysisStatus } from "./document.schema";
+
+/**
+ * Background worker that processes queued analysis jobs
+ * Polls the job queue, claims jobs atomically and keeps their lease alive while running
+ */
+@Injectable()
+export class AnalysisWorker implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(AnalysisWorker.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly enabled: boolean;
+  private readonly pollIntervalMs: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly analysisJobsService: AnalysisJobsService,
+    private readonly documentsService: DocumentsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>("ANALYSIS_WORKER_ENABLED", "true") !==
+      "false";
+    this.pollIntervalMs = Number(
+      this.configService.get<string>(
+        "ANALYSIS_WORKER_POLL_INTERVAL_MS",
+        "2000",
+      ),
+    );
+  }
+
+  /**
+   * Recovers abandoned work and starts polling once the app has booted
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.enabled) {
+      this.logger.warn(sysMsg.ANALYSIS_WORKER_DISABLED);
+      return;
+    }
+
+    try {
+      await this.recoverStaleWork();
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.ANALYSIS_WORKER_POLL_FAILED}: ${error.message}`,
+      );
+    }
+
+    this.logger.log(`${sysMsg.ANALYSIS_WORKER_STARTED}: ${this.workerId}`);
+    this.scheduleNextPoll();
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Requeues jobs with expired leases and documents stuck in ANALYZING
+   */
+  private async recoverStaleWork(): Promise<void> {
+    const recoveredJobs = await this.analysisJobsService.recoverStaleLeases();
+    for (const job of recoveredJobs) {
+      const documentId = job.document.toString();
+      if (job.status === AnalysisJobStatus.FAILED) {
+        await this.documentsService.markAnalysisFailed(
+          documentId,
+          job.lastError,
+        );
+      } else {
+        await this.documentsService.setAnalysisStatus(
+          documentId,
+          AnalysisStatus.PENDING,
+        );
+      }
+    }
+
+    await this.documentsService.recoverOrphanedAnalyses();
+  }
+
+  private scheduleNextPoll(): void {
+    if (this.stopped) return;
+    this.pollTimer = setTimeout(() => this.poll(), this.pollIntervalMs);
+  }
+
+  /**
+   * Drains all due jobs, then waits for the next poll interval
+   */
+  private async poll(): Promise<void> {
+    try {
+      let job = await this.analysisJobsService.claimNext(this.workerId);
+      while (job && !this.stopped) {
+        await this.processJob(job);
+        job = await this.analysisJobsService.claimNext(this.workerId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.ANALYSIS_WORKER_POLL_FAILED}: ${error.message}`,
+      );
+    } finally {
+      this.scheduleNextPoll();
+    }
+  }
+
+  /**
+   * Runs a single claimed job, recording its outcome on the job and document
+   */
+  private async processJob(job: AnalysisJobDocument): Promise<void> {
+    const documentId = job.document.toString();
+    const stopHeartbeat = this.analysisJobsService.keepLeaseAlive(job);
+
+    try {
+      await this.documentsService.runAnalysis(documentId);
+      await this.analysisJobsService.markCompleted(job);
+    } catch (error) {
+      const { willRetry } = await this.analysisJobsService.markFailed(
+        job,
+        error.message,
+      );
+      if (willRetry) {
+        await this.documentsService.setAnalysisStatus(
+          documentId,
+          AnalysisStatus.PENDING,
+        );
+      } else {
+        await this.documentsService.markAnalysisFailed(
+          documentId,
+          error.message,
+        );
+      }
+    } finally {
+      stopHeartbeat();
+    }
+  }
+}
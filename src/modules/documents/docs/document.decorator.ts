@@ -6,13 +6,30 @@ import {
   ApiQuery,
   ApiConsumes,
   ApiBody,
+  ApiProduces,
+  ApiExtraModels,
 } from "@nestjs/swagger";
 import { DocumentSwagger } from "./document.swagger";
 import {
   DocumentResponseDto,
   PaginatedDocumentsResponseDto,
+  PaginatedSearchResultsResponseDto,
+  SemanticSearchResultDto,
   UploadDocumentDto,
+  UploadBatchDto,
+  DocumentBatchResponseDto,
   AnalyzeDocumentDto,
+  AnalysisStatusResponseDto,
+  DocumentFileUrlResponseDto,
+  DocumentStructureResponseDto,
+  AskDocumentDto,
+  AskLibraryDto,
+  LibraryAnswerResponseDto,
+  DocumentQuestionResponseDto,
+  AnalysisStreamStatusEventDto,
+  AnalysisStreamSummaryEventDto,
+  DocumentAnalysisResponseDto,
+  AnalysisDiffResponseDto,
 } from "../dtos";
 
 /**
@@ -34,6 +51,75 @@ export const DocsUploadDocument = () => {
     }),
     ApiResponse(responses.badRequest),
     ApiResponse(responses.unsupportedMediaType),
+    ApiResponse(responses.unprocessableEntity),
+    ApiResponse(responses.conflict),
+    ApiResponse(responses.internalError),
+  );
+};
+
+/**
+ * Decorator for Upload Batch endpoint
+ */
+export const DocsUploadBatch = () => {
+  const { operation, responses } = DocumentSwagger.endpoints.uploadBatch;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiConsumes("multipart/form-data"),
+    ApiBody({
+      description: "Document files and/or ZIP archives to upload",
+      type: UploadBatchDto,
+    }),
+    ApiResponse({
+      ...responses.created,
+      type: DocumentBatchResponseDto,
+    }),
+    ApiResponse(responses.badRequest),
+    ApiResponse(responses.payloadTooLarge),
+    ApiResponse(responses.internalError),
+  );
+};
+
+/**
+ * Decorator for Get Batch endpoint
+ */
+export const DocsGetBatch = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.getBatch;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.batchId),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentBatchResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Analyze Batch endpoint
+ */
+export const DocsAnalyzeBatch = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.analyzeBatch;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.batchId),
+    ApiBody({
+      description: "Analysis options",
+      type: AnalyzeDocumentDto,
+      required: false,
+    }),
+    ApiResponse({
+      ...responses.accepted,
+      type: DocumentBatchResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
     ApiResponse(responses.internalError),
   );
 };
@@ -57,6 +143,57 @@ export const DocsListDocuments = () => {
   );
 };
 
+/**
+ * Decorator for Search Documents endpoint
+ */
+export const DocsSearchDocuments = () => {
+  const { operation, responses } = DocumentSwagger.endpoints.search;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiResponse({
+      ...responses.ok,
+      type: PaginatedSearchResultsResponseDto,
+    }),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Semantic Search Documents endpoint
+ */
+export const DocsSemanticSearchDocuments = () => {
+  const { operation, responses } = DocumentSwagger.endpoints.semanticSearch;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiResponse({
+      ...responses.ok,
+      type: [SemanticSearchResultDto],
+    }),
+    ApiResponse(responses.badRequest),
+    ApiResponse(responses.internalError),
+  );
+};
+
+/**
+ * Decorator for Ask Library endpoint
+ */
+export const DocsAskLibrary = () => {
+  const { operation, responses } = DocumentSwagger.endpoints.askLibrary;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiBody({ type: AskLibraryDto }),
+    ApiResponse({
+      ...responses.ok,
+      type: LibraryAnswerResponseDto,
+    }),
+    ApiResponse(responses.badRequest),
+    ApiResponse(responses.internalError),
+  );
+};
+
 /**
  * Decorator for Analyze Document endpoint
  */
@@ -73,7 +210,7 @@ export const DocsAnalyzeDocument = () => {
       required: false,
     }),
     ApiResponse({
-      ...responses.ok,
+      ...responses.accepted,
       type: DocumentResponseDto,
     }),
     ApiResponse(responses.notFound),
@@ -82,6 +219,139 @@ export const DocsAnalyzeDocument = () => {
   );
 };
 
+/**
+ * Decorator for Stream Document Analysis endpoint
+ */
+export const DocsStreamDocumentAnalysis = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.analyzeStream;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiQuery(parameters.forceReAnalysis),
+    ApiProduces("text/event-stream"),
+    ApiExtraModels(AnalysisStreamStatusEventDto, AnalysisStreamSummaryEventDto),
+    ApiResponse({
+      ...responses.ok,
+      schema: { type: "string" },
+    }),
+  );
+};
+
+/**
+ * Decorator for Get Analysis Status endpoint
+ */
+export const DocsGetAnalysisStatus = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.analysisStatus;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: AnalysisStatusResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Clear Analysis Cache endpoint
+ */
+export const DocsClearAnalysisCache = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.clearAnalysisCache;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse(responses.ok),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+    ApiResponse(responses.internalError),
+  );
+};
+
+/**
+ * Decorator for List Analysis Versions endpoint
+ */
+export const DocsGetAnalysisVersions = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.analysisVersions;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: [DocumentAnalysisResponseDto],
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Compare Analysis Versions endpoint
+ */
+export const DocsDiffAnalysisVersions = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.analysisDiff;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: AnalysisDiffResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Pin Analysis Version endpoint
+ */
+export const DocsPinAnalysisVersion = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.pinAnalysisVersion;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiParam(parameters.version),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Unpin Analysis Version endpoint
+ */
+export const DocsUnpinAnalysisVersion = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.unpinAnalysisVersion;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
 /**
  * Decorator for Get Document by ID endpoint
  */
@@ -101,6 +371,119 @@ export const DocsGetDocumentById = () => {
   );
 };
 
+/**
+ * Decorator for Get Document Structure endpoint
+ */
+export const DocsGetDocumentStructure = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.structure;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentStructureResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Ask Document endpoint
+ */
+export const DocsAskDocument = () => {
+  const { operation, parameters, responses } = DocumentSwagger.endpoints.ask;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiBody({ type: AskDocumentDto }),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentQuestionResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+    ApiResponse(responses.internalError),
+  );
+};
+
+/**
+ * Decorator for Get Document Questions endpoint
+ */
+export const DocsGetDocumentQuestions = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.questions;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: [DocumentQuestionResponseDto],
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Clear Document Questions endpoint
+ */
+export const DocsClearDocumentQuestions = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.clearQuestions;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse(responses.ok),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Download Document File endpoint
+ */
+export const DocsDownloadDocumentFile = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.downloadFile;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiProduces("application/octet-stream"),
+    ApiResponse({
+      ...responses.ok,
+      schema: { type: "string", format: "binary" },
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Get Document File URL endpoint
+ */
+export const DocsGetDocumentFileUrl = () => {
+  const { operation, parameters, responses } =
+    DocumentSwagger.endpoints.fileUrl;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: DocumentFileUrlResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
 /**
  * Decorator for Delete Document endpoint
  */
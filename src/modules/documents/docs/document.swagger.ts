@@ -14,13 +14,14 @@ export const DocumentSwagger = {
       operation: {
         summary: "Upload a document",
         description:
-          "Accepts a PDF or DOCX file (max 5MB), extracts text, stores the file, and saves metadata to the database.",
+          "Accepts a PDF, DOCX, ODT, RTF, TXT, Markdown, HTML, XLSX, EML, PNG, JPEG or TIFF file (max 5MB). The format is detected from the file contents. Extracts text (with OCR for images and scanned PDFs), stores the file, and saves metadata to the database. Set autoAnalyze (or the user's autoAnalyzeUploads preference) to queue analysis right away; the response then includes an analysisStatusUrl to poll. A file identical to one of the user's documents is linked to it, answered with the existing document, or rejected, depending on the DUPLICATE_UPLOAD_POLICY; the analysis of an identical document is reused instead of being repeated.",
       },
       body: {
         file: {
           type: "string",
           format: "binary",
-          description: "The document file (PDF or DOCX, max 5MB)",
+          description:
+            "The document file (PDF, DOCX, ODT, RTF, TXT, Markdown, HTML, XLSX, EML, PNG, JPEG or TIFF; max 5MB)",
         },
       },
       responses: {
@@ -36,17 +37,110 @@ export const DocumentSwagger = {
           status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
           description: sysMsg.UNSUPPORTED_FILE_TYPE,
         },
+        unprocessableEntity: {
+          status: HttpStatus.UNPROCESSABLE_ENTITY,
+          description: sysMsg.TEXT_EXTRACTION_NO_TEXT,
+        },
+        conflict: {
+          status: HttpStatus.CONFLICT,
+          description: `${sysMsg.DOCUMENT_DUPLICATE} (DUPLICATE_UPLOAD_POLICY=reject)`,
+        },
         internalError: {
           status: HttpStatus.INTERNAL_SERVER_ERROR,
           description: sysMsg.DOCUMENT_UPLOAD_FAILED,
         },
       },
     },
+    uploadBatch: {
+      operation: {
+        summary: "Upload a batch of documents",
+        description:
+          "Accepts up to 50 files in the files field: documents (max 5MB each) and/or ZIP archives of documents (max 25MB each), which are expanded into the files they contain. Each file is stored and its text extracted on its own, so the response lists a success or failure result per file instead of failing the whole batch. The documents are grouped under the returned batch ID, which can be analyzed and polled together. Set autoAnalyze (or the user's autoAnalyzeUploads preference) to queue the stored documents for analysis right away.",
+      },
+      responses: {
+        created: {
+          status: HttpStatus.CREATED,
+          description: sysMsg.BATCH_UPLOADED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.BATCH_NO_FILES} / ${sysMsg.BATCH_TOO_MANY_FILES}`,
+        },
+        payloadTooLarge: {
+          status: HttpStatus.PAYLOAD_TOO_LARGE,
+          description: "An uploaded file is larger than 25MB",
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: sysMsg.DB_CREATE_FAILED,
+        },
+      },
+    },
+    getBatch: {
+      operation: {
+        summary: "Get a batch",
+        description:
+          "Returns the per-file results of a batch upload, the analysis status of each of its documents and the number of documents per status. Poll until analysisFinished is true.",
+      },
+      parameters: {
+        batchId: {
+          name: "batchId",
+          description: "Batch ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.BATCH_FETCHED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.BATCH_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.BATCH_INVALID_ID,
+        },
+      },
+    },
+    analyzeBatch: {
+      operation: {
+        summary: "Analyze the documents of a batch",
+        description:
+          "Queues every document of the batch for background analysis, skipping documents already analyzed (unless forceReAnalysis is set) or already queued. Poll the batch for progress.",
+      },
+      parameters: {
+        batchId: {
+          name: "batchId",
+          description: "Batch ID",
+          type: String,
+        },
+      },
+      responses: {
+        accepted: {
+          status: HttpStatus.ACCEPTED,
+          description: sysMsg.BATCH_ANALYSIS_QUEUED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.BATCH_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.BATCH_INVALID_ID,
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: sysMsg.ANALYSIS_FAILED,
+        },
+      },
+    },
     list: {
       operation: {
         summary: "List all documents",
         description:
-          "Retrieves a paginated list of documents with optional filtering by status and type.",
+          "Retrieves a paginated list of the authenticated user's documents with optional filtering by status and type.",
       },
       parameters: {
         page: {
@@ -93,11 +187,70 @@ export const DocumentSwagger = {
         },
       },
     },
+    search: {
+      operation: {
+        summary: "Search documents",
+        description:
+          "Full-text search over the authenticated user's documents (file name, summary, extracted text, keywords and sender). Results are sorted by relevance and include HTML snippets with matches wrapped in <mark>. Can be combined with the list filters and with date ranges on the upload date (createdFrom/createdTo) and the extracted document date (dateFrom/dateTo).",
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENTS_SEARCHED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.VALIDATION_ERROR} / ${sysMsg.SEARCH_INVALID_DATE_RANGE}`,
+        },
+      },
+    },
+    semanticSearch: {
+      operation: {
+        summary: "Search documents by meaning",
+        description:
+          "Finds the passages of the authenticated user's documents closest in meaning to the query (cosine similarity of their embeddings), best first, each with the document it belongs to. Documents are split into passages and embedded when they are uploaded.",
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENTS_SEMANTIC_SEARCHED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.VALIDATION_ERROR,
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: sysMsg.EMBEDDING_REQUEST_FAILED,
+        },
+      },
+    },
+    askLibrary: {
+      operation: {
+        summary: "Ask a question across all documents",
+        description:
+          "Answers a question from the authenticated user's documents. The passages closest in meaning to the question (see semantic search) are given to the model, which answers only from them; the answer cites the quoted passages with their document ID, file name and page. When none of the documents contains the answer, answerable is false and the answer is a refusal. documentType restricts the question to documents of one type.",
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.LIBRARY_QUESTION_ANSWERED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.VALIDATION_ERROR} / Missing or too long question`,
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: `${sysMsg.EMBEDDING_REQUEST_FAILED} / ${sysMsg.LLM_ANALYSIS_FAILED}`,
+        },
+      },
+    },
     analyze: {
       operation: {
         summary: "Analyze a document",
         description:
-          "Sends the extracted text to an LLM for analysis, generating a summary, document type, and metadata.",
+          "Queues the document for background LLM analysis (summary, document type, and metadata) and returns immediately. Poll the analysis status URL for progress.",
       },
       parameters: {
         id: {
@@ -112,10 +265,69 @@ export const DocumentSwagger = {
           example: false,
         },
       },
+      responses: {
+        accepted: {
+          status: HttpStatus.ACCEPTED,
+          description: sysMsg.ANALYSIS_QUEUED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: sysMsg.ANALYSIS_FAILED,
+        },
+      },
+    },
+    analyzeStream: {
+      operation: {
+        summary: "Analyze a document and stream the results",
+        description:
+          'Runs the LLM analysis right away instead of queueing it, and streams its progress as server-sent events. "status" events report ANALYZING, then COMPLETED (with the analyzed document) or FAILED (with the error); "summary" events carry the summary text as the model generates it. A document that is already analyzed gets a single COMPLETED event unless forceReAnalysis is set. Errors before the analysis starts (unknown document, analysis already in progress) are sent as an "error" event.',
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+        forceReAnalysis: {
+          name: "forceReAnalysis",
+          required: false,
+          type: Boolean,
+          description: "Force re-analysis even if already completed",
+        },
+      },
       responses: {
         ok: {
           status: HttpStatus.OK,
-          description: sysMsg.ANALYSIS_COMPLETED,
+          description:
+            'Event stream of "status" (AnalysisStreamStatusEventDto) and "summary" (AnalysisStreamSummaryEventDto) events',
+        },
+      },
+    },
+    structure: {
+      operation: {
+        summary: "Get the extracted structure of a document",
+        description:
+          "Returns the document's headings, paragraphs and tables in reading order. Blocks of PDFs and images carry their page number.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENT_STRUCTURE_FETCHED,
         },
         notFound: {
           status: HttpStatus.NOT_FOUND,
@@ -125,9 +337,270 @@ export const DocumentSwagger = {
           status: HttpStatus.BAD_REQUEST,
           description: sysMsg.DOCUMENT_INVALID_ID,
         },
+      },
+    },
+    ask: {
+      operation: {
+        summary: "Ask a question about a document",
+        description:
+          "Answers a question using only the document's extracted text, with the passages that support the answer (and their pages). When the document doesn't contain the answer, answerable is false and the answer is a refusal. Questions and answers are kept as the document's conversation, and the latest ones are given to the model so follow-up questions can refer to them.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENT_QUESTION_ANSWERED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.DOCUMENT_INVALID_ID} / Missing or too long question`,
+        },
         internalError: {
           status: HttpStatus.INTERNAL_SERVER_ERROR,
-          description: sysMsg.ANALYSIS_FAILED,
+          description: sysMsg.LLM_ANALYSIS_FAILED,
+        },
+      },
+    },
+    questions: {
+      operation: {
+        summary: "Get the conversation history of a document",
+        description:
+          "Returns the questions asked about the document and their answers, oldest first.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENT_QUESTIONS_FETCHED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+      },
+    },
+    clearQuestions: {
+      operation: {
+        summary: "Clear the conversation history of a document",
+        description:
+          "Deletes the questions asked about the document, so the next question starts a new conversation.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENT_QUESTIONS_CLEARED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+      },
+    },
+    clearAnalysisCache: {
+      operation: {
+        summary: "Clear the cached analyses of a document",
+        description:
+          "Analyses are cached by extracted text, prompt version and model, so analyzing identical text again (including with forceReAnalysis) returns the stored result without calling the LLM. This removes the cached analyses of the document's text, for every prompt version and model, so the next analysis is run by the LLM again.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_CACHE_CLEARED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+        internalError: {
+          status: HttpStatus.INTERNAL_SERVER_ERROR,
+          description: sysMsg.DB_DELETE_FAILED,
+        },
+      },
+    },
+    analysisVersions: {
+      operation: {
+        summary: "List the analysis versions of a document",
+        description:
+          "Every analysis of a document is kept as an immutable version with the model and prompt version that produced it, when it ran, the tokens it used and its output. Versions are listed newest first; current marks the version the document shows.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_VERSIONS_FETCHED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+      },
+    },
+    analysisDiff: {
+      operation: {
+        summary: "Compare two analysis versions of a document",
+        description:
+          "Reports whether the summary and document type differ between the from and to versions, the metadata fields added, removed or changed, and the validation issues raised or resolved.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_DIFF_COMPUTED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: `${sysMsg.DOCUMENT_NOT_FOUND} / ${sysMsg.ANALYSIS_VERSION_NOT_FOUND}`,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.DOCUMENT_INVALID_ID} / ${sysMsg.VALIDATION_ERROR}`,
+        },
+      },
+    },
+    pinAnalysisVersion: {
+      operation: {
+        summary: "Pin an analysis version as current",
+        description:
+          "Shows the given version's summary, document type and metadata on the document. While a version is pinned, new analyses are still recorded as versions but don't replace it.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+        version: {
+          name: "version",
+          description: "Analysis version number",
+          type: Number,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_VERSION_PINNED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: `${sysMsg.DOCUMENT_NOT_FOUND} / ${sysMsg.ANALYSIS_VERSION_NOT_FOUND}`,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.DOCUMENT_INVALID_ID} / ${sysMsg.ANALYSIS_VERSION_INVALID}`,
+        },
+      },
+    },
+    unpinAnalysisVersion: {
+      operation: {
+        summary: "Unpin the current analysis version",
+        description:
+          "Makes the latest analysis version current again; later analyses replace it as before.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_VERSION_UNPINNED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+      },
+    },
+    analysisStatus: {
+      operation: {
+        summary: "Get the analysis status of a document",
+        description:
+          "Returns the document's analysis status together with its most recent analysis job (attempts, next run time, last error).",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.ANALYSIS_STATUS_FETCHED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
         },
       },
     },
@@ -159,6 +632,62 @@ export const DocumentSwagger = {
         },
       },
     },
+    downloadFile: {
+      operation: {
+        summary: "Download the original file",
+        description:
+          "Streams the originally uploaded file with its stored MIME type and file name (Content-Disposition: attachment).",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: "The original file",
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: `${sysMsg.DOCUMENT_NOT_FOUND} / ${sysMsg.FILE_NOT_FOUND}`,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: sysMsg.DOCUMENT_INVALID_ID,
+        },
+      },
+    },
+    fileUrl: {
+      operation: {
+        summary: "Get a presigned download URL",
+        description:
+          "Issues a short-lived URL that downloads the original file directly from object storage. Only available with the MinIO storage driver.",
+      },
+      parameters: {
+        id: {
+          name: "id",
+          description: "Document ID",
+          type: String,
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.DOCUMENT_FILE_URL_CREATED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: sysMsg.DOCUMENT_NOT_FOUND,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.DOCUMENT_INVALID_ID} / ${sysMsg.PRESIGNED_URL_UNSUPPORTED}`,
+        },
+      },
+    },
     delete: {
       operation: {
         summary: "Delete a document",
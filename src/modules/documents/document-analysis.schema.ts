@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+import { ExtractedMetadata } from "../../common/types";
+import { IMetadataIssue } from "../llm/extraction/metadata-validator";
+import { ITokenUsage } from "../llm/interfaces";
+import { DocumentType } from "./document.schema";
+
+export type DocumentAnalysisDocument = DocumentAnalysis & MongooseDocument;
+
+/**
+ * Where the output of an analysis version came from
+ */
+export enum AnalysisSource {
+  LLM = "llm", // Generated by the model for this analysis
+  CACHE = "cache", // Stored analysis of identical text, prompt version and model
+  DUPLICATE = "duplicate", // Taken over from a document with identical content
+  IMPORTED = "imported", // Result of an analysis made before versions were recorded
+}
+
+/**
+ * Immutable result of one analysis of a document
+ * Versions are numbered from 1 per document; the document holds a copy of
+ * the output of its current version
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DocumentAnalysis {
+  @Prop({ type: Types.ObjectId, ref: "Document", required: true })
+  document: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  version: number;
+
+  @Prop({ type: String, enum: Object.values(AnalysisSource), required: true })
+  source: AnalysisSource;
+
+  @Prop({ type: String, default: null })
+  model: string | null; // "<provider>:<model>"; null for imported results
+
+  @Prop({ type: String, default: null })
+  promptVersion: string | null;
+
+  @Prop({ required: true })
+  summary: string;
+
+  @Prop({ type: String, enum: Object.values(DocumentType), default: null })
+  documentType: DocumentType | null;
+
+  @Prop({ type: Object, default: {} })
+  extractedMetadata: ExtractedMetadata;
+
+  @Prop({ type: [Object], default: [] })
+  validationIssues: IMetadataIssue[];
+
+  @Prop({
+    type: Object,
+    default: () => ({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }),
+  })
+  usage: ITokenUsage; // Tokens billed for this analysis; zero unless the model ran
+
+  @Prop({ type: Number, default: null })
+  cost: number | null; // Estimated USD; null when the model has no price
+
+  @Prop({ default: null })
+  startedAt?: Date | null;
+
+  @Prop({ default: null })
+  completedAt?: Date | null;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DocumentAnalysisSchema =
+  SchemaFactory.createForClass(DocumentAnalysis);
+
+// Version numbers are unique per document; also serves listing newest first
+DocumentAnalysisSchema.index({ document: 1, version: -1 }, { unique: true });
@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+
+export type DocumentBatchDocument = DocumentBatch & MongooseDocument;
+
+/**
+ * Outcome of storing one file of a batch upload
+ */
+export interface IBatchFileResult {
+  fileName: string; // Path within the archive for files taken from a ZIP
+  archive: string | null; // Name of the ZIP archive the file was taken from
+  success: boolean;
+  documentId: string | null;
+  error: string | null;
+}
+
+/**
+ * Group of documents uploaded together, analyzed and polled as one
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DocumentBatch {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true, index: true })
+  owner: Types.ObjectId;
+
+  @Prop({ type: [Object], default: [] })
+  results: IBatchFileResult[];
+
+  @Prop({ default: 0 })
+  succeededCount: number;
+
+  @Prop({ default: 0 })
+  failedCount: number;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DocumentBatchSchema = SchemaFactory.createForClass(DocumentBatch);
@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+import { ILocatedQuote } from "../llm/utils/quote-locator";
+
+export type DocumentQuestionDocument = DocumentQuestion & MongooseDocument;
+
+/**
+ * Question asked about a document and its answer
+ * The questions of a document, oldest first, form its conversation history
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DocumentQuestion {
+  @Prop({ type: Types.ObjectId, ref: "Document", required: true })
+  document: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  question: string;
+
+  @Prop({ required: true })
+  answer: string;
+
+  @Prop({ required: true })
+  answerable: boolean; // False when the document doesn't contain the answer
+
+  @Prop({ type: [Object], default: [] })
+  quotes: ILocatedQuote[]; // Passages of the document supporting the answer
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DocumentQuestionSchema =
+  SchemaFactory.createForClass(DocumentQuestion);
+
+// Index for reading a document's conversation in order
+DocumentQuestionSchema.index({ document: 1, createdAt: 1 });
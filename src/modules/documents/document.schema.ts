@@ -1,6 +1,12 @@
 import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
-import { Document as MongooseDocument } from "mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
 import { ExtractedMetadata } from "../../common/types";
+import { IMetadataIssue } from "../llm/extraction/metadata-validator";
+import {
+  IDocumentStructure,
+  IExtractedTable,
+  IOcrResult,
+} from "../text-extraction/interfaces";
 
 export type DocumentDocument = Document & MongooseDocument;
 
@@ -54,6 +60,9 @@ export enum DocumentType {
   },
 })
 export class Document {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId; // The user who uploaded the document
+
   @Prop({ required: true })
   originalName: string;
 
@@ -63,11 +72,23 @@ export class Document {
   @Prop({ required: true })
   size: number; // in bytes
 
-  @Prop({ required: true, unique: true })
-  storagePath: string; // The MinIO object key where the file is stored
+  @Prop({ required: true, index: true })
+  storagePath: string; // The MinIO object key where the file is stored; shared by linked duplicate uploads
+
+  @Prop({ type: String, default: null })
+  contentHash?: string | null; // SHA-256 of the file, used to detect duplicate uploads
+
+  @Prop({ required: true })
+  extractedText: string; // Full extracted text; long documents are analyzed in chunks
+
+  @Prop({ type: Object, default: null })
+  ocr?: IOcrResult | null; // Set when some or all of the text came from OCR
+
+  @Prop({ type: Object, default: null })
+  structure?: IDocumentStructure | null; // Pages, headings, paragraphs and tables
 
-  @Prop({ required: true, maxlength: 200000 }) // Max character limit for text extraction
-  extractedText: string;
+  @Prop({ type: [Object], default: [] })
+  tables: IExtractedTable[]; // Tables of the structure as header and rows
 
   @Prop({
     type: String,
@@ -89,6 +110,21 @@ export class Document {
   @Prop({ type: Object, default: {} })
   extractedMetadata: ExtractedMetadata; // date, sender, total amount, etc.
 
+  @Prop({ type: [Object], default: [] })
+  validationIssues: IMetadataIssue[]; // Invalid or missing fields and amounts that don't add up
+
+  @Prop({ type: Types.ObjectId, ref: "DocumentAnalysis", default: null })
+  currentAnalysis?: Types.ObjectId | null; // Version the analysis fields above were copied from
+
+  @Prop({ default: false })
+  analysisPinned: boolean; // New analyses are recorded but don't replace the current version
+
+  @Prop({ type: Types.ObjectId, ref: "DocumentBatch", default: null })
+  batch?: Types.ObjectId | null; // Batch the document was uploaded in; null for single uploads
+
+  @Prop({ type: String, default: null })
+  embeddingModel?: string | null; // Embedding model of the document's chunks; null until indexed
+
   @Prop({ default: false })
   isDeleted: boolean;
 
@@ -103,7 +139,35 @@ export class Document {
 export const DocumentSchema = SchemaFactory.createForClass(Document);
 
 // Indexes for better query performance
+DocumentSchema.index({ owner: 1, isDeleted: 1, createdAt: -1 });
 DocumentSchema.index({ analysisStatus: 1 });
+DocumentSchema.index({ batch: 1 });
+DocumentSchema.index({ owner: 1, contentHash: 1 });
 DocumentSchema.index({ documentType: 1 });
 DocumentSchema.index({ isDeleted: 1 });
 DocumentSchema.index({ createdAt: -1 });
+DocumentSchema.index({ owner: 1, "extractedMetadata.date": 1 });
+
+// Full-text search, scoped to an owner; matches in names and keywords rank highest
+DocumentSchema.index(
+  {
+    owner: 1,
+    originalName: "text",
+    summary: "text",
+    extractedText: "text",
+    "extractedMetadata.keywords": "text",
+    "extractedMetadata.sender": "text",
+  },
+  {
+    name: "document_text_search",
+    weights: {
+      originalName: 10,
+      "extractedMetadata.keywords": 8,
+      "extractedMetadata.sender": 5,
+      summary: 3,
+      extractedText: 1,
+    },
+    // Metadata may contain a "language" field, which must not be read as the index language
+    language_override: "textSearchLanguage",
+  },
+);
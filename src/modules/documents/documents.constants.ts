@@ -0,0 +1,28 @@
+/**
+ * Largest file accepted as a document, also applied to each entry of an uploaded archive
+ */
+export const MAX_UPLOAD_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Most documents created by one batch upload; each archive entry counts as a file
+ */
+export const MAX_BATCH_FILES = 50;
+
+/**
+ * Largest file accepted by a batch upload, so ZIP archives can hold several documents
+ */
+export const MAX_BATCH_UPLOAD_SIZE = 25 * 1024 * 1024; // 25MB
+
+/**
+ * What happens when an owner uploads a file identical to one of their documents
+ * reject: the upload fails with 409 Conflict
+ * return-existing: the existing document is returned and nothing is stored
+ * link: a new document is created that shares the stored file and extracted text
+ */
+export enum DuplicateUploadPolicy {
+  REJECT = "reject",
+  RETURN_EXISTING = "return-existing",
+  LINK = "link",
+}
+
+export const DEFAULT_DUPLICATE_UPLOAD_POLICY = DuplicateUploadPolicy.LINK;
@@ -7,30 +7,73 @@ import {
   Body,
   Query,
   UploadedFile,
+  UploadedFiles,
   UseInterceptors,
   ParseFilePipe,
   MaxFileSizeValidator,
-  FileTypeValidator,
   HttpStatus,
   HttpCode,
   UseGuards,
+  StreamableFile,
+  Sse,
+  MessageEvent,
 } from "@nestjs/common";
-import { FileInterceptor } from "@nestjs/platform-express";
+import { Observable } from "rxjs";
+import { FileInterceptor, FilesInterceptor } from "@nestjs/platform-express";
 import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
 import { DocumentsService } from "./documents.service";
-import { AnalyzeDocumentDto, ListDocumentsQueryDto } from "./dtos";
+import {
+  AnalysisDiffQueryDto,
+  AnalyzeDocumentDto,
+  AskDocumentDto,
+  AskLibraryDto,
+  ListDocumentsQueryDto,
+  SearchDocumentsQueryDto,
+  SemanticSearchQueryDto,
+  StreamAnalysisQueryDto,
+  UploadBatchDto,
+  UploadDocumentDto,
+} from "./dtos";
 import {
   DocsUploadDocument,
+  DocsUploadBatch,
+  DocsGetBatch,
+  DocsAnalyzeBatch,
   DocsListDocuments,
+  DocsSearchDocuments,
+  DocsSemanticSearchDocuments,
+  DocsAskLibrary,
   DocsAnalyzeDocument,
+  DocsStreamDocumentAnalysis,
+  DocsGetAnalysisStatus,
+  DocsClearAnalysisCache,
+  DocsGetAnalysisVersions,
+  DocsDiffAnalysisVersions,
+  DocsPinAnalysisVersion,
+  DocsUnpinAnalysisVersion,
+  DocsGetDocumentStructure,
+  DocsAskDocument,
+  DocsGetDocumentQuestions,
+  DocsClearDocumentQuestions,
   DocsGetDocumentById,
+  DocsDownloadDocumentFile,
+  DocsGetDocumentFileUrl,
   DocsDeleteDocument,
 } from "./docs";
 import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { UserDocument } from "../auth/user.schema";
+import { SkipWrap } from "../../common/decorators";
+import { buildContentDisposition } from "../file-storage/utils";
+import {
+  MAX_BATCH_FILES,
+  MAX_BATCH_UPLOAD_SIZE,
+  MAX_UPLOAD_FILE_SIZE,
+} from "./documents.constants";
 
 /**
  * Controller for document operations
- * Handles upload, analysis, retrieval, and listing of documents
+ * Handles upload (single or batch), analysis, retrieval, and listing of documents
  */
 @ApiTags("Documents")
 @ApiBearerAuth("JWT")
@@ -42,6 +85,7 @@ export class DocumentsController {
   /**
    * POST /documents/upload
    * Uploads a document file, extracts text, and stores it
+   * Optionally queues the document for analysis (autoAnalyze)
    */
   @Post("upload")
   @HttpCode(HttpStatus.CREATED)
@@ -51,18 +95,79 @@ export class DocumentsController {
     @UploadedFile(
       new ParseFilePipe({
         validators: [
-          new MaxFileSizeValidator({ maxSize: 5 * 1024 * 1024 }), // 5MB
-          new FileTypeValidator({
-            fileType:
-              "application/(pdf|vnd\\.openxmlformats-officedocument\\.wordprocessingml\\.document)",
-          }),
+          new MaxFileSizeValidator({ maxSize: MAX_UPLOAD_FILE_SIZE }),
+          // The file type is detected from its contents during text extraction
         ],
         errorHttpStatusCode: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
       }),
     )
     file: Express.Multer.File,
+    @Body() uploadDto: UploadDocumentDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.uploadDocument(
+      file,
+      user.id,
+      uploadDto.autoAnalyze ?? user.autoAnalyzeUploads,
+    );
+  }
+
+  /**
+   * POST /documents/batch
+   * Uploads several files and/or ZIP archives of files as one batch
+   * Each file is stored on its own and reported as succeeded or failed
+   */
+  @Post("batch")
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FilesInterceptor("files", MAX_BATCH_FILES, {
+      limits: { fileSize: MAX_BATCH_UPLOAD_SIZE },
+    }),
+  )
+  @DocsUploadBatch()
+  async uploadBatch(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() uploadDto: UploadBatchDto,
+    @CurrentUser() user: UserDocument,
   ) {
-    return this.documentsService.uploadDocument(file);
+    return this.documentsService.uploadBatch(
+      files,
+      user.id,
+      uploadDto.autoAnalyze ?? user.autoAnalyzeUploads,
+    );
+  }
+
+  /**
+   * GET /documents/batches/:batchId
+   * Returns the per-file results of a batch and the analysis status of its documents
+   */
+  @Get("batches/:batchId")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetBatch()
+  async getBatch(
+    @Param("batchId") batchId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getBatch(batchId, user.id);
+  }
+
+  /**
+   * POST /documents/batches/:batchId/analyze
+   * Queues every document of a batch for analysis
+   */
+  @Post("batches/:batchId/analyze")
+  @HttpCode(HttpStatus.ACCEPTED)
+  @DocsAnalyzeBatch()
+  async analyzeBatch(
+    @Param("batchId") batchId: string,
+    @CurrentUser() user: UserDocument,
+    @Body() analyzeDto?: AnalyzeDocumentDto,
+  ) {
+    return this.documentsService.analyzeBatch(
+      batchId,
+      user.id,
+      analyzeDto?.forceReAnalysis,
+    );
   }
 
   /**
@@ -72,27 +177,271 @@ export class DocumentsController {
   @Get()
   @HttpCode(HttpStatus.OK)
   @DocsListDocuments()
-  async listDocuments(@Query() query: ListDocumentsQueryDto) {
-    return this.documentsService.listDocuments(query);
+  async listDocuments(
+    @Query() query: ListDocumentsQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.listDocuments(query, user.id);
+  }
+
+  /**
+   * GET /documents/search
+   * Full-text search with relevance sorting, snippets and date filters
+   * Declared before the :id routes so "search" isn't taken for an ID
+   */
+  @Get("search")
+  @HttpCode(HttpStatus.OK)
+  @DocsSearchDocuments()
+  async searchDocuments(
+    @Query() query: SearchDocumentsQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.searchDocuments(query, user.id);
+  }
+
+  /**
+   * GET /documents/semantic-search
+   * Finds the passages closest in meaning to a query, with their documents
+   */
+  @Get("semantic-search")
+  @HttpCode(HttpStatus.OK)
+  @DocsSemanticSearchDocuments()
+  async semanticSearch(
+    @Query() query: SemanticSearchQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.semanticSearch(query, user.id);
+  }
+
+  /**
+   * POST /documents/ask
+   * Answers a question across all of the user's documents, with citations
+   */
+  @Post("ask")
+  @HttpCode(HttpStatus.OK)
+  @DocsAskLibrary()
+  async askLibrary(
+    @Body() askDto: AskLibraryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.askLibrary(user.id, askDto);
   }
 
   /**
    * POST /documents/:id/analyze
-   * Analyzes a document using AI/LLM
+   * Queues a document for AI/LLM analysis
    */
   @Post(":id/analyze")
-  @HttpCode(HttpStatus.CREATED)
+  @HttpCode(HttpStatus.ACCEPTED)
   @DocsAnalyzeDocument()
   async analyzeDocument(
     @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
     @Body() analyzeDto?: AnalyzeDocumentDto,
   ) {
     return this.documentsService.analyzeDocument(
       id,
+      user.id,
       analyzeDto?.forceReAnalysis,
     );
   }
 
+  /**
+   * GET /documents/:id/analyze/stream
+   * Analyzes a document immediately, streaming status changes and the summary as SSE
+   */
+  @Sse(":id/analyze/stream")
+  @SkipWrap()
+  @DocsStreamDocumentAnalysis()
+  async streamDocumentAnalysis(
+    @Param("id") id: string,
+    @Query() query: StreamAnalysisQueryDto,
+    @CurrentUser() user: UserDocument,
+  ): Promise<Observable<MessageEvent>> {
+    return this.documentsService.streamAnalysis(
+      id,
+      user.id,
+      query.forceReAnalysis,
+    );
+  }
+
+  /**
+   * GET /documents/:id/analysis
+   * Returns the analysis status and latest job of a document
+   */
+  @Get(":id/analysis")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetAnalysisStatus()
+  async getAnalysisStatus(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getAnalysisStatus(id, user.id);
+  }
+
+  /**
+   * DELETE /documents/:id/analysis/cache
+   * Clears the cached analyses of the document's text
+   */
+  @Delete(":id/analysis/cache")
+  @HttpCode(HttpStatus.OK)
+  @DocsClearAnalysisCache()
+  async clearAnalysisCache(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.clearAnalysisCache(id, user.id);
+  }
+
+  /**
+   * GET /documents/:id/analyses
+   * Lists the analysis versions of a document, newest first
+   */
+  @Get(":id/analyses")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetAnalysisVersions()
+  async getAnalysisVersions(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getAnalysisVersions(id, user.id);
+  }
+
+  /**
+   * GET /documents/:id/analyses/diff?from=1&to=2
+   * Compares two analysis versions of a document
+   */
+  @Get(":id/analyses/diff")
+  @HttpCode(HttpStatus.OK)
+  @DocsDiffAnalysisVersions()
+  async diffAnalysisVersions(
+    @Param("id") id: string,
+    @Query() query: AnalysisDiffQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.diffAnalysisVersions(id, user.id, query);
+  }
+
+  /**
+   * POST /documents/:id/analyses/:version/pin
+   * Pins an analysis version as the document's current analysis
+   */
+  @Post(":id/analyses/:version/pin")
+  @HttpCode(HttpStatus.OK)
+  @DocsPinAnalysisVersion()
+  async pinAnalysisVersion(
+    @Param("id") id: string,
+    @Param("version") version: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.pinAnalysisVersion(id, user.id, version);
+  }
+
+  /**
+   * DELETE /documents/:id/analyses/pin
+   * Unpins the current analysis version; the latest version becomes current
+   */
+  @Delete(":id/analyses/pin")
+  @HttpCode(HttpStatus.OK)
+  @DocsUnpinAnalysisVersion()
+  async unpinAnalysisVersion(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.unpinAnalysisVersion(id, user.id);
+  }
+
+  /**
+   * GET /documents/:id/structure
+   * Returns the pages, headings, paragraphs and tables of a document
+   */
+  @Get(":id/structure")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetDocumentStructure()
+  async getDocumentStructure(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getDocumentStructure(id, user.id);
+  }
+
+  /**
+   * POST /documents/:id/ask
+   * Answers a question from the document's text, with supporting quotes
+   */
+  @Post(":id/ask")
+  @HttpCode(HttpStatus.OK)
+  @DocsAskDocument()
+  async askDocument(
+    @Param("id") id: string,
+    @Body() askDto: AskDocumentDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.askDocument(id, user.id, askDto.question);
+  }
+
+  /**
+   * GET /documents/:id/questions
+   * Returns the questions asked about the document and their answers
+   */
+  @Get(":id/questions")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetDocumentQuestions()
+  async getDocumentQuestions(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getDocumentQuestions(id, user.id);
+  }
+
+  /**
+   * DELETE /documents/:id/questions
+   * Clears the conversation history of the document
+   */
+  @Delete(":id/questions")
+  @HttpCode(HttpStatus.OK)
+  @DocsClearDocumentQuestions()
+  async clearDocumentQuestions(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.clearDocumentQuestions(id, user.id);
+  }
+
+  /**
+   * GET /documents/:id/file
+   * Streams the original uploaded file
+   */
+  @Get(":id/file")
+  @SkipWrap()
+  @DocsDownloadDocumentFile()
+  async downloadDocumentFile(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ): Promise<StreamableFile> {
+    const file = await this.documentsService.getDocumentFile(id, user.id);
+
+    return new StreamableFile(file.stream, {
+      type: file.mimetype,
+      disposition: buildContentDisposition(file.originalName),
+      length: file.size,
+    });
+  }
+
+  /**
+   * GET /documents/:id/file/url
+   * Issues a short-lived presigned download URL (MinIO storage only)
+   */
+  @Get(":id/file/url")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetDocumentFileUrl()
+  async getDocumentFileUrl(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getDocumentFileUrl(id, user.id);
+  }
+
   /**
    * GET /documents/:id
    * Retrieves a single document by ID
@@ -100,8 +449,11 @@ export class DocumentsController {
   @Get(":id")
   @HttpCode(HttpStatus.OK)
   @DocsGetDocumentById()
-  async getDocument(@Param("id") id: string) {
-    return this.documentsService.getDocument(id);
+  async getDocument(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.getDocument(id, user.id);
   }
 
   /**
@@ -111,7 +463,10 @@ export class DocumentsController {
   @Delete(":id")
   @HttpCode(HttpStatus.OK)
   @DocsDeleteDocument()
-  async deleteDocument(@Param("id") id: string) {
-    return this.documentsService.deleteDocument(id);
+  async deleteDocument(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.documentsService.deleteDocument(id, user.id);
   }
 }
@@ -2,29 +2,69 @@ import { Module } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { ConfigModule } from "@nestjs/config";
 import { Document, DocumentSchema } from "./document.schema";
+import {
+  DocumentQuestion,
+  DocumentQuestionSchema,
+} from "./document-question.schema";
+import { DocumentBatch, DocumentBatchSchema } from "./document-batch.schema";
+import {
+  DocumentAnalysis,
+  DocumentAnalysisSchema,
+} from "./document-analysis.schema";
 import { DocumentsController } from "./documents.controller";
 import { DocumentsService } from "./documents.service";
-import { DocumentModelAction } from "./model-actions";
-import { OpenrouterModule } from "../openrouter/openrouter.module";
+import {
+  DocumentModelAction,
+  DocumentQuestionModelAction,
+  DocumentBatchModelAction,
+  DocumentAnalysisModelAction,
+} from "./model-actions";
+import { LlmModule } from "../llm/llm.module";
 import { TextExtractionModule } from "../text-extraction/text-extraction.module";
 import { FileStorageModule } from "../file-storage/file-storage.module";
+import { AnalysisJobsModule } from "../analysis-jobs/analysis-jobs.module";
+import { WebhooksModule } from "../webhooks/webhooks.module";
+import { EmbeddingsModule } from "../embeddings/embeddings.module";
+import { AnalysisCacheModule } from "../analysis-cache/analysis-cache.module";
+import { UsageModule } from "../usage/usage.module";
+import { AnalysisWorker } from "./analysis.worker";
+import { EmbeddingBackfillWorker } from "./embedding-backfill.worker";
 
 /**
  * Documents module
- * Handles all document-related operations including upload, analysis, and retrieval
+ * Handles all document-related operations including upload, batch upload,
+ * analysis with its version history, and retrieval
+ * Runs the background worker that processes queued analysis jobs, and indexes
+ * documents that have no embeddings yet
  */
 @Module({
   imports: [
     ConfigModule,
     MongooseModule.forFeature([
       { name: Document.name, schema: DocumentSchema },
+      { name: DocumentQuestion.name, schema: DocumentQuestionSchema },
+      { name: DocumentBatch.name, schema: DocumentBatchSchema },
+      { name: DocumentAnalysis.name, schema: DocumentAnalysisSchema },
     ]),
-    OpenrouterModule,
+    LlmModule,
     TextExtractionModule,
     FileStorageModule,
+    AnalysisJobsModule,
+    WebhooksModule,
+    EmbeddingsModule,
+    AnalysisCacheModule,
+    UsageModule,
   ],
   controllers: [DocumentsController],
-  providers: [DocumentsService, DocumentModelAction],
+  providers: [
+    DocumentsService,
+    DocumentModelAction,
+    DocumentQuestionModelAction,
+    DocumentBatchModelAction,
+    DocumentAnalysisModelAction,
+    AnalysisWorker,
+    EmbeddingBackfillWorker,
+  ],
   exports: [DocumentsService, DocumentModelAction],
 })
 export class DocumentsModule {}
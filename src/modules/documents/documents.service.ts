@@ -1,20 +1,158 @@
 import {
+  ConflictException,
   Injectable,
+  MessageEvent,
   NotFoundException,
   InternalServerErrorException,
   Logger,
   BadRequestException,
+  PayloadTooLargeException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
 } from "@nestjs/common";
-import { isValidObjectId } from "mongoose";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import { isValidObjectId, Types } from "mongoose";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { Observable, ReplaySubject, of } from "rxjs";
 import * as sysMsg from "../../constants/system.messages";
 import type { DocumentFilterOptions } from "../../common/types";
 import { ApiResponse, PaginatedResponse } from "../../common/interfaces";
-import { DocumentModelAction } from "./model-actions";
-import { DocumentResponseDto, ListDocumentsQueryDto } from "./dtos";
-import { AnalysisStatus, DocumentDocument } from "./document.schema";
-import { OpenrouterService } from "../openrouter/openrouter.service";
+import {
+  DocumentAnalysisModelAction,
+  DocumentBatchModelAction,
+  DocumentModelAction,
+  DocumentQuestionModelAction,
+  DocumentSearchHit,
+} from "./model-actions";
+import {
+  AnalysisDiffQueryDto,
+  AnalysisDiffResponseDto,
+  AnalysisStatusResponseDto,
+  AskLibraryDto,
+  AnalysisStreamStatusEventDto,
+  BatchDocumentStatusDto,
+  DocumentAnalysisResponseDto,
+  DocumentBatchResponseDto,
+  DocumentFileUrlResponseDto,
+  DocumentQuestionResponseDto,
+  DocumentResponseDto,
+  DocumentSearchResultDto,
+  DocumentStructureResponseDto,
+  LibraryAnswerResponseDto,
+  ListDocumentsQueryDto,
+  SearchDocumentsQueryDto,
+  SearchHighlightDto,
+  SemanticSearchQueryDto,
+  SemanticSearchResultDto,
+} from "./dtos";
+import { AnalysisStatus, Document, DocumentDocument } from "./document.schema";
+import { DocumentQuestion } from "./document-question.schema";
+import {
+  AnalysisSource,
+  DocumentAnalysis,
+  DocumentAnalysisDocument,
+} from "./document-analysis.schema";
+import {
+  DocumentBatch,
+  DocumentBatchDocument,
+  IBatchFileResult,
+} from "./document-batch.schema";
+import {
+  DEFAULT_DUPLICATE_UPLOAD_POLICY,
+  DuplicateUploadPolicy,
+  MAX_BATCH_FILES,
+  MAX_UPLOAD_FILE_SIZE,
+} from "./documents.constants";
+import { LlmAnalysisService } from "../llm/llm-analysis.service";
+import { PROMPT_VERSION } from "../llm/llm.prompts";
+import {
+  IQuestionTurn,
+  ISourcePassage,
+  ITokenUsage,
+  SummaryDeltaHandler,
+  TokenUsageHandler,
+} from "../llm/interfaces";
+import { addTokenUsage, emptyTokenUsage } from "../llm/utils";
 import { TextExtractionService } from "../text-extraction/text-extraction.service";
+import { ITextExtractionResult } from "../text-extraction/interfaces";
+import { textToStructure } from "../text-extraction/utils/structure";
+import { isZipArchive } from "../text-extraction/utils/sniff-mimetype";
 import { FileStorageService } from "../file-storage/file-storage.service";
+import { AnalysisJobsService } from "../analysis-jobs/analysis-jobs.service";
+import { AnalysisJobResponseDto } from "../analysis-jobs/dtos";
+import { WebhooksService } from "../webhooks/webhooks.service";
+import { WebhookEvent } from "../webhooks/webhook.schema";
+import { EmbeddingsService } from "../embeddings/embeddings.service";
+import { AnalysisCacheService } from "../analysis-cache/analysis-cache.service";
+import { UsageService } from "../usage/usage.service";
+import { DocumentChunk } from "../embeddings/document-chunk.schema";
+import {
+  buildAnalysisText,
+  diffAnalyses,
+  highlightSnippet,
+  IZipEntry,
+  listZipEntries,
+  parseSearchTerms,
+} from "./utils";
+
+/**
+ * File to store as a document, uploaded directly or taken from a ZIP archive
+ */
+export type UploadedDocumentFile = Pick<
+  Express.Multer.File,
+  "originalname" | "mimetype" | "size" | "buffer"
+>;
+
+/**
+ * Original uploaded file of a document, ready to be streamed
+ */
+export interface IDocumentFile {
+  stream: Readable;
+  originalName: string;
+  mimetype: string;
+  size: number;
+}
+
+/**
+ * Document saved for an upload
+ * duplicate is set when the existing document with identical content is
+ * returned instead of a new one
+ */
+interface IStoredDocument {
+  document: Document & { id: string };
+  duplicate: boolean;
+}
+
+/**
+ * File of a batch upload; load resolves to its content or rejects with the
+ * reason it can't be stored
+ */
+interface IBatchEntry {
+  fileName: string;
+  archive: string | null;
+  load: () => Promise<UploadedDocumentFile>;
+}
+
+/**
+ * Result of LLM requests with the tokens they used and their estimated cost
+ */
+interface IMeteredResult<T> {
+  result: T;
+  usage: ITokenUsage;
+  cost: number | null;
+}
+
+/**
+ * Passage of a document found by semantic search
+ */
+interface IRelevantPassage {
+  chunk: DocumentChunk;
+  score: number;
+  document: DocumentResponseDto;
+}
 
 /**
  * Main service for document operations
@@ -23,103 +161,227 @@ import { FileStorageService } from "../file-storage/file-storage.service";
 @Injectable()
 export class DocumentsService {
   private readonly logger = new Logger(DocumentsService.name);
-  private readonly MAX_TEXT_LENGTH = 200000;
+  private readonly streamWorkerId = `${os.hostname()}:${process.pid}:stream`;
+  private readonly questionHistoryTurns: number;
+  private readonly questionMaxPassages: number;
+  private readonly duplicateUploadPolicy: DuplicateUploadPolicy;
 
   constructor(
     private readonly documentModelAction: DocumentModelAction,
-    private readonly openrouterService: OpenrouterService,
+    private readonly documentQuestionModelAction: DocumentQuestionModelAction,
+    private readonly documentBatchModelAction: DocumentBatchModelAction,
+    private readonly documentAnalysisModelAction: DocumentAnalysisModelAction,
+    private readonly llmAnalysisService: LlmAnalysisService,
     private readonly textExtractionService: TextExtractionService,
     private readonly fileStorageService: FileStorageService,
-  ) {}
+    private readonly analysisJobsService: AnalysisJobsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly embeddingsService: EmbeddingsService,
+    private readonly analysisCacheService: AnalysisCacheService,
+    private readonly usageService: UsageService,
+    private readonly configService: ConfigService,
+  ) {
+    this.questionHistoryTurns = Number(
+      this.configService.get<string>("QA_HISTORY_TURNS", "5"),
+    );
+    this.questionMaxPassages = Number(
+      this.configService.get<string>("QA_MAX_PASSAGES", "8"),
+    );
+
+    const duplicateUploadPolicy = this.configService.get<string>(
+      "DUPLICATE_UPLOAD_POLICY",
+      DEFAULT_DUPLICATE_UPLOAD_POLICY,
+    );
+    if (
+      !Object.values<string>(DuplicateUploadPolicy).includes(
+        duplicateUploadPolicy,
+      )
+    ) {
+      throw new Error(
+        `${sysMsg.DUPLICATE_UPLOAD_POLICY_UNKNOWN}: ${duplicateUploadPolicy}`,
+      );
+    }
+    this.duplicateUploadPolicy = duplicateUploadPolicy as DuplicateUploadPolicy;
+  }
 
   /**
    * Uploads a document, extracts text, and stores it in the database
+   * When autoAnalyze is set, the document is queued for analysis right away,
+   * unless the analysis of an identical document could be reused
    */
   async uploadDocument(
-    file: Express.Multer.File,
+    file: UploadedDocumentFile,
+    ownerId: string,
+    autoAnalyze = false,
   ): Promise<ApiResponse<DocumentResponseDto>> {
-    // Save file to MinIO storage
-    let objectKey: string;
-    try {
-      objectKey = await this.fileStorageService.saveFile(file);
-    } catch (error) {
-      this.logger.error(
-        `${sysMsg.FILE_SAVE_FAILED} for ${file.originalname}: ${error.message}`,
-      );
-      throw new InternalServerErrorException(sysMsg.DOCUMENT_UPLOAD_FAILED);
+    const { document, duplicate } = await this.storeDocument(file, ownerId);
+
+    if (duplicate) {
+      return {
+        message: sysMsg.DOCUMENT_DUPLICATE_EXISTING,
+        data: new DocumentResponseDto(document),
+      };
+    }
+    if (document.analysisStatus === AnalysisStatus.COMPLETED) {
+      return {
+        message: sysMsg.DOCUMENT_UPLOADED_ANALYSIS_REUSED,
+        data: new DocumentResponseDto(document),
+      };
     }
 
-    // Extract text from file buffer
-    let extractedText: string;
-    try {
-      extractedText = await this.textExtractionService.extractTextFromBuffer(
-        file.buffer,
-        file.mimetype,
-        file.originalname,
-      );
-    } catch (textExtractionError) {
-      await this.fileStorageService.deleteFile(objectKey);
-      this.logger.error(
-        `${sysMsg.TEXT_EXTRACTION_FAILED} for ${file.originalname}: ${textExtractionError.message}`,
-      );
-      throw new InternalServerErrorException(
-        sysMsg.DOCUMENT_UPLOAD_FAILED_TEXT_EXTRACTION,
-      );
+    if (autoAnalyze) {
+      // The upload itself succeeded, so a queueing failure is only reported in the logs
+      try {
+        await this.analysisJobsService.enqueue(document.id, ownerId);
+        return {
+          message: sysMsg.DOCUMENT_UPLOADED_ANALYSIS_QUEUED,
+          data: this.toQueuedResponse(document),
+        };
+      } catch (queueError) {
+        this.logger.error(
+          `${sysMsg.AUTO_ANALYSIS_QUEUE_FAILED} for ${document.id}: ${queueError.message}`,
+        );
+      }
     }
 
-    // Truncate text if necessary
-    if (extractedText.length > this.MAX_TEXT_LENGTH) {
-      extractedText = extractedText.substring(0, this.MAX_TEXT_LENGTH);
-      this.logger.warn(`${sysMsg.TEXT_TRUNCATED} for ${file.originalname}`);
+    return {
+      message: sysMsg.DOCUMENT_UPLOADED,
+      data: new DocumentResponseDto(document),
+    };
+  }
+
+  /**
+   * Uploads several documents under one batch
+   * ZIP archives are expanded into their files; each file is stored on its
+   * own, so one that can't be read doesn't fail the rest of the batch
+   */
+  async uploadBatch(
+    files: UploadedDocumentFile[],
+    ownerId: string,
+    autoAnalyze = false,
+  ): Promise<ApiResponse<DocumentBatchResponseDto>> {
+    if (!files?.length) {
+      throw new BadRequestException(sysMsg.BATCH_NO_FILES);
     }
 
-    // Save document to database using model action
-    try {
-      const createdDocument = await this.documentModelAction.create({
-        createPayload: {
-          originalName: file.originalname,
-          mimetype: file.mimetype,
-          size: file.size,
-          storagePath: objectKey,
-          extractedText: extractedText,
-          analysisStatus: AnalysisStatus.PENDING,
-        },
-      });
+    // Archives are listed up front so the file limit covers their entries
+    const entries: IBatchEntry[] = [];
+    for (const file of files) {
+      entries.push(...(await this.toBatchEntries(file)));
+    }
+    if (entries.length > MAX_BATCH_FILES) {
+      throw new BadRequestException(sysMsg.BATCH_TOO_MANY_FILES);
+    }
 
-      this.logger.log(`${sysMsg.DOCUMENT_UPLOADED}: ${file.originalname}`);
-      return {
-        message: sysMsg.DOCUMENT_UPLOADED,
-        data: new DocumentResponseDto(
-          (createdDocument as DocumentDocument).toObject(),
-        ),
+    const batch = (await this.documentBatchModelAction.create({
+      createPayload: { owner: new Types.ObjectId(ownerId) },
+    })) as DocumentBatchDocument;
+
+    const results: IBatchFileResult[] = [];
+    for (const entry of entries) {
+      const result: IBatchFileResult = {
+        fileName: entry.fileName,
+        archive: entry.archive,
+        success: false,
+        documentId: null,
+        error: null,
       };
-    } catch (dbError) {
-      await this.fileStorageService.deleteFile(objectKey);
-      this.logger.error(
-        `${sysMsg.DOCUMENT_UPLOAD_FAILED_DATABASE_SAVE} for ${file.originalname}: ${dbError.message}`,
-      );
-      throw new InternalServerErrorException(
-        sysMsg.DOCUMENT_UPLOAD_FAILED_DATABASE_SAVE,
-      );
+
+      try {
+        const { document, duplicate } = await this.storeDocument(
+          await entry.load(),
+          ownerId,
+          batch.id,
+        );
+        result.success = true;
+        result.documentId = document.id;
+
+        if (
+          autoAnalyze &&
+          !duplicate &&
+          document.analysisStatus !== AnalysisStatus.COMPLETED
+        ) {
+          await this.analysisJobsService
+            .enqueue(document.id, ownerId)
+            .catch((queueError) =>
+              this.logger.error(
+                `${sysMsg.AUTO_ANALYSIS_QUEUE_FAILED} for ${document.id}: ${queueError.message}`,
+              ),
+            );
+        }
+      } catch (error) {
+        result.error = error.message;
+      }
+
+      results.push(result);
     }
+
+    const succeededCount = results.filter((result) => result.success).length;
+    const updatedBatch = await this.documentBatchModelAction.update({
+      identifierOptions: { _id: batch.id },
+      updatePayload: {
+        results,
+        succeededCount,
+        failedCount: results.length - succeededCount,
+      },
+    });
+
+    this.logger.log(
+      `${sysMsg.BATCH_UPLOADED}: ${batch.id} (${succeededCount}/${results.length} files stored)`,
+    );
+    return {
+      message: sysMsg.BATCH_UPLOADED,
+      data: await this.toBatchResponse(updatedBatch),
+    };
   }
 
   /**
-   * Retrieves a document by ID
+   * Retrieves a batch with the analysis status of its documents
    */
-  async getDocument(id: string): Promise<ApiResponse<DocumentResponseDto>> {
-    if (!isValidObjectId(id)) {
-      throw new BadRequestException(sysMsg.DOCUMENT_INVALID_ID);
-    }
+  async getBatch(
+    batchId: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentBatchResponseDto>> {
+    const batch = await this.findOwnedBatch(batchId, ownerId);
 
-    const document = await this.documentModelAction.get({
-      identifierOptions: { _id: id, isDeleted: false },
-    });
+    return {
+      message: sysMsg.BATCH_FETCHED,
+      data: await this.toBatchResponse(batch),
+    };
+  }
 
-    if (!document) {
-      throw new NotFoundException(sysMsg.DOCUMENT_NOT_FOUND);
+  /**
+   * Queues the documents of a batch for analysis
+   * Documents already analyzed or queued are left alone unless forceReAnalysis is set
+   */
+  async analyzeBatch(
+    batchId: string,
+    ownerId: string,
+    forceReAnalysis = false,
+  ): Promise<ApiResponse<DocumentBatchResponseDto>> {
+    const batch = await this.findOwnedBatch(batchId, ownerId);
+    const documents = await this.findBatchDocuments(batchId);
+
+    for (const document of documents) {
+      await this.analyzeDocument(document.id, ownerId, forceReAnalysis);
     }
 
+    this.logger.log(`${sysMsg.BATCH_ANALYSIS_QUEUED}: ${batchId}`);
+    return {
+      message: sysMsg.BATCH_ANALYSIS_QUEUED,
+      data: await this.toBatchResponse(batch),
+    };
+  }
+
+  /**
+   * Retrieves a document by ID
+   */
+  async getDocument(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+
     this.logger.log(`${sysMsg.DOCUMENT_FETCHED}: ${id}`);
     return {
       message: sysMsg.DOCUMENT_FETCHED,
@@ -132,10 +394,14 @@ export class DocumentsService {
    */
   async listDocuments(
     query: ListDocumentsQueryDto,
+    ownerId: string,
   ): Promise<PaginatedResponse<DocumentResponseDto>> {
     const { page = 1, limit = 20, analysisStatus, documentType } = query;
 
-    const filterOptions: DocumentFilterOptions = { isDeleted: false };
+    const filterOptions: DocumentFilterOptions = {
+      owner: ownerId,
+      isDeleted: false,
+    };
     if (analysisStatus) {
       filterOptions.analysisStatus = analysisStatus;
     }
@@ -157,23 +423,211 @@ export class DocumentsService {
   }
 
   /**
-   * Analyzes a document using OpenRouter LLM
+   * Searches documents by text with relevance sorting and highlighted snippets
+   * Supports the list filters plus date ranges on upload and extracted dates
    */
-  async analyzeDocument(
-    id: string,
-    forceReAnalysis = false,
-  ): Promise<ApiResponse<DocumentResponseDto>> {
-    if (!isValidObjectId(id)) {
-      throw new BadRequestException(sysMsg.DOCUMENT_INVALID_ID);
+  async searchDocuments(
+    query: SearchDocumentsQueryDto,
+    ownerId: string,
+  ): Promise<PaginatedResponse<DocumentSearchResultDto>> {
+    const { q, page = 1, limit = 20, analysisStatus, documentType } = query;
+
+    const filterOptions: DocumentFilterOptions = {
+      owner: ownerId,
+      isDeleted: false,
+    };
+    if (analysisStatus) {
+      filterOptions.analysisStatus = analysisStatus;
+    }
+    if (documentType) {
+      filterOptions.documentType = documentType;
     }
 
-    const document = await this.documentModelAction.get({
-      identifierOptions: { _id: id, isDeleted: false },
+    const createdAt = this.buildDateRange(query.createdFrom, query.createdTo);
+    if (createdAt) {
+      filterOptions.createdAt = {
+        ...(createdAt.from && { $gte: createdAt.from }),
+        ...(createdAt.to && { $lte: createdAt.to }),
+      };
+    }
+
+    // Extracted dates are stored as YYYY-MM-DD strings, which sort chronologically
+    const extractedDate = this.buildDateRange(query.dateFrom, query.dateTo);
+    if (extractedDate) {
+      filterOptions["extractedMetadata.date"] = {
+        ...(extractedDate.from && {
+          $gte: extractedDate.from.toISOString().substring(0, 10),
+        }),
+        ...(extractedDate.to && {
+          $lte: extractedDate.to.toISOString().substring(0, 10),
+        }),
+      };
+    }
+
+    const { payload, paginationMeta } = await this.documentModelAction.search({
+      search: q,
+      filterRecordOptions: filterOptions,
+      paginationPayload: { page, limit },
     });
 
-    if (!document) {
-      throw new NotFoundException(sysMsg.DOCUMENT_NOT_FOUND);
+    const terms = parseSearchTerms(q);
+    return {
+      message: sysMsg.DOCUMENTS_SEARCHED,
+      data: payload.map(
+        (hit) =>
+          new DocumentSearchResultDto(
+            hit,
+            hit.score,
+            this.buildHighlights(hit, terms),
+          ),
+      ),
+      pagination: paginationMeta,
+    };
+  }
+
+  /**
+   * Finds the passages closest in meaning to a query, each with its document
+   * Unlike the keyword search, paraphrases of the query match too
+   */
+  async semanticSearch(
+    query: SemanticSearchQueryDto,
+    ownerId: string,
+  ): Promise<ApiResponse<SemanticSearchResultDto[]>> {
+    const { q, limit = 10, minScore } = query;
+    const passages = await this.findRelevantPassages(
+      ownerId,
+      q,
+      limit,
+      minScore,
+    );
+
+    return {
+      message: sysMsg.DOCUMENTS_SEMANTIC_SEARCHED,
+      data: passages.map(
+        ({ chunk, score, document }) =>
+          new SemanticSearchResultDto({
+            score,
+            chunk: { index: chunk.index, text: chunk.text, page: chunk.page },
+            document,
+          }),
+      ),
+    };
+  }
+
+  /**
+   * Answers a question across all of the user's documents (retrieval-augmented)
+   * The passages closest in meaning to the question are given to the model,
+   * and the answer cites the documents its quotes come from
+   */
+  async askLibrary(
+    ownerId: string,
+    askDto: AskLibraryDto,
+  ): Promise<ApiResponse<LibraryAnswerResponseDto>> {
+    const { question, documentType } = askDto;
+
+    let documentIds: string[] | undefined;
+    if (documentType) {
+      const { payload } = await this.documentModelAction.find({
+        findOptions: { owner: ownerId, isDeleted: false, documentType },
+        select: "_id",
+      });
+      documentIds = (payload as DocumentDocument[]).map((doc) => doc.id);
+    }
+
+    const passages = await this.findRelevantPassages(
+      ownerId,
+      question,
+      this.questionMaxPassages,
+      undefined,
+      documentIds,
+    );
+    const sources: ISourcePassage[] = passages.map(
+      ({ chunk, document }, index) => ({
+        source: index + 1,
+        title: document.originalName,
+        page: chunk.page,
+        text: chunk.text,
+      }),
+    );
+
+    const { result } = await this.meterUsage(ownerId, (onUsage) =>
+      this.llmAnalysisService.answerFromSources(sources, question, onUsage),
+    );
+
+    return {
+      message: sysMsg.LIBRARY_QUESTION_ANSWERED,
+      data: new LibraryAnswerResponseDto({
+        question,
+        answer: result.answer,
+        answerable: result.answerable,
+        citations: result.citations.map(({ source, text, page }) => {
+          const { document } = passages[source - 1];
+          return {
+            documentId: document.id.toString(),
+            originalName: document.originalName,
+            text,
+            page,
+          };
+        }),
+      }),
+    };
+  }
+
+  /**
+   * Indexes a document's passages for semantic search and records the embedding model
+   * Failures are only logged: the document stays searchable by keywords and
+   * the embedding backfill retries it on the next start
+   */
+  async indexEmbeddings(
+    documentId: string,
+    document: Document,
+  ): Promise<boolean> {
+    try {
+      await this.embeddingsService.indexDocument(
+        documentId,
+        document.owner.toString(),
+        buildAnalysisText(document),
+      );
+      await this.documentModelAction.update({
+        identifierOptions: { _id: documentId },
+        updatePayload: { embeddingModel: this.embeddingsService.getModelId() },
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.DOCUMENT_EMBEDDINGS_FAILED} for ${documentId}: ${error.message}`,
+      );
+      return false;
     }
+  }
+
+  /**
+   * Returns documents not yet indexed with the configured embedding model, oldest first
+   */
+  async findDocumentsWithoutEmbeddings(
+    limit: number,
+  ): Promise<DocumentDocument[]> {
+    const { payload } = await this.documentModelAction.list({
+      filterRecordOptions: {
+        isDeleted: false,
+        embeddingModel: { $ne: this.embeddingsService.getModelId() },
+      },
+      sort: { createdAt: 1 },
+      paginationPayload: { page: 1, limit },
+    });
+    return payload as DocumentDocument[];
+  }
+
+  /**
+   * Queues a document for background analysis
+   * The analysis itself is performed by AnalysisWorker via runAnalysis
+   */
+  async analyzeDocument(
+    id: string,
+    ownerId: string,
+    forceReAnalysis = false,
+  ): Promise<ApiResponse<DocumentResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
 
     // Check if already completed
     if (
@@ -187,72 +641,1241 @@ export class DocumentsService {
       };
     }
 
-    // Update status to ANALYZING
-    await this.documentModelAction.update({
-      identifierOptions: { _id: id },
-      updatePayload: { analysisStatus: AnalysisStatus.ANALYZING },
-    });
+    // Don't queue a second job while one is pending or running
+    const activeJob = await this.analysisJobsService.findActiveJob(id);
+    if (activeJob) {
+      this.logger.log(`${sysMsg.ANALYSIS_IN_PROGRESS}: ${id}`);
+      return {
+        message: sysMsg.ANALYSIS_IN_PROGRESS,
+        data: this.toQueuedResponse(document),
+      };
+    }
 
-    // Perform LLM analysis
-    let analysisResult;
+    // Mark the document pending before queueing, so a worker that claims the
+    // job straight away can't have its ANALYZING status overwritten
+    let updatedDocument: Document;
     try {
-      analysisResult = await this.openrouterService.analyzeDocument(
-        document.extractedText,
-      );
-    } catch (llmError) {
-      await this.documentModelAction.update({
-        identifierOptions: { _id: id },
-        updatePayload: { analysisStatus: AnalysisStatus.FAILED },
+      updatedDocument = await this.documentModelAction.update({
+        identifierOptions: {
+          _id: id,
+          owner: ownerId,
+          analysisStatus: { $ne: AnalysisStatus.ANALYZING },
+        },
+        updatePayload: { analysisStatus: AnalysisStatus.PENDING },
       });
-      this.logger.error(
-        `${sysMsg.ANALYSIS_FAILED} for ${id}: ${llmError.message}`,
-      );
-      throw llmError;
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) throw error;
+
+      this.logger.log(`${sysMsg.ANALYSIS_IN_PROGRESS}: ${id}`);
+      return {
+        message: sysMsg.ANALYSIS_IN_PROGRESS,
+        data: this.toQueuedResponse(document),
+      };
     }
 
-    // Update document with analysis results
-    const updatedDocument = await this.documentModelAction.update({
-      identifierOptions: { _id: id },
-      updatePayload: {
-        summary: analysisResult.summary,
-        documentType: analysisResult.documentType,
-        extractedMetadata: analysisResult.extractedMetadata,
-        analysisStatus: AnalysisStatus.COMPLETED,
-      },
-    });
+    // Null when a concurrent request queued a job first
+    const job = await this.analysisJobsService.enqueue(id, ownerId);
+    if (!job) {
+      this.logger.log(`${sysMsg.ANALYSIS_IN_PROGRESS}: ${id}`);
+      return {
+        message: sysMsg.ANALYSIS_IN_PROGRESS,
+        data: this.toQueuedResponse(updatedDocument),
+      };
+    }
 
-    this.logger.log(`${sysMsg.ANALYSIS_COMPLETED}: ${id}`);
     return {
-      message: sysMsg.ANALYSIS_COMPLETED,
-      data: new DocumentResponseDto(updatedDocument),
+      message: sysMsg.ANALYSIS_QUEUED,
+      data: this.toQueuedResponse(updatedDocument),
     };
   }
 
   /**
-   * Soft deletes a document
+   * Analyzes a document right away, streaming its progress as server-sent events
+   * "status" events report ANALYZING, then COMPLETED (with the document) or
+   * FAILED; "summary" events carry the summary while the model writes it.
+   * The analysis runs to completion even if the client disconnects
    */
-  async deleteDocument(id: string): Promise<ApiResponse<null>> {
-    if (!isValidObjectId(id)) {
-      throw new BadRequestException(sysMsg.DOCUMENT_INVALID_ID);
+  async streamAnalysis(
+    id: string,
+    ownerId: string,
+    forceReAnalysis = false,
+  ): Promise<Observable<MessageEvent>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+
+    if (
+      document.analysisStatus === AnalysisStatus.COMPLETED &&
+      !forceReAnalysis
+    ) {
+      return of(this.toStatusEvent(id, AnalysisStatus.COMPLETED, document));
     }
 
-    const document = await this.documentModelAction.get({
-      identifierOptions: { _id: id, isDeleted: false },
-    });
+    // The stream holds a running job, so a queued job, another stream or
+    // orphan recovery on another instance can't analyze the document meanwhile
+    const job = await this.analysisJobsService.startRunning(
+      id,
+      ownerId,
+      this.streamWorkerId,
+    );
+    if (!job) {
+      throw new ConflictException(sysMsg.ANALYSIS_IN_PROGRESS);
+    }
 
-    if (!document) {
-      throw new NotFoundException(sysMsg.DOCUMENT_NOT_FOUND);
+    const stopHeartbeat = this.analysisJobsService.keepLeaseAlive(job);
+    try {
+      await this.setAnalysisStatus(id, AnalysisStatus.ANALYZING);
+    } catch (error) {
+      stopHeartbeat();
+      await this.analysisJobsService.markFailed(job, error.message);
+      throw error;
     }
 
-    await this.documentModelAction.update({
-      identifierOptions: { _id: id },
-      updatePayload: {
-        isDeleted: true,
-        deletedAt: new Date(),
-      },
-    });
+    // Replays events emitted before the response subscribes
+    const events = new ReplaySubject<MessageEvent>();
+    events.next(this.toStatusEvent(id, AnalysisStatus.ANALYZING));
 
-    this.logger.log(`${sysMsg.DOCUMENT_DELETED}: ${id}`);
-    return { message: sysMsg.DOCUMENT_DELETED, data: null };
+    this.performAnalysis(id, document, (delta) =>
+      events.next({ type: "summary", data: { delta } }),
+    )
+      .then(async (analyzedDocument) => {
+        stopHeartbeat();
+        await this.analysisJobsService
+          .markCompleted(job)
+          .catch((jobError) =>
+            this.logger.error(
+              `${sysMsg.DB_UPDATE_FAILED}: ${jobError.message}`,
+            ),
+          );
+        events.next(
+          this.toStatusEvent(id, AnalysisStatus.COMPLETED, analyzedDocument),
+        );
+      })
+      .catch(async (error) => {
+        stopHeartbeat();
+        await Promise.all([
+          this.analysisJobsService.markFailed(job, error.message),
+          this.markAnalysisFailed(id, error.message),
+        ]).catch((statusError) =>
+          this.logger.error(
+            `${sysMsg.DB_UPDATE_FAILED}: ${statusError.message}`,
+          ),
+        );
+        events.next(
+          this.toStatusEvent(id, AnalysisStatus.FAILED, null, error.message),
+        );
+      })
+      .finally(() => events.complete());
+
+    return events.asObservable();
+  }
+
+  /**
+   * Returns the analysis status of a document along with its latest job
+   */
+  async getAnalysisStatus(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<AnalysisStatusResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const job = await this.analysisJobsService.findLatestJob(id);
+
+    return {
+      message: sysMsg.ANALYSIS_STATUS_FETCHED,
+      data: new AnalysisStatusResponseDto({
+        documentId: id,
+        analysisStatus: document.analysisStatus,
+        job: job ? new AnalysisJobResponseDto(job) : null,
+      }),
+    };
+  }
+
+  /**
+   * Returns the pages, headings, paragraphs and tables extracted from a document
+   * Documents uploaded before structures were recorded get paragraphs derived from their text
+   */
+  async getDocumentStructure(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentStructureResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const structure =
+      document.structure ?? textToStructure(document.extractedText);
+
+    return {
+      message: sysMsg.DOCUMENT_STRUCTURE_FETCHED,
+      data: new DocumentStructureResponseDto({
+        documentId: id,
+        pageCount: structure.pageCount,
+        blocks: structure.blocks,
+      }),
+    };
+  }
+
+  /**
+   * Answers a question from a document's text and adds it to the document's conversation
+   * The latest questions are sent along so follow-ups can refer to earlier answers
+   */
+  async askDocument(
+    id: string,
+    ownerId: string,
+    question: string,
+  ): Promise<ApiResponse<DocumentQuestionResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const history = await this.findRecentQuestions(id);
+
+    const { result: answer } = await this.meterUsage(ownerId, (onUsage) =>
+      this.llmAnalysisService.answerQuestion(
+        buildAnalysisText(document),
+        question,
+        history,
+        onUsage,
+      ),
+    );
+
+    const documentQuestion = await this.documentQuestionModelAction.create({
+      createPayload: {
+        document: new Types.ObjectId(id),
+        owner: new Types.ObjectId(ownerId),
+        question,
+        answer: answer.answer,
+        answerable: answer.answerable,
+        quotes: answer.quotes,
+      },
+    });
+
+    return {
+      message: sysMsg.DOCUMENT_QUESTION_ANSWERED,
+      data: new DocumentQuestionResponseDto(documentQuestion),
+    };
+  }
+
+  /**
+   * Returns the conversation history of a document, oldest question first
+   */
+  async getDocumentQuestions(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentQuestionResponseDto[]>> {
+    await this.findOwnedDocument(id, ownerId);
+
+    const { payload } = await this.documentQuestionModelAction.find({
+      findOptions: { document: id },
+      sort: { createdAt: 1 },
+    });
+
+    return {
+      message: sysMsg.DOCUMENT_QUESTIONS_FETCHED,
+      data: payload.map(
+        (documentQuestion) => new DocumentQuestionResponseDto(documentQuestion),
+      ),
+    };
+  }
+
+  /**
+   * Deletes the conversation history of a document, so the next question starts afresh
+   */
+  async clearDocumentQuestions(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<null>> {
+    await this.findOwnedDocument(id, ownerId);
+    await this.documentQuestionModelAction.deleteByDocument(id);
+
+    return { message: sysMsg.DOCUMENT_QUESTIONS_CLEARED, data: null };
+  }
+
+  /**
+   * Removes the cached analyses of a document's text, so its next analysis
+   * is sent to the LLM again
+   */
+  async clearAnalysisCache(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<null>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    await this.analysisCacheService.invalidate(buildAnalysisText(document));
+
+    return { message: sysMsg.ANALYSIS_CACHE_CLEARED, data: null };
+  }
+
+  /**
+   * Lists the analysis versions of a document, newest first
+   */
+  async getAnalysisVersions(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentAnalysisResponseDto[]>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const { payload } = await this.documentAnalysisModelAction.find({
+      findOptions: { document: id },
+      sort: { version: -1 },
+    });
+
+    const currentId = document.currentAnalysis?.toString();
+    return {
+      message: sysMsg.ANALYSIS_VERSIONS_FETCHED,
+      data: payload.map(
+        (analysis: DocumentAnalysisDocument) =>
+          new DocumentAnalysisResponseDto(analysis, analysis.id === currentId),
+      ),
+    };
+  }
+
+  /**
+   * Compares two analysis versions of a document
+   */
+  async diffAnalysisVersions(
+    id: string,
+    ownerId: string,
+    query: AnalysisDiffQueryDto,
+  ): Promise<ApiResponse<AnalysisDiffResponseDto>> {
+    await this.findOwnedDocument(id, ownerId);
+    const from = await this.findAnalysisVersion(id, query.from);
+    const to = await this.findAnalysisVersion(id, query.to);
+
+    return {
+      message: sysMsg.ANALYSIS_DIFF_COMPUTED,
+      data: new AnalysisDiffResponseDto(
+        query.from,
+        query.to,
+        diffAnalyses(from, to),
+      ),
+    };
+  }
+
+  /**
+   * Makes an analysis version current and keeps it current when the document
+   * is analyzed again
+   */
+  async pinAnalysisVersion(
+    id: string,
+    ownerId: string,
+    version: string,
+  ): Promise<ApiResponse<DocumentResponseDto>> {
+    await this.findOwnedDocument(id, ownerId);
+    const analysis = await this.findAnalysisVersion(id, Number(version));
+
+    const document = await this.documentModelAction.update({
+      identifierOptions: { _id: id, owner: ownerId },
+      updatePayload: {
+        ...this.toCurrentAnalysis(analysis),
+        analysisPinned: true,
+      },
+    });
+
+    return {
+      message: sysMsg.ANALYSIS_VERSION_PINNED,
+      data: new DocumentResponseDto(document),
+    };
+  }
+
+  /**
+   * Unpins the current analysis version and makes the latest version current
+   */
+  async unpinAnalysisVersion(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentResponseDto>> {
+    await this.findOwnedDocument(id, ownerId);
+    const latest = await this.documentAnalysisModelAction.findLatest(id);
+
+    const document = await this.documentModelAction.update({
+      identifierOptions: { _id: id, owner: ownerId },
+      updatePayload: {
+        ...(latest ? this.toCurrentAnalysis(latest) : {}),
+        analysisPinned: false,
+      },
+    });
+
+    return {
+      message: sysMsg.ANALYSIS_VERSION_UNPINNED,
+      data: new DocumentResponseDto(document),
+    };
+  }
+
+  /**
+   * Analyzes a document using the configured LLM provider and stores the results
+   * Called by AnalysisWorker for claimed jobs; errors propagate so the job can be retried
+   */
+  async runAnalysis(documentId: string): Promise<void> {
+    const document = await this.documentModelAction.get({
+      identifierOptions: { _id: documentId, isDeleted: false },
+    });
+
+    if (!document) {
+      this.logger.warn(`${sysMsg.DOCUMENT_NOT_FOUND}: ${documentId}`);
+      return;
+    }
+
+    // Update status to ANALYZING
+    await this.setAnalysisStatus(documentId, AnalysisStatus.ANALYZING);
+
+    await this.performAnalysis(documentId, document);
+  }
+
+  /**
+   * Runs the LLM analysis of a document and records it as a new version
+   * A cached analysis of the same text, prompt version and model is reused.
+   * The new version becomes current unless another version is pinned
+   */
+  private async performAnalysis(
+    documentId: string,
+    document: Document,
+    onSummaryDelta?: SummaryDeltaHandler,
+  ): Promise<Document> {
+    const analysisText = buildAnalysisText(document);
+    const modelId = this.llmAnalysisService.getModelId();
+    const startedAt = new Date();
+    let usage = emptyTokenUsage();
+    let cost: number | null = 0;
+
+    let source = AnalysisSource.CACHE;
+    let analysisResult = await this.analysisCacheService.get(
+      analysisText,
+      modelId,
+    );
+    if (analysisResult) {
+      this.logger.log(`${sysMsg.ANALYSIS_CACHE_HIT}: ${documentId}`);
+      onSummaryDelta?.(analysisResult.summary);
+    } else {
+      // Perform LLM analysis
+      source = AnalysisSource.LLM;
+      try {
+        ({
+          result: analysisResult,
+          usage,
+          cost,
+        } = await this.meterUsage(document.owner, (onUsage) =>
+          this.llmAnalysisService.analyzeDocument(
+            analysisText,
+            onSummaryDelta,
+            onUsage,
+          ),
+        ));
+      } catch (llmError) {
+        this.logger.error(
+          `${sysMsg.ANALYSIS_FAILED} for ${documentId}: ${llmError.message}`,
+        );
+        throw llmError;
+      }
+      await this.analysisCacheService.set(
+        analysisText,
+        modelId,
+        analysisResult,
+      );
+    }
+
+    await this.importLegacyAnalysis(documentId, document);
+    const analysis = await this.documentAnalysisModelAction.createVersion({
+      document: new Types.ObjectId(documentId),
+      owner: document.owner,
+      source,
+      model: modelId,
+      promptVersion: PROMPT_VERSION,
+      summary: analysisResult.summary,
+      documentType: analysisResult.documentType,
+      extractedMetadata: analysisResult.extractedMetadata,
+      validationIssues: analysisResult.validationIssues,
+      usage,
+      cost,
+      startedAt,
+      completedAt: new Date(),
+    });
+
+    if (document.analysisPinned) {
+      this.logger.log(
+        `${sysMsg.ANALYSIS_VERSION_KEPT_PINNED}: ${documentId} v${analysis.version}`,
+      );
+    }
+
+    // Update document with analysis results, unless a pinned version stays current
+    const analyzedDocument = await this.documentModelAction.update({
+      identifierOptions: { _id: documentId },
+      updatePayload: {
+        ...(document.analysisPinned ? {} : this.toCurrentAnalysis(analysis)),
+        analysisStatus: AnalysisStatus.COMPLETED,
+      },
+    });
+
+    this.logger.log(`${sysMsg.ANALYSIS_COMPLETED}: ${documentId}`);
+    await this.notifyWebhooks(
+      WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED,
+      analyzedDocument,
+    );
+    return analyzedDocument;
+  }
+
+  /**
+   * Sets the analysis status of a document
+   */
+  async setAnalysisStatus(
+    documentId: string,
+    analysisStatus: AnalysisStatus,
+  ): Promise<void> {
+    await this.documentModelAction.update({
+      identifierOptions: { _id: documentId },
+      updatePayload: { analysisStatus },
+    });
+  }
+
+  /**
+   * Marks the analysis of a document as failed for good and notifies webhooks
+   */
+  async markAnalysisFailed(
+    documentId: string,
+    errorMessage: string,
+  ): Promise<void> {
+    const document = await this.documentModelAction.update({
+      identifierOptions: { _id: documentId },
+      updatePayload: { analysisStatus: AnalysisStatus.FAILED },
+    });
+
+    await this.notifyWebhooks(
+      WebhookEvent.DOCUMENT_ANALYSIS_FAILED,
+      document,
+      errorMessage,
+    );
+  }
+
+  /**
+   * Requeues documents left in ANALYZING without a queued or running job,
+   * e.g. after the process died mid-analysis
+   */
+  async recoverOrphanedAnalyses(): Promise<number> {
+    const { payload } = await this.documentModelAction.find({
+      findOptions: {
+        analysisStatus: AnalysisStatus.ANALYZING,
+        isDeleted: false,
+      },
+      select: ["_id", "owner"],
+    });
+
+    let recovered = 0;
+    for (const document of payload as DocumentDocument[]) {
+      const activeJob = await this.analysisJobsService.findActiveJob(
+        document.id,
+      );
+      if (activeJob) continue;
+
+      await this.setAnalysisStatus(document.id, AnalysisStatus.PENDING);
+      const job = await this.analysisJobsService.enqueue(
+        document.id,
+        document.owner.toString(),
+      );
+      if (job) recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.warn(`${sysMsg.ANALYSIS_ORPHANS_RECOVERED}: ${recovered}`);
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Opens the original uploaded file of a document for streaming
+   */
+  async getDocumentFile(id: string, ownerId: string): Promise<IDocumentFile> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const stream = await this.fileStorageService.getFileStream(
+      document.storagePath,
+    );
+
+    return {
+      stream,
+      originalName: document.originalName,
+      mimetype: document.mimetype,
+      size: document.size,
+    };
+  }
+
+  /**
+   * Issues a short-lived presigned URL for the original uploaded file
+   * Only available when the storage driver supports it (MinIO)
+   */
+  async getDocumentFileUrl(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<DocumentFileUrlResponseDto>> {
+    const document = await this.findOwnedDocument(id, ownerId);
+    const { url, expiresAt } = await this.fileStorageService.getPresignedUrl(
+      document.storagePath,
+      document.originalName,
+      document.mimetype,
+    );
+
+    return {
+      message: sysMsg.DOCUMENT_FILE_URL_CREATED,
+      data: new DocumentFileUrlResponseDto({ url, expiresAt }),
+    };
+  }
+
+  /**
+   * Soft deletes a document
+   */
+  async deleteDocument(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<null>> {
+    await this.findOwnedDocument(id, ownerId);
+
+    const deletedDocument = await this.documentModelAction.update({
+      identifierOptions: { _id: id, owner: ownerId },
+      updatePayload: {
+        isDeleted: true,
+        deletedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`${sysMsg.DOCUMENT_DELETED}: ${id}`);
+    try {
+      await this.embeddingsService.deleteDocument(id);
+    } catch (error) {
+      // Semantic search skips chunks of deleted documents anyway
+      this.logger.error(`${sysMsg.DB_DELETE_FAILED}: ${error.message}`);
+    }
+    await this.notifyWebhooks(WebhookEvent.DOCUMENT_DELETED, deletedDocument);
+    return { message: sysMsg.DOCUMENT_DELETED, data: null };
+  }
+
+  /**
+   * Stores a file, extracts its text and saves it as a document
+   * Identical files the owner uploaded before are handled by the duplicate
+   * upload policy; a completed analysis of an identical file is reused.
+   * Indexes the document for semantic search and notifies webhooks
+   */
+  private async storeDocument(
+    file: UploadedDocumentFile,
+    ownerId: string,
+    batchId?: string,
+  ): Promise<IStoredDocument> {
+    const contentHash = createHash("sha256").update(file.buffer).digest("hex");
+    const duplicates = await this.findDuplicates(ownerId, contentHash);
+    const original = duplicates[0];
+
+    if (original) {
+      if (this.duplicateUploadPolicy === DuplicateUploadPolicy.REJECT) {
+        throw new ConflictException(
+          `${sysMsg.DOCUMENT_DUPLICATE} ${original.id}.`,
+        );
+      }
+      if (
+        this.duplicateUploadPolicy === DuplicateUploadPolicy.RETURN_EXISTING
+      ) {
+        this.logger.log(
+          `${sysMsg.DOCUMENT_DUPLICATE_EXISTING} ${file.originalname}: ${original.id}`,
+        );
+        return { document: original, duplicate: true };
+      }
+    }
+
+    let objectKey: string;
+    let extraction: ITextExtractionResult;
+    if (original) {
+      // Linked uploads share the stored file and its extracted text
+      objectKey = original.storagePath;
+      extraction = {
+        text: original.extractedText,
+        mimetype: original.mimetype,
+        ocr: original.ocr ?? null,
+        structure:
+          original.structure ?? textToStructure(original.extractedText),
+        tables: original.tables,
+      };
+      this.logger.log(
+        `${sysMsg.DOCUMENT_DUPLICATE_LINKED} ${original.id}: ${file.originalname}`,
+      );
+    } else {
+      objectKey = await this.saveUploadedFile(file);
+      extraction = await this.extractUploadedText(file, objectKey);
+    }
+
+    // Identical content yields an identical analysis, so there's no need to pay for another
+    const analyzed = duplicates.find(
+      (duplicate) => duplicate.analysisStatus === AnalysisStatus.COMPLETED,
+    );
+    const analysis = analyzed
+      ? {
+          summary: analyzed.summary,
+          documentType: analyzed.documentType,
+          extractedMetadata: analyzed.extractedMetadata,
+          validationIssues: analyzed.validationIssues,
+          analysisStatus: AnalysisStatus.COMPLETED,
+        }
+      : { analysisStatus: AnalysisStatus.PENDING };
+
+    // Save document to database using model action
+    let createdDocument: Document;
+    try {
+      createdDocument = await this.documentModelAction.create({
+        createPayload: {
+          owner: new Types.ObjectId(ownerId),
+          originalName: file.originalname,
+          mimetype: extraction.mimetype,
+          size: file.size,
+          storagePath: objectKey,
+          contentHash,
+          extractedText: extraction.text,
+          ocr: extraction.ocr,
+          structure: extraction.structure,
+          tables: extraction.tables,
+          batch: batchId ? new Types.ObjectId(batchId) : null,
+          ...analysis,
+        },
+      });
+    } catch (dbError) {
+      // A linked file still belongs to the original document
+      if (!original) {
+        await this.fileStorageService.deleteFile(objectKey);
+      }
+      this.logger.error(
+        `${sysMsg.DOCUMENT_UPLOAD_FAILED_DATABASE_SAVE} for ${file.originalname}: ${dbError.message}`,
+      );
+      throw new InternalServerErrorException(
+        sysMsg.DOCUMENT_UPLOAD_FAILED_DATABASE_SAVE,
+      );
+    }
+
+    this.logger.log(`${sysMsg.DOCUMENT_UPLOADED}: ${file.originalname}`);
+    let document = (createdDocument as DocumentDocument).toObject();
+    if (analyzed) {
+      document = await this.recordReusedAnalysis(document, analyzed);
+    }
+    await this.indexEmbeddings(document.id, document);
+    await this.notifyWebhooks(WebhookEvent.DOCUMENT_UPLOADED, document);
+
+    if (analyzed) {
+      this.logger.log(
+        `${sysMsg.ANALYSIS_REUSED} ${analyzed.id}: ${document.id}`,
+      );
+      await this.notifyWebhooks(
+        WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED,
+        document,
+      );
+    }
+
+    return { document, duplicate: false };
+  }
+
+  /**
+   * Saves an uploaded file to storage and returns its object key
+   */
+  private async saveUploadedFile(file: UploadedDocumentFile): Promise<string> {
+    try {
+      return await this.fileStorageService.saveFile(file);
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.FILE_SAVE_FAILED} for ${file.originalname}: ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.DOCUMENT_UPLOAD_FAILED);
+    }
+  }
+
+  /**
+   * Extracts the text of an uploaded file, deleting the stored file on failure
+   */
+  private async extractUploadedText(
+    file: UploadedDocumentFile,
+    objectKey: string,
+  ): Promise<ITextExtractionResult> {
+    try {
+      return await this.textExtractionService.extractTextFromBuffer(
+        file.buffer,
+        file.mimetype,
+        file.originalname,
+      );
+    } catch (textExtractionError) {
+      await this.fileStorageService.deleteFile(objectKey);
+      this.logger.error(
+        `${sysMsg.TEXT_EXTRACTION_FAILED} for ${file.originalname}: ${textExtractionError.message}`,
+      );
+      // Unsupported files and files without any text are the client's problem, not a server failure
+      if (
+        textExtractionError instanceof UnsupportedMediaTypeException ||
+        textExtractionError instanceof UnprocessableEntityException
+      ) {
+        throw textExtractionError;
+      }
+      throw new InternalServerErrorException(
+        sysMsg.DOCUMENT_UPLOAD_FAILED_TEXT_EXTRACTION,
+      );
+    }
+  }
+
+  /**
+   * Finds the owner's documents with identical content, oldest first
+   */
+  private async findDuplicates(
+    ownerId: string,
+    contentHash: string,
+  ): Promise<(Document & { id: string })[]> {
+    const { payload } = await this.documentModelAction.find({
+      findOptions: { owner: ownerId, contentHash, isDeleted: false },
+      sort: { createdAt: 1 },
+    });
+
+    return (payload as DocumentDocument[]).map((document) =>
+      document.toObject(),
+    );
+  }
+
+  /**
+   * Turns an uploaded file into the files of a batch
+   * A ZIP archive yields one entry per file it contains; an archive that
+   * can't be read becomes a single failing entry
+   */
+  private async toBatchEntries(
+    file: UploadedDocumentFile,
+  ): Promise<IBatchEntry[]> {
+    if (!isZipArchive(file.buffer)) {
+      return [
+        {
+          fileName: file.originalname,
+          archive: null,
+          load: async () => {
+            if (file.size > MAX_UPLOAD_FILE_SIZE) {
+              throw new PayloadTooLargeException(sysMsg.FILE_TOO_LARGE);
+            }
+            return file;
+          },
+        },
+      ];
+    }
+
+    let zipEntries: IZipEntry[];
+    try {
+      zipEntries = await listZipEntries(file.buffer);
+    } catch (error) {
+      this.logger.warn(
+        `${sysMsg.ARCHIVE_INVALID} ${file.originalname}: ${error.message}`,
+      );
+      return [
+        this.toFailedBatchEntry(file.originalname, sysMsg.ARCHIVE_INVALID),
+      ];
+    }
+    if (!zipEntries.length) {
+      return [this.toFailedBatchEntry(file.originalname, sysMsg.ARCHIVE_EMPTY)];
+    }
+
+    return zipEntries.map((zipEntry) => ({
+      fileName: zipEntry.path,
+      archive: file.originalname,
+      load: async () => {
+        const buffer = await zipEntry.read(MAX_UPLOAD_FILE_SIZE).catch(() => {
+          throw new BadRequestException(sysMsg.ARCHIVE_INVALID);
+        });
+        if (!buffer) {
+          throw new PayloadTooLargeException(sysMsg.FILE_TOO_LARGE);
+        }
+        return {
+          originalname: path.posix.basename(zipEntry.path),
+          // The actual type is detected from the content during extraction
+          mimetype: "application/octet-stream",
+          size: buffer.length,
+          buffer,
+        };
+      },
+    }));
+  }
+
+  private toFailedBatchEntry(fileName: string, error: string): IBatchEntry {
+    return {
+      fileName,
+      archive: null,
+      load: () => Promise.reject(new BadRequestException(error)),
+    };
+  }
+
+  private async findOwnedBatch(
+    batchId: string,
+    ownerId: string,
+  ): Promise<DocumentBatch> {
+    if (!isValidObjectId(batchId)) {
+      throw new BadRequestException(sysMsg.BATCH_INVALID_ID);
+    }
+
+    const batch = await this.documentBatchModelAction.get({
+      identifierOptions: { _id: batchId, owner: ownerId },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(sysMsg.BATCH_NOT_FOUND);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Lists the documents of a batch that have not been deleted, in upload order
+   */
+  private async findBatchDocuments(
+    batchId: string,
+  ): Promise<BatchDocumentStatusDto[]> {
+    const { payload } = await this.documentModelAction.find({
+      findOptions: { batch: batchId, isDeleted: false },
+      select: "originalName analysisStatus",
+      sort: { createdAt: 1 },
+    });
+
+    return (payload as DocumentDocument[]).map((document) => ({
+      id: document.id,
+      originalName: document.originalName,
+      analysisStatus: document.analysisStatus,
+    }));
+  }
+
+  private async toBatchResponse(
+    batch: DocumentBatch,
+  ): Promise<DocumentBatchResponseDto> {
+    const batchId = (batch as DocumentBatchDocument).id;
+    return new DocumentBatchResponseDto(
+      batch as DocumentBatchDocument,
+      await this.findBatchDocuments(batchId),
+    );
+  }
+
+  /**
+   * Runs LLM requests for a user and records the tokens they use, also when
+   * they fail: requests such as repair rounds are billed all the same
+   */
+  private async meterUsage<T>(
+    ownerId: string | Types.ObjectId,
+    run: (onUsage: TokenUsageHandler) => Promise<T>,
+  ): Promise<IMeteredResult<T>> {
+    const usage = emptyTokenUsage();
+    let result: T;
+    let cost: number | null;
+    try {
+      result = await run((requestUsage) => addTokenUsage(usage, requestUsage));
+    } finally {
+      cost = await this.usageService.record(
+        ownerId,
+        this.llmAnalysisService.getModelId(),
+        usage,
+      );
+    }
+    return { result, usage, cost };
+  }
+
+  /**
+   * Records an analysis taken over from a document with identical content
+   * as the first version of the new document
+   */
+  private async recordReusedAnalysis(
+    document: Document & { id: string },
+    analyzed: Document & { id: string },
+  ): Promise<Document & { id: string }> {
+    const source = analyzed.currentAnalysis
+      ? await this.documentAnalysisModelAction.get({
+          identifierOptions: { _id: analyzed.currentAnalysis },
+        })
+      : null;
+
+    const now = new Date();
+    const analysis = await this.documentAnalysisModelAction.createVersion({
+      document: new Types.ObjectId(document.id),
+      owner: document.owner,
+      source: AnalysisSource.DUPLICATE,
+      model: source?.model ?? null,
+      promptVersion: source?.promptVersion ?? null,
+      summary: document.summary,
+      documentType: document.documentType ?? null,
+      extractedMetadata: document.extractedMetadata,
+      validationIssues: document.validationIssues,
+      usage: emptyTokenUsage(),
+      cost: 0,
+      startedAt: now,
+      completedAt: now,
+    });
+
+    const updatedDocument = await this.documentModelAction.update({
+      identifierOptions: { _id: document.id },
+      updatePayload: { currentAnalysis: analysis._id },
+    });
+    return (updatedDocument as DocumentDocument).toObject();
+  }
+
+  /**
+   * Records the analysis of a document analyzed before versions were kept,
+   * so re-analyzing it doesn't lose the earlier result
+   */
+  private async importLegacyAnalysis(
+    documentId: string,
+    document: Document,
+  ): Promise<void> {
+    if (!document.summary || document.currentAnalysis) return;
+
+    await this.documentAnalysisModelAction.createVersion({
+      document: new Types.ObjectId(documentId),
+      owner: document.owner,
+      source: AnalysisSource.IMPORTED,
+      model: null,
+      promptVersion: null,
+      summary: document.summary,
+      documentType: document.documentType ?? null,
+      extractedMetadata: document.extractedMetadata ?? {},
+      validationIssues: document.validationIssues ?? [],
+      usage: emptyTokenUsage(),
+      cost: null,
+      startedAt: null,
+      completedAt: null,
+    });
+  }
+
+  /**
+   * Loads an analysis version of a document
+   */
+  private async findAnalysisVersion(
+    documentId: string,
+    version: number,
+  ): Promise<DocumentAnalysisDocument> {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new BadRequestException(sysMsg.ANALYSIS_VERSION_INVALID);
+    }
+
+    const analysis = await this.documentAnalysisModelAction.get({
+      identifierOptions: { document: documentId, version },
+    });
+
+    if (!analysis) {
+      throw new NotFoundException(
+        `${sysMsg.ANALYSIS_VERSION_NOT_FOUND}: ${version}`,
+      );
+    }
+
+    return analysis as DocumentAnalysisDocument;
+  }
+
+  /**
+   * Document fields showing an analysis version as the current analysis
+   */
+  private toCurrentAnalysis(analysis: DocumentAnalysis & { _id?: unknown }) {
+    return {
+      summary: analysis.summary,
+      documentType: analysis.documentType,
+      extractedMetadata: analysis.extractedMetadata,
+      validationIssues: analysis.validationIssues,
+      currentAnalysis: analysis._id as Types.ObjectId,
+    };
+  }
+
+  /**
+   * Loads a non-deleted document owned by the given user
+   * Documents belonging to other users are reported as not found so IDs don't leak
+   */
+  private async findOwnedDocument(
+    id: string,
+    ownerId: string,
+  ): Promise<Document> {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException(sysMsg.DOCUMENT_INVALID_ID);
+    }
+
+    const document = await this.documentModelAction.get({
+      identifierOptions: { _id: id, owner: ownerId, isDeleted: false },
+    });
+
+    if (!document) {
+      throw new NotFoundException(sysMsg.DOCUMENT_NOT_FOUND);
+    }
+
+    return document;
+  }
+
+  /**
+   * Finds the passages of the user's documents closest in meaning to a query
+   * Passages of deleted documents, or documents of other users, are left out
+   */
+  private async findRelevantPassages(
+    ownerId: string,
+    query: string,
+    limit: number,
+    minScore?: number,
+    documentIds?: string[],
+  ): Promise<IRelevantPassage[]> {
+    // Chunks of deleted documents may outlive them (their removal is best
+    // effort), so skip them in the scan rather than after the limit applies
+    const { payload: deletedDocuments } = await this.documentModelAction.find({
+      findOptions: { owner: ownerId, isDeleted: true },
+      select: "_id",
+    });
+
+    const matches = await this.embeddingsService.search(
+      ownerId,
+      query,
+      limit,
+      minScore,
+      documentIds,
+      (deletedDocuments as DocumentDocument[]).map((doc) => doc.id),
+    );
+
+    const matchedIds = [
+      ...new Set(matches.map((match) => match.chunk.document.toString())),
+    ];
+    const { payload } = await this.documentModelAction.find({
+      findOptions: {
+        _id: { $in: matchedIds },
+        owner: ownerId,
+        isDeleted: false,
+      },
+    });
+    const documents = new Map(
+      payload.map((doc) => {
+        const document = new DocumentResponseDto(doc);
+        return [document.id.toString(), document];
+      }),
+    );
+
+    return matches
+      .filter((match) => documents.has(match.chunk.document.toString()))
+      .map((match) => ({
+        ...match,
+        document: documents.get(match.chunk.document.toString()),
+      }));
+  }
+
+  /**
+   * Loads the latest questions of a document's conversation, oldest first
+   */
+  private async findRecentQuestions(
+    documentId: string,
+  ): Promise<IQuestionTurn[]> {
+    if (this.questionHistoryTurns <= 0) return [];
+
+    const { payload } = await this.documentQuestionModelAction.list({
+      filterRecordOptions: { document: documentId },
+      sort: { createdAt: -1 },
+      paginationPayload: { page: 1, limit: this.questionHistoryTurns },
+    });
+
+    return payload.reverse().map((turn: DocumentQuestion) => ({
+      question: turn.question,
+      answer: turn.answer,
+      answerable: turn.answerable,
+      quotes: turn.quotes.map((quote) => quote.text),
+    }));
+  }
+
+  /**
+   * Parses an optional date range; a date without a time in the upper bound
+   * covers that whole day
+   */
+  private buildDateRange(
+    from?: string,
+    to?: string,
+  ): { from?: Date; to?: Date } | null {
+    if (!from && !to) return null;
+
+    const range = {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+    };
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      range.to.setUTCHours(23, 59, 59, 999);
+    }
+
+    if (range.from && range.to && range.from > range.to) {
+      throw new BadRequestException(sysMsg.SEARCH_INVALID_DATE_RANGE);
+    }
+
+    return range;
+  }
+
+  /**
+   * Collects highlighted excerpts for every searchable field that matched
+   */
+  private buildHighlights(
+    hit: DocumentSearchHit,
+    terms: string[],
+  ): SearchHighlightDto[] {
+    const fields: [string, string | undefined][] = [
+      ["originalName", hit.originalName],
+      ["summary", hit.summary],
+      ["extractedText", hit.extractedText],
+      [
+        "extractedMetadata.keywords",
+        hit.extractedMetadata?.keywords?.join(", "),
+      ],
+      ["extractedMetadata.sender", hit.extractedMetadata?.sender],
+    ];
+
+    return fields
+      .map(([field, value]) => ({
+        field,
+        snippet: highlightSnippet(value, terms),
+      }))
+      .filter((highlight) => highlight.snippet !== null);
+  }
+
+  /**
+   * Builds a document response carrying the URL to poll for analysis progress
+   */
+  private toQueuedResponse(document: Document): DocumentResponseDto {
+    const response = new DocumentResponseDto(document);
+    const apiPrefix = this.configService.get<string>("API_PREFIX", "api");
+    const apiVersion = this.configService.get<string>("API_VERSION", "v1");
+    response.analysisStatusUrl = `/${apiPrefix}/${apiVersion}/documents/${response.id}/analysis`;
+    return response;
+  }
+
+  /**
+   * Queues webhook deliveries of a document lifecycle event
+   * The payload carries the document without its extracted text, which
+   * receivers can fetch through the API when they need it
+   */
+  private async notifyWebhooks(
+    event: WebhookEvent,
+    document: Document,
+    error?: string,
+  ): Promise<void> {
+    const {
+      id,
+      originalName,
+      mimetype,
+      size,
+      analysisStatus,
+      summary,
+      documentType,
+      extractedMetadata,
+      validationIssues,
+      createdAt,
+      updatedAt,
+    } = new DocumentResponseDto(document);
+
+    await this.webhooksService.dispatch(document.owner.toString(), event, {
+      document: {
+        id: id.toString(),
+        originalName,
+        mimetype,
+        size,
+        analysisStatus,
+        summary,
+        documentType,
+        extractedMetadata,
+        validationIssues,
+        createdAt,
+        updatedAt,
+      },
+      ...(error && { error }),
+    });
+  }
+
+  /**
+   * Builds a "status" event of an analysis stream
+   */
+  private toStatusEvent(
+    documentId: string,
+    analysisStatus: AnalysisStatus,
+    document?: Document | null,
+    error?: string,
+  ): MessageEvent {
+    return {
+      type: "status",
+      data: new AnalysisStreamStatusEventDto({
+        documentId,
+        analysisStatus,
+        document: document ? new DocumentResponseDto(document) : undefined,
+        error,
+      }),
+    };
   }
 }
@@ -0,0 +1,278 @@
+import { IsInt, Min } from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ExtractedMetadata } from "../../../common/types";
+import {
+  AnalysisSource,
+  DocumentAnalysisDocument,
+} from "../document-analysis.schema";
+import { IAnalysisDiff } from "../utils";
+import { ValidationIssueDto } from "./document-response.dto";
+
+/**
+ * Tokens billed for an analysis
+ */
+export class TokenUsageDto {
+  @ApiProperty({ description: "Tokens sent to the model", example: 3120 })
+  promptTokens: number;
+
+  @ApiProperty({ description: "Tokens generated by the model", example: 410 })
+  completionTokens: number;
+
+  @ApiProperty({ description: "Prompt and completion tokens", example: 3530 })
+  totalTokens: number;
+}
+
+/**
+ * Response DTO for a version of a document's analysis
+ */
+export class DocumentAnalysisResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the analysis version",
+    example: "6573b9d5bcf86cd799439601",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Document the analysis belongs to",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "Version number, counting from 1 per document",
+    example: 2,
+  })
+  version: number;
+
+  @ApiProperty({
+    description: "Whether the document currently shows this version",
+    example: true,
+  })
+  current: boolean;
+
+  @ApiProperty({
+    description:
+      "llm: generated by the model; cache: reused analysis of identical text; duplicate: taken over from an identical upload; imported: made before versions were recorded",
+    enum: AnalysisSource,
+    example: AnalysisSource.LLM,
+  })
+  source: AnalysisSource;
+
+  @ApiPropertyOptional({
+    description: "Provider and model that produced the analysis",
+    example: "openrouter:openai/gpt-4o-mini",
+    nullable: true,
+  })
+  model: string | null;
+
+  @ApiPropertyOptional({
+    description: "Version of the analysis prompts",
+    example: "1",
+    nullable: true,
+  })
+  promptVersion: string | null;
+
+  @ApiProperty({
+    description: "AI-generated summary",
+    example: "Invoice from Acme Corp for consulting services.",
+  })
+  summary: string;
+
+  @ApiPropertyOptional({
+    description: "Detected document type",
+    example: "invoice",
+    nullable: true,
+  })
+  documentType: string | null;
+
+  @ApiProperty({
+    description: "Extracted metadata",
+    example: { invoiceNumber: "INV-2024-001", totalAmount: 1234.5 },
+  })
+  extractedMetadata: ExtractedMetadata;
+
+  @ApiProperty({
+    description: "Problems found in the extracted metadata",
+    type: [ValidationIssueDto],
+  })
+  validationIssues: ValidationIssueDto[];
+
+  @ApiProperty({
+    description: "Tokens billed for the analysis; zero unless the model ran",
+    type: TokenUsageDto,
+  })
+  usage: TokenUsageDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Estimated cost in USD; null when the model is missing from the price table",
+    example: 0.000714,
+    nullable: true,
+  })
+  cost: number | null;
+
+  @ApiPropertyOptional({
+    description: "Timestamp when the analysis started",
+    example: "2024-12-06T10:00:00.000Z",
+    nullable: true,
+  })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: "Timestamp when the analysis finished",
+    example: "2024-12-06T10:00:12.000Z",
+    nullable: true,
+  })
+  completedAt: Date | null;
+
+  @ApiProperty({
+    description: "Timestamp when the version was recorded",
+    example: "2024-12-06T10:00:12.000Z",
+  })
+  createdAt: Date;
+
+  constructor(partial: Partial<DocumentAnalysisDocument>, current = false) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      partial && typeof partial.toObject === "function"
+        ? partial.toObject()
+        : partial;
+
+    this.id = plain.id || plain._id;
+    this.documentId = plain.document?.toString();
+    this.version = plain.version;
+    this.current = current;
+    this.source = plain.source;
+    this.model = plain.model ?? null;
+    this.promptVersion = plain.promptVersion ?? null;
+    this.summary = plain.summary;
+    this.documentType = plain.documentType ?? null;
+    this.extractedMetadata = plain.extractedMetadata ?? {};
+    this.validationIssues = plain.validationIssues ?? [];
+    this.usage = plain.usage;
+    this.cost = plain.cost ?? null;
+    this.startedAt = plain.startedAt ?? null;
+    this.completedAt = plain.completedAt ?? null;
+    this.createdAt = plain.createdAt;
+  }
+}
+
+/**
+ * Query DTO for comparing two analysis versions
+ */
+export class AnalysisDiffQueryDto {
+  @ApiProperty({ description: "Version to compare from", example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiProperty({ description: "Version to compare to", example: 2 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to: number;
+}
+
+/**
+ * Value of a field in the two compared versions
+ */
+export class AnalysisValueChangeDto {
+  @ApiProperty({ description: "Whether the value differs", example: true })
+  changed: boolean;
+
+  @ApiPropertyOptional({
+    description: "Value in the earlier version",
+    nullable: true,
+  })
+  from: string | null;
+
+  @ApiPropertyOptional({
+    description: "Value in the later version",
+    nullable: true,
+  })
+  to: string | null;
+}
+
+/**
+ * Metadata field that differs between the compared versions
+ */
+export class MetadataFieldChangeDto {
+  @ApiProperty({ description: "Metadata field", example: "totalAmount" })
+  field: string;
+
+  @ApiProperty({
+    description:
+      "added: only set in the later version; removed: only set in the earlier one; changed: set to different values",
+    enum: ["added", "removed", "changed"],
+    example: "changed",
+  })
+  change: "added" | "removed" | "changed";
+
+  @ApiPropertyOptional({
+    description: "Value in the earlier version",
+    example: 1200,
+    nullable: true,
+  })
+  from: unknown;
+
+  @ApiPropertyOptional({
+    description: "Value in the later version",
+    example: 1234.5,
+    nullable: true,
+  })
+  to: unknown;
+}
+
+/**
+ * Validation issues raised or resolved between the compared versions
+ */
+export class ValidationIssueChangesDto {
+  @ApiProperty({
+    description: "Issues only found in the later version",
+    type: [ValidationIssueDto],
+  })
+  added: ValidationIssueDto[];
+
+  @ApiProperty({
+    description: "Issues only found in the earlier version",
+    type: [ValidationIssueDto],
+  })
+  removed: ValidationIssueDto[];
+}
+
+/**
+ * Response DTO for the differences between two analysis versions
+ */
+export class AnalysisDiffResponseDto {
+  @ApiProperty({ description: "Version compared from", example: 1 })
+  from: number;
+
+  @ApiProperty({ description: "Version compared to", example: 2 })
+  to: number;
+
+  @ApiProperty({ type: AnalysisValueChangeDto })
+  summary: AnalysisValueChangeDto;
+
+  @ApiProperty({ type: AnalysisValueChangeDto })
+  documentType: AnalysisValueChangeDto;
+
+  @ApiProperty({
+    description: "Metadata fields that differ",
+    type: [MetadataFieldChangeDto],
+  })
+  metadata: MetadataFieldChangeDto[];
+
+  @ApiProperty({ type: ValidationIssueChangesDto })
+  validationIssues: ValidationIssueChangesDto;
+
+  constructor(from: number, to: number, diff: IAnalysisDiff) {
+    this.from = from;
+    this.to = to;
+    this.summary = diff.summary;
+    this.documentType = diff.documentType;
+    this.metadata = diff.metadata;
+    this.validationIssues = diff.validationIssues;
+  }
+}
@@ -0,0 +1,176 @@
+import { IsBoolean, IsOptional } from "class-validator";
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { AnalysisStatus } from "../document.schema";
+import { DocumentBatchDocument } from "../document-batch.schema";
+
+/**
+ * DTO for uploading several documents at once
+ */
+export class UploadBatchDto {
+  @ApiProperty({
+    type: "array",
+    items: { type: "string", format: "binary" },
+    description:
+      "Document files (max 5MB each) and/or ZIP archives of documents (max 25MB each). At most 50 files per batch, counting each file inside an archive",
+  })
+  files: Express.Multer.File[];
+
+  @ApiPropertyOptional({
+    description:
+      "Queue the stored documents for analysis immediately after upload. Defaults to the user's autoAnalyzeUploads preference",
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    // Multipart form fields arrive as strings
+    value === undefined ? undefined : value === true || value === "true",
+  )
+  @IsBoolean()
+  autoAnalyze?: boolean;
+}
+
+/**
+ * Outcome of storing one file of a batch
+ */
+export class BatchFileResultDto {
+  @ApiProperty({
+    description:
+      "Name of the uploaded file, or its path within the archive for files taken from a ZIP",
+    example: "invoices/march.pdf",
+  })
+  fileName: string;
+
+  @ApiPropertyOptional({
+    description: "ZIP archive the file was taken from",
+    example: "invoices.zip",
+    nullable: true,
+  })
+  archive: string | null;
+
+  @ApiProperty({
+    description: "Whether the file was stored as a document",
+    example: true,
+  })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: "Document created from the file",
+    example: "507f1f77bcf86cd799439011",
+    nullable: true,
+  })
+  documentId: string | null;
+
+  @ApiPropertyOptional({
+    description: "Why the file could not be stored",
+    example: null,
+    nullable: true,
+  })
+  error: string | null;
+}
+
+/**
+ * Analysis status of a document of a batch
+ */
+export class BatchDocumentStatusDto {
+  @ApiProperty({
+    description: "Unique identifier of the document",
+    example: "507f1f77bcf86cd799439011",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Original filename of the document",
+    example: "march.pdf",
+  })
+  originalName: string;
+
+  @ApiProperty({
+    description: "Current analysis status of the document",
+    enum: AnalysisStatus,
+    example: AnalysisStatus.ANALYZING,
+  })
+  analysisStatus: AnalysisStatus;
+}
+
+/**
+ * Response DTO for a batch upload
+ */
+export class DocumentBatchResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the batch",
+    example: "6572a8c4bcf86cd799439501",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Files stored as documents",
+    example: 4,
+  })
+  succeededCount: number;
+
+  @ApiProperty({
+    description: "Files that could not be stored",
+    example: 1,
+  })
+  failedCount: number;
+
+  @ApiProperty({
+    description: "Outcome of each file, in upload order",
+    type: [BatchFileResultDto],
+  })
+  results: BatchFileResultDto[];
+
+  @ApiProperty({
+    description: "Documents of the batch that have not been deleted",
+    type: [BatchDocumentStatusDto],
+  })
+  documents: BatchDocumentStatusDto[];
+
+  @ApiProperty({
+    description: "Number of documents per analysis status",
+    example: { PENDING: 1, ANALYZING: 1, COMPLETED: 2, FAILED: 0 },
+  })
+  analysisCounts: Record<AnalysisStatus, number>;
+
+  @ApiProperty({
+    description:
+      "Whether the analysis of every document has completed or failed",
+    example: false,
+  })
+  analysisFinished: boolean;
+
+  @ApiProperty({
+    description: "Timestamp when the batch was uploaded",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  createdAt: Date;
+
+  constructor(
+    batch: Partial<DocumentBatchDocument>,
+    documents: BatchDocumentStatusDto[],
+  ) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      batch && typeof batch.toObject === "function" ? batch.toObject() : batch;
+
+    this.id = plain.id || plain._id;
+    this.succeededCount = plain.succeededCount;
+    this.failedCount = plain.failedCount;
+    this.results = plain.results ?? [];
+    this.documents = documents;
+    this.analysisCounts = Object.fromEntries(
+      Object.values(AnalysisStatus).map((status) => [
+        status,
+        documents.filter((document) => document.analysisStatus === status)
+          .length,
+      ]),
+    ) as Record<AnalysisStatus, number>;
+    this.analysisFinished = documents.every(
+      (document) =>
+        document.analysisStatus === AnalysisStatus.COMPLETED ||
+        document.analysisStatus === AnalysisStatus.FAILED,
+    );
+    this.createdAt = plain.createdAt;
+  }
+}
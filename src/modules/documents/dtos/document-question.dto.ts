@@ -0,0 +1,185 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+import { Transform } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { DocumentQuestionDocument } from "../document-question.schema";
+
+/**
+ * DTO for asking a question about a document
+ */
+export class AskDocumentDto {
+  @ApiProperty({
+    description: "Question to answer from the document's text",
+    example: "What is the payment term?",
+  })
+  @Transform(({ value }) => (typeof value === "string" ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  question: string;
+}
+
+/**
+ * Passage of a document quoted in support of an answer
+ */
+export class AnswerQuoteDto {
+  @ApiProperty({
+    description: "The passage as it appears in the document",
+    example: "Payment is due within 30 days of the invoice date.",
+  })
+  text: string;
+
+  @ApiPropertyOptional({
+    description: "Page of the passage; null for formats without pages",
+    example: 2,
+    nullable: true,
+  })
+  page: number | null;
+}
+
+/**
+ * Response DTO for a question asked about a document
+ */
+export class DocumentQuestionResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the question",
+    example: "6571f1a2bcf86cd799439401",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Document the question was asked about",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "The question",
+    example: "What is the payment term?",
+  })
+  question: string;
+
+  @ApiProperty({
+    description:
+      "Answer based only on the document, or a refusal when the document doesn't contain it",
+    example: "Payment is due within 30 days of the invoice date (p. 2).",
+  })
+  answer: string;
+
+  @ApiProperty({
+    description: "Whether the document contains the answer",
+    example: true,
+  })
+  answerable: boolean;
+
+  @ApiProperty({
+    description: "Passages of the document supporting the answer",
+    type: [AnswerQuoteDto],
+  })
+  quotes: AnswerQuoteDto[];
+
+  @ApiProperty({
+    description: "Timestamp when the question was asked",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  createdAt: Date;
+
+  constructor(partial: Partial<DocumentQuestionDocument>) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      partial && typeof partial.toObject === "function"
+        ? partial.toObject()
+        : partial;
+
+    this.id = plain.id || plain._id;
+    this.documentId = plain.document?.toString();
+    this.question = plain.question;
+    this.answer = plain.answer;
+    this.answerable = plain.answerable;
+    this.quotes = plain.quotes ?? [];
+    this.createdAt = plain.createdAt;
+  }
+}
+
+/**
+ * DTO for asking a question across all of the user's documents
+ */
+export class AskLibraryDto {
+  @ApiProperty({
+    description: "Question to answer from the user's documents",
+    example: "Which contracts renew in Q1?",
+  })
+  @Transform(({ value }) => (typeof value === "string" ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  question: string;
+
+  @ApiPropertyOptional({
+    description: "Only search documents of this type",
+    enum: ["invoice", "CV", "report", "letter", "contract", "article", "other"],
+  })
+  @IsOptional()
+  @IsIn(["invoice", "CV", "report", "letter", "contract", "article", "other"])
+  documentType?: string;
+}
+
+/**
+ * Passage of one of the user's documents quoted in support of an answer
+ */
+export class LibraryCitationDto extends AnswerQuoteDto {
+  @ApiProperty({
+    description: "Document the passage comes from",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "Original file name of the document",
+    example: "acme-services-agreement.pdf",
+  })
+  originalName: string;
+}
+
+/**
+ * Response DTO for a question asked across the user's documents
+ */
+export class LibraryAnswerResponseDto {
+  @ApiProperty({
+    description: "The question",
+    example: "Which contracts renew in Q1?",
+  })
+  question: string;
+
+  @ApiProperty({
+    description:
+      "Answer based only on the user's documents, or a refusal when none of them contains it",
+    example:
+      "The Acme services agreement (acme-services-agreement.pdf) renews on 1 January 2025.",
+  })
+  answer: string;
+
+  @ApiProperty({
+    description: "Whether the documents contain the answer",
+    example: true,
+  })
+  answerable: boolean;
+
+  @ApiProperty({
+    description: "Passages of the documents supporting the answer",
+    type: [LibraryCitationDto],
+  })
+  citations: LibraryCitationDto[];
+
+  constructor(partial: LibraryAnswerResponseDto) {
+    this.question = partial.question;
+    this.answer = partial.answer;
+    this.answerable = partial.answerable;
+    this.citations = partial.citations;
+  }
+}
@@ -3,6 +3,100 @@ import { DocumentDocument } from "../document.schema";
 import { Exclude, Expose } from "class-transformer";
 import { AnalysisStatus, DocumentType } from "../document.schema";
 import { ExtractedMetadata } from "../../../common/types";
+import { AnalysisJobResponseDto } from "../../analysis-jobs/dtos";
+
+/**
+ * OCR confidence for a single page
+ */
+export class OcrPageResultDto {
+  @ApiProperty({ description: "1-based page number", example: 1 })
+  page: number;
+
+  @ApiProperty({
+    description: "Tesseract confidence for the page, from 0 to 100",
+    example: 91.5,
+  })
+  confidence: number;
+}
+
+/**
+ * Details of the OCR pass that produced (part of) the extracted text
+ */
+export class OcrResultDto {
+  @ApiProperty({ description: "OCR engine used", example: "tesseract" })
+  engine: string;
+
+  @ApiProperty({
+    description: "Languages the engine recognized",
+    example: ["eng"],
+  })
+  languages: string[];
+
+  @ApiProperty({
+    description: "Pages that were recognized with OCR",
+    type: [OcrPageResultDto],
+  })
+  pages: OcrPageResultDto[];
+
+  @ApiProperty({
+    description: "Mean confidence across the recognized pages",
+    example: 91.5,
+  })
+  averageConfidence: number;
+}
+
+/**
+ * Table detected in a document
+ */
+export class ExtractedTableDto {
+  @ApiProperty({
+    description: "1-based page number; null for formats without pages",
+    example: 1,
+    nullable: true,
+  })
+  page: number | null;
+
+  @ApiProperty({
+    description: "Cell texts of the first row",
+    example: ["Item", "Qty", "Price"],
+  })
+  header: string[];
+
+  @ApiProperty({
+    description:
+      "Cell texts of the remaining rows, padded to the header's width",
+    example: [
+      ["Consulting", "10", "150.00"],
+      ["Travel", "1", "320.00"],
+    ],
+  })
+  rows: string[][];
+}
+
+/**
+ * Problem found while validating a document's extracted metadata
+ */
+export class ValidationIssueDto {
+  @ApiProperty({
+    description: "Field the issue is about; line items are addressed by index",
+    example: "totalAmount",
+  })
+  field: string;
+
+  @ApiProperty({
+    description:
+      "invalid: the extracted value was rejected; missing: a required field was not found; mismatch: amounts don't add up",
+    enum: ["invalid", "missing", "mismatch"],
+    example: "mismatch",
+  })
+  kind: "invalid" | "missing" | "mismatch";
+
+  @ApiProperty({
+    description: "What is wrong",
+    example: "line items sum to 130.00, but the total is 150.00",
+  })
+  message: string;
+}
 
 /**
  * Response DTO for document operations
@@ -37,6 +131,15 @@ export class DocumentResponseDto {
   })
   size: number;
 
+  @Expose()
+  @ApiPropertyOptional({
+    description:
+      "SHA-256 hash of the file, identical for duplicate uploads; null for documents uploaded before hashing was introduced",
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+    nullable: true,
+  })
+  contentHash?: string | null;
+
   @Expose()
   @ApiProperty({
     description: "Current analysis status of the document",
@@ -52,6 +155,23 @@ export class DocumentResponseDto {
   })
   extractedText: string;
 
+  @Expose()
+  @ApiPropertyOptional({
+    description:
+      "OCR details when the file was an image or a scanned PDF; null when the text came from the file's text layer",
+    type: OcrResultDto,
+    nullable: true,
+  })
+  ocr?: OcrResultDto | null;
+
+  @Expose()
+  @ApiProperty({
+    description:
+      "Tables detected in the document (from the markup of DOCX, ODT, HTML, Markdown and XLSX files, or the layout of PDF pages)",
+    type: [ExtractedTableDto],
+  })
+  tables: ExtractedTableDto[];
+
   @Expose()
   @ApiPropertyOptional({
     description: "AI-generated summary of the document",
@@ -73,12 +193,65 @@ export class DocumentResponseDto {
     example: {
       date: "2024-12-06",
       sender: "Acme Corp",
-      totalAmount: "$1,234.50",
+      totalAmount: 1234.5,
+      currency: "USD",
+      invoiceNumber: "INV-2024-001",
+      lineItems: [
+        {
+          description: "Consulting",
+          quantity: 8,
+          unitPrice: 150,
+          amount: 1200,
+        },
+      ],
+      subtotal: 1200,
+      taxAmount: 34.5,
       keywords: ["invoice", "payment", "services"],
     },
   })
   extractedMetadata?: ExtractedMetadata;
 
+  @Expose()
+  @ApiProperty({
+    description:
+      "Problems found in the extracted metadata, e.g. invoice line items that don't add up to the total",
+    type: [ValidationIssueDto],
+  })
+  validationIssues: ValidationIssueDto[];
+
+  @Expose()
+  @ApiPropertyOptional({
+    description:
+      "Analysis version the summary, document type and metadata come from; null until analyzed",
+    example: "6573b9d5bcf86cd799439601",
+    nullable: true,
+  })
+  currentAnalysisId?: string | null;
+
+  @Expose()
+  @ApiProperty({
+    description:
+      "Whether the current analysis version is pinned, so new analyses don't replace it",
+    example: false,
+  })
+  analysisPinned: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({
+    description:
+      "Batch the document was uploaded in; null for documents uploaded on their own",
+    example: "6572a8c4bcf86cd799439501",
+    nullable: true,
+  })
+  batchId?: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    description: "URL to poll for the progress of a queued analysis",
+    example: "/api/v1/documents/507f1f77bcf86cd799439011/analysis",
+  })
+  analysisStatusUrl?: string;
+
   @Expose()
   @ApiProperty({
     description: "Timestamp when the document was created",
@@ -105,16 +278,336 @@ export class DocumentResponseDto {
     this.originalName = plain.originalName;
     this.mimetype = plain.mimetype;
     this.size = plain.size;
+    this.contentHash = plain.contentHash ?? null;
     this.analysisStatus = plain.analysisStatus;
     this.extractedText = plain.extractedText;
+    this.ocr = plain.ocr ?? null;
+    this.tables = plain.tables ?? [];
     this.summary = plain.summary;
     this.documentType = plain.documentType;
     this.extractedMetadata = plain.extractedMetadata;
+    this.validationIssues = plain.validationIssues ?? [];
+    this.currentAnalysisId =
+      "currentAnalysis" in plain
+        ? (plain.currentAnalysis?.toString() ?? null)
+        : null;
+    this.analysisPinned =
+      "analysisPinned" in plain ? plain.analysisPinned : false;
+    this.batchId = "batch" in plain ? (plain.batch?.toString() ?? null) : null;
     this.createdAt = plain.createdAt;
     this.updatedAt = plain.updatedAt;
   }
 }
 
+/**
+ * Response DTO for the analysis status of a document
+ */
+export class AnalysisStatusResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the document",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "Current analysis status of the document",
+    enum: AnalysisStatus,
+    example: AnalysisStatus.ANALYZING,
+  })
+  analysisStatus: AnalysisStatus;
+
+  @ApiPropertyOptional({
+    description: "Most recent analysis job for the document",
+    type: AnalysisJobResponseDto,
+    nullable: true,
+  })
+  job: AnalysisJobResponseDto | null;
+
+  constructor(partial: AnalysisStatusResponseDto) {
+    this.documentId = partial.documentId;
+    this.analysisStatus = partial.analysisStatus;
+    this.job = partial.job;
+  }
+}
+
+/**
+ * Data of the "status" events of an analysis stream
+ */
+export class AnalysisStreamStatusEventDto {
+  @ApiProperty({
+    description: "Unique identifier of the document",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "Analysis status after the transition",
+    enum: AnalysisStatus,
+    example: AnalysisStatus.COMPLETED,
+  })
+  analysisStatus: AnalysisStatus;
+
+  @ApiPropertyOptional({
+    description: "The analyzed document (COMPLETED only)",
+    type: DocumentResponseDto,
+  })
+  document?: DocumentResponseDto;
+
+  @ApiPropertyOptional({
+    description: "Why the analysis failed (FAILED only)",
+    example: "Failed to analyze document with the LLM.",
+  })
+  error?: string;
+
+  constructor(partial: AnalysisStreamStatusEventDto) {
+    this.documentId = partial.documentId;
+    this.analysisStatus = partial.analysisStatus;
+    if (partial.document) this.document = partial.document;
+    if (partial.error) this.error = partial.error;
+  }
+}
+
+/**
+ * Data of the "summary" events of an analysis stream
+ */
+export class AnalysisStreamSummaryEventDto {
+  @ApiProperty({
+    description: "Summary text generated since the previous event",
+    example: "This invoice from Acme ",
+  })
+  delta: string;
+}
+
+/**
+ * Highlighted excerpt of a field that matched a search
+ */
+export class SearchHighlightDto {
+  @ApiProperty({
+    description: "Field the excerpt comes from",
+    enum: [
+      "originalName",
+      "summary",
+      "extractedText",
+      "extractedMetadata.keywords",
+      "extractedMetadata.sender",
+    ],
+    example: "extractedText",
+  })
+  field: string;
+
+  @ApiProperty({
+    description: "HTML-escaped excerpt with matches wrapped in <mark>",
+    example:
+      "…payment for the <mark>invoice</mark> from <mark>Acme</mark> Corp is due…",
+  })
+  snippet: string;
+}
+
+/**
+ * Response DTO for a document matched by a search
+ */
+export class DocumentSearchResultDto extends DocumentResponseDto {
+  @Expose()
+  @ApiProperty({
+    description: "Relevance score; higher is more relevant",
+    example: 4.2,
+  })
+  score: number;
+
+  @Expose()
+  @ApiProperty({
+    description: "Highlighted excerpts of the matching fields",
+    type: [SearchHighlightDto],
+  })
+  highlights: SearchHighlightDto[];
+
+  constructor(
+    partial: Partial<DocumentResponseDto>,
+    score: number,
+    highlights: SearchHighlightDto[],
+  ) {
+    super(partial);
+    this.score = score;
+    this.highlights = highlights;
+  }
+}
+
+/**
+ * Passage of a document matched by a semantic search
+ */
+export class SemanticSearchChunkDto {
+  @ApiProperty({
+    description: "Position of the passage within the document",
+    example: 3,
+  })
+  index: number;
+
+  @ApiProperty({
+    description: "Text of the passage",
+    example: "Consulting services, 10 days at 150.00 per day ...",
+  })
+  text: string;
+
+  @ApiProperty({
+    description: "1-based page number; null for formats without pages",
+    example: 2,
+    nullable: true,
+  })
+  page: number | null;
+}
+
+/**
+ * Response DTO for a passage matched by a semantic search, with its document
+ */
+export class SemanticSearchResultDto {
+  @ApiProperty({
+    description: "Cosine similarity between the query and the passage",
+    example: 0.82,
+  })
+  score: number;
+
+  @ApiProperty({
+    description: "The matching passage",
+    type: SemanticSearchChunkDto,
+  })
+  chunk: SemanticSearchChunkDto;
+
+  @ApiProperty({
+    description: "The document the passage belongs to",
+    type: DocumentResponseDto,
+  })
+  document: DocumentResponseDto;
+
+  constructor(partial: SemanticSearchResultDto) {
+    this.score = partial.score;
+    this.chunk = partial.chunk;
+    this.document = partial.document;
+  }
+}
+
+/**
+ * Response DTO for a presigned download URL
+ */
+export class DocumentFileUrlResponseDto {
+  @ApiProperty({
+    description: "Short-lived URL that downloads the original file",
+    example:
+      "http://127.0.0.1:9000/aidocs/3f1c9e...-1733479200000.pdf?X-Amz-Signature=...",
+  })
+  url: string;
+
+  @ApiProperty({
+    description: "Time after which the URL stops working",
+    example: "2024-12-06T10:05:00.000Z",
+  })
+  expiresAt: Date;
+
+  constructor(partial: DocumentFileUrlResponseDto) {
+    this.url = partial.url;
+    this.expiresAt = partial.expiresAt;
+  }
+}
+
+/**
+ * Heading, paragraph or table of a document's structure
+ */
+export class StructureBlockDto {
+  @ApiProperty({
+    description: "Kind of block",
+    enum: ["heading", "paragraph", "table"],
+    example: "heading",
+  })
+  type: "heading" | "paragraph" | "table";
+
+  @ApiPropertyOptional({
+    description: "Heading level, 1 being the top level (headings only)",
+    example: 1,
+  })
+  level?: number;
+
+  @ApiPropertyOptional({
+    description: "Text of a heading or paragraph",
+    example: "Payment terms",
+  })
+  text?: string;
+
+  @ApiPropertyOptional({
+    description: "Cell texts row by row (tables only)",
+    example: [
+      ["Item", "Qty", "Price"],
+      ["Consulting", "10", "150.00"],
+    ],
+  })
+  rows?: string[][];
+
+  @ApiPropertyOptional({
+    description: "1-based page number, for paginated formats (PDF, images)",
+    example: 2,
+  })
+  page?: number;
+}
+
+/**
+ * Response DTO for the extracted structure of a document
+ */
+export class DocumentStructureResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the document",
+    example: "507f1f77bcf86cd799439011",
+  })
+  documentId: string;
+
+  @ApiProperty({
+    description: "Number of pages; null for formats without pages",
+    example: 3,
+    nullable: true,
+  })
+  pageCount: number | null;
+
+  @ApiProperty({
+    description: "Blocks of the document in reading order",
+    type: [StructureBlockDto],
+  })
+  blocks: StructureBlockDto[];
+
+  constructor(partial: DocumentStructureResponseDto) {
+    this.documentId = partial.documentId;
+    this.pageCount = partial.pageCount;
+    this.blocks = partial.blocks;
+  }
+}
+
+/**
+ * Response DTO for paginated search results
+ */
+export class PaginatedSearchResultsResponseDto {
+  @ApiProperty({
+    type: [DocumentSearchResultDto],
+    description: "Matching documents, most relevant first",
+  })
+  documents: DocumentSearchResultDto[];
+
+  @ApiProperty({
+    description: "Pagination metadata",
+    example: {
+      total: 3,
+      page: 1,
+      limit: 20,
+      total_pages: 1,
+      has_next: false,
+      has_previous: false,
+    },
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+}
+
 /**
  * Response DTO for paginated document list
  */
@@ -1,4 +1,17 @@
-import { IsString, IsOptional } from "class-validator";
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsNotEmpty,
+  IsInt,
+  IsDateString,
+  IsIn,
+  IsNumber,
+  MaxLength,
+  Max,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 
 /**
@@ -8,9 +21,23 @@ export class UploadDocumentDto {
   @ApiProperty({
     type: "string",
     format: "binary",
-    description: "The document file (PDF or DOCX, max 5MB)",
+    description:
+      "The document file (PDF, DOCX, ODT, RTF, TXT, Markdown, HTML, XLSX, EML, PNG, JPEG or TIFF; max 5MB)",
   })
   file: Express.Multer.File;
+
+  @ApiPropertyOptional({
+    description:
+      "Queue the document for analysis immediately after upload. Defaults to the user's autoAnalyzeUploads preference",
+    example: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    // Multipart form fields arrive as strings
+    value === undefined ? undefined : value === true || value === "true",
+  )
+  @IsBoolean()
+  autoAnalyze?: boolean;
 }
 
 /**
@@ -25,6 +52,22 @@ export class AnalyzeDocumentDto {
   forceReAnalysis?: boolean;
 }
 
+/**
+ * DTO for query parameters when streaming an analysis
+ */
+export class StreamAnalysisQueryDto {
+  @ApiPropertyOptional({
+    description: "Force re-analysis even if already completed",
+    example: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === undefined ? undefined : value === true || value === "true",
+  )
+  @IsBoolean()
+  forceReAnalysis?: boolean;
+}
+
 /**
  * DTO for query parameters when listing documents
  */
@@ -61,3 +104,129 @@ export class ListDocumentsQueryDto {
   @IsString()
   documentType?: string;
 }
+
+/**
+ * DTO for query parameters when searching documents
+ */
+export class SearchDocumentsQueryDto {
+  @ApiProperty({
+    description:
+      'Search terms matched against the file name, summary, extracted text, keywords and sender. Supports "quoted phrases" and -excluded terms',
+    example: "invoice acme",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: "Page number",
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: "Number of results per page",
+    example: 20,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: "Filter by analysis status",
+    enum: ["PENDING", "ANALYZING", "COMPLETED", "FAILED"],
+  })
+  @IsOptional()
+  @IsIn(["PENDING", "ANALYZING", "COMPLETED", "FAILED"])
+  analysisStatus?: string;
+
+  @ApiPropertyOptional({
+    description: "Filter by document type",
+    enum: ["invoice", "CV", "report", "letter", "contract", "article", "other"],
+  })
+  @IsOptional()
+  @IsIn(["invoice", "CV", "report", "letter", "contract", "article", "other"])
+  documentType?: string;
+
+  @ApiPropertyOptional({
+    description: "Only documents uploaded on or after this date",
+    example: "2024-01-01",
+  })
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({
+    description: "Only documents uploaded on or before this date",
+    example: "2024-12-31",
+  })
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Only documents whose extracted date (extractedMetadata.date) is on or after this date",
+    example: "2024-01-01",
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Only documents whose extracted date (extractedMetadata.date) is on or before this date",
+    example: "2024-12-31",
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
+
+/**
+ * DTO for query parameters when searching documents by meaning
+ */
+export class SemanticSearchQueryDto {
+  @ApiProperty({
+    description:
+      "Natural-language query, matched against passages of the documents by meaning rather than by keywords",
+    example: "how much do we owe the consultants",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: "Number of passages to return",
+    example: 10,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: "Only passages with at least this cosine similarity (-1 to 1)",
+    example: 0.3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  minScore?: number;
+}
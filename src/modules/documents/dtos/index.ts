@@ -1,2 +1,5 @@
 export * from "./document.dto";
 export * from "./document-response.dto";
+export * from "./document-question.dto";
+export * from "./document-batch.dto";
+export * from "./document-analysis.dto";
@@ -0,0 +1,94 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../constants/system.messages";
+import { DocumentsService } from "./documents.service";
+
+/**
+ * Documents loaded per backfill query
+ */
+const BACKFILL_BATCH_SIZE = 20;
+
+/**
+ * Background task that indexes documents without embeddings for the configured model
+ * Runs once after boot, so documents uploaded before semantic search existed,
+ * embedded with another model, or whose indexing failed become searchable
+ */
+@Injectable()
+export class EmbeddingBackfillWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(EmbeddingBackfillWorker.name);
+  private readonly enabled: boolean;
+  private stopped = false;
+
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>("EMBEDDING_BACKFILL_ENABLED", "true") !==
+      "false";
+  }
+
+  /**
+   * Starts the backfill without delaying the app startup
+   */
+  onApplicationBootstrap(): void {
+    if (!this.enabled) {
+      this.logger.warn(sysMsg.EMBEDDING_BACKFILL_DISABLED);
+      return;
+    }
+
+    this.backfill();
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Indexes documents one by one until none is left
+   * Stops at the first failure, which would otherwise be retried forever
+   */
+  private async backfill(): Promise<void> {
+    let indexed = 0;
+
+    try {
+      while (!this.stopped) {
+        const documents =
+          await this.documentsService.findDocumentsWithoutEmbeddings(
+            BACKFILL_BATCH_SIZE,
+          );
+        if (documents.length === 0) break;
+
+        for (const document of documents) {
+          if (this.stopped) return;
+          if (
+            !(await this.documentsService.indexEmbeddings(
+              document.id,
+              document,
+            ))
+          ) {
+            this.logger.warn(sysMsg.EMBEDDING_BACKFILL_STOPPED);
+            return;
+          }
+          indexed++;
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.EMBEDDING_BACKFILL_STOPPED}: ${error.message}`,
+      );
+      return;
+    }
+
+    if (indexed > 0) {
+      this.logger.log(`${sysMsg.EMBEDDING_BACKFILL_COMPLETED}: ${indexed}`);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  DocumentAnalysis,
+  DocumentAnalysisDocument,
+} from "../document-analysis.schema";
+
+// Duplicate key error raised when two analyses claim the same version number
+const DUPLICATE_KEY_ERROR = 11000;
+const CREATE_VERSION_ATTEMPTS = 3;
+
+/**
+ * Model action for DocumentAnalysis entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class DocumentAnalysisModelAction extends AbstractModelAction<DocumentAnalysis> {
+  constructor(
+    @InjectModel(DocumentAnalysis.name)
+    private documentAnalysisModel: Model<DocumentAnalysisDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(documentAnalysisModel);
+  }
+
+  /**
+   * Returns the latest analysis version of a document, or null when it has none
+   */
+  async findLatest(
+    documentId: string | Types.ObjectId,
+  ): Promise<DocumentAnalysisDocument | null> {
+    try {
+      return await this.documentAnalysisModel
+        .findOne({ document: documentId })
+        .sort({ version: -1 });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_GET_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Stores an analysis as the next version of its document
+   * A concurrent analysis taking the same number makes this one retry with the next
+   */
+  async createVersion(
+    payload: Omit<DocumentAnalysis, "version">,
+  ): Promise<DocumentAnalysisDocument> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const latest = await this.findLatest(payload.document);
+
+        return await this.documentAnalysisModel.create({
+          ...payload,
+          version: (latest?.version ?? 0) + 1,
+        });
+      } catch (error: unknown) {
+        const isConflict =
+          (error as { code?: number }).code === DUPLICATE_KEY_ERROR;
+        if (isConflict && attempt < CREATE_VERSION_ATTEMPTS) continue;
+
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new InternalServerErrorException(
+          `${sysMsg.DB_CREATE_FAILED}: ${errorMessage}`,
+        );
+      }
+    }
+  }
+}
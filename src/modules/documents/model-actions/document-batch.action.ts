@@ -0,0 +1,20 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import { DocumentBatch, DocumentBatchDocument } from "../document-batch.schema";
+
+/**
+ * Model action for DocumentBatch entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class DocumentBatchModelAction extends AbstractModelAction<DocumentBatch> {
+  constructor(
+    @InjectModel(DocumentBatch.name)
+    private documentBatchModel: Model<DocumentBatchDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(documentBatchModel);
+  }
+}
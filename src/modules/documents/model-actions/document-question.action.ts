@@ -0,0 +1,42 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  DocumentQuestion,
+  DocumentQuestionDocument,
+} from "../document-question.schema";
+
+/**
+ * Model action for DocumentQuestion entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class DocumentQuestionModelAction extends AbstractModelAction<DocumentQuestion> {
+  constructor(
+    @InjectModel(DocumentQuestion.name)
+    private documentQuestionModel: Model<DocumentQuestionDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(documentQuestionModel);
+  }
+
+  /**
+   * Deletes the conversation history of a document
+   */
+  async deleteByDocument(documentId: string): Promise<number> {
+    try {
+      const result = await this.documentQuestionModel.deleteMany({
+        document: documentId,
+      });
+      return result.deletedCount;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_DELETE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+}
@@ -1,9 +1,31 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
-import { Model } from "mongoose";
-import { AbstractModelAction } from "../../../common/base";
+import { FilterQuery, Model, Types } from "mongoose";
+import {
+  AbstractModelAction,
+  IListResponse,
+  IPaginationPayload,
+} from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
 import { Document, DocumentDocument } from "../document.schema";
 
+/**
+ * Options for full-text document search
+ */
+export interface IDocumentSearchOptions {
+  search: string;
+  filterRecordOptions: FilterQuery<Document>;
+  paginationPayload?: IPaginationPayload;
+}
+
+/**
+ * Document matched by a full-text search, with its relevance score
+ */
+export type DocumentSearchHit = Document & {
+  _id: Types.ObjectId;
+  score: number;
+};
+
 /**
  * Model action for Document entity
  * Provides standardized CRUD operations following the HNG SDK pattern
@@ -17,4 +39,49 @@ export class DocumentModelAction extends AbstractModelAction<Document> {
     // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
     super(documentModel);
   }
+
+  /**
+   * Runs a $text search and returns matches ordered by relevance
+   * The filter must include an owner equality, which the text index is prefixed with
+   */
+  async search(
+    options: IDocumentSearchOptions,
+  ): Promise<IListResponse<DocumentSearchHit>> {
+    const { search, filterRecordOptions, paginationPayload = {} } = options;
+    const { page = 1, limit = 20 } = paginationPayload;
+    const filter = { ...filterRecordOptions, $text: { $search: search } };
+
+    try {
+      const [payload, total] = await Promise.all([
+        this.documentModel
+          .find(filter, { score: { $meta: "textScore" } })
+          .sort({ score: { $meta: "textScore" }, createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean<DocumentSearchHit[]>()
+          .exec(),
+        this.documentModel.countDocuments(filter),
+      ]);
+
+      const total_pages = Math.ceil(total / limit);
+
+      return {
+        payload,
+        paginationMeta: {
+          total,
+          page,
+          limit,
+          total_pages,
+          has_next: page < total_pages,
+          has_previous: page > 1,
+        },
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_LIST_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
 }
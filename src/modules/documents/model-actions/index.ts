@@ -1 +1,4 @@
 export * from "./document.action";
+export * from "./document-question.action";
+export * from "./document-batch.action";
+export * from "./document-analysis.action";
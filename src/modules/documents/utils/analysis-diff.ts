@@ -0,0 +1,103 @@
+import { ExtractedMetadata } from "../../../common/types";
+import { IMetadataIssue } from "../../llm/extraction/metadata-validator";
+
+/**
+ * Output of an analysis, as compared between versions
+ */
+export interface IAnalysisOutput {
+  summary: string;
+  documentType: string | null;
+  extractedMetadata: ExtractedMetadata;
+  validationIssues: IMetadataIssue[];
+}
+
+/**
+ * Value of a field in two versions
+ */
+export interface IValueChange<T> {
+  changed: boolean;
+  from: T;
+  to: T;
+}
+
+/**
+ * Metadata field that differs between two versions
+ * Fields set to null count as absent
+ */
+export interface IMetadataFieldChange {
+  field: string;
+  change: "added" | "removed" | "changed";
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Differences between the outputs of two analyses
+ */
+export interface IAnalysisDiff {
+  summary: IValueChange<string>;
+  documentType: IValueChange<string | null>;
+  metadata: IMetadataFieldChange[];
+  validationIssues: { added: IMetadataIssue[]; removed: IMetadataIssue[] };
+}
+
+const isSet = (value: unknown): boolean =>
+  value !== undefined && value !== null;
+
+/**
+ * Compares the outputs of two analyses
+ * Metadata is compared field by field; lists and nested values (e.g. line
+ * items) are reported as a whole when any part of them changed
+ */
+export const diffAnalyses = (
+  from: IAnalysisOutput,
+  to: IAnalysisOutput,
+): IAnalysisDiff => {
+  const fromMetadata = from.extractedMetadata ?? {};
+  const toMetadata = to.extractedMetadata ?? {};
+  const fields = [
+    ...new Set([...Object.keys(fromMetadata), ...Object.keys(toMetadata)]),
+  ];
+
+  const metadata: IMetadataFieldChange[] = [];
+  for (const field of fields) {
+    const before = fromMetadata[field];
+    const after = toMetadata[field];
+    if (!isSet(before) && !isSet(after)) continue;
+
+    if (!isSet(before)) {
+      metadata.push({ field, change: "added", from: null, to: after });
+    } else if (!isSet(after)) {
+      metadata.push({ field, change: "removed", from: before, to: null });
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      metadata.push({ field, change: "changed", from: before, to: after });
+    }
+  }
+
+  const issueKey = (issue: IMetadataIssue) =>
+    `${issue.kind}|${issue.field}|${issue.message}`;
+  const fromIssues = new Set((from.validationIssues ?? []).map(issueKey));
+  const toIssues = new Set((to.validationIssues ?? []).map(issueKey));
+
+  return {
+    summary: {
+      changed: from.summary !== to.summary,
+      from: from.summary,
+      to: to.summary,
+    },
+    documentType: {
+      changed: from.documentType !== to.documentType,
+      from: from.documentType,
+      to: to.documentType,
+    },
+    metadata,
+    validationIssues: {
+      added: (to.validationIssues ?? []).filter(
+        (issue) => !fromIssues.has(issueKey(issue)),
+      ),
+      removed: (from.validationIssues ?? []).filter(
+        (issue) => !toIssues.has(issueKey(issue)),
+      ),
+    },
+  };
+};
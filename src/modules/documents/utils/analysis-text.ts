@@ -0,0 +1,63 @@
+import { formatPageMarker } from "../../llm/utils";
+import {
+  IDocumentStructure,
+  StructureBlock,
+} from "../../text-extraction/interfaces";
+
+/**
+ * Text sent to the LLM for analysis
+ * Documents with pages or tables are rendered from their structure, with page markers so summaries
+ * can cite pages and tables as Markdown so columns stay attached to their values;
+ * everything else is analyzed from the extracted text as is
+ */
+export function buildAnalysisText(document: {
+  extractedText: string;
+  structure?: IDocumentStructure | null;
+}): string {
+  const { structure } = document;
+  const hasTables = structure?.blocks.some((block) => block.type === "table");
+  if (!structure?.blocks.length || (!structure.pageCount && !hasTables)) {
+    return document.extractedText;
+  }
+
+  const sections: string[] = [];
+  let currentPage: number | undefined;
+  for (const block of structure.blocks) {
+    if (block.page !== undefined && block.page !== currentPage) {
+      currentPage = block.page;
+      sections.push(formatPageMarker(block.page));
+    }
+    sections.push(renderBlock(block));
+  }
+
+  return sections.join("\n\n");
+}
+
+function renderBlock(block: StructureBlock): string {
+  switch (block.type) {
+    case "heading":
+      return `${"#".repeat(block.level)} ${block.text}`;
+    case "table":
+      return renderMarkdownTable(block.rows);
+    default:
+      return block.text;
+  }
+}
+
+/**
+ * Renders rows as a Markdown table with the first row as its header
+ */
+function renderMarkdownTable(rows: string[][]): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  const renderRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) =>
+      (row[index] ?? "").replace(/\s+/g, " ").replace(/\|/g, "\\|"),
+    ).join(" | ")} |`;
+
+  const [header, ...body] = rows;
+  return [
+    renderRow(header),
+    renderRow(Array<string>(width).fill("---")),
+    ...body.map(renderRow),
+  ].join("\n");
+}
@@ -0,0 +1,4 @@
+export * from "./search-highlight";
+export * from "./analysis-text";
+export * from "./zip-archive";
+export * from "./analysis-diff";
@@ -0,0 +1,85 @@
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Splits a $text search string into the terms to highlight
+ * Quoted phrases are kept together; negated terms ("-word") are ignored
+ */
+export const parseSearchTerms = (search: string): string[] => {
+  const terms = new Set<string>();
+  for (const match of search.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).toLowerCase().trim();
+    if (!negated && term.length >= 2) {
+      terms.add(term);
+    }
+  }
+  return [...terms];
+};
+
+/**
+ * Builds a pattern matching any term at the start of a word, so that
+ * "invoice" also highlights "invoices" (the text index matches on stems)
+ */
+const buildTermPattern = (terms: string[], html = false): RegExp | null => {
+  if (terms.length === 0) return null;
+
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) =>
+      escapeRegExp(html ? escapeHtml(term) : term).replace(/\s+/g, "\\s+"),
+    )
+    .join("|");
+
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alternatives})[\\p{L}\\p{N}]*`,
+    "giu",
+  );
+};
+
+/**
+ * Returns an HTML-escaped excerpt around the first match with every match
+ * wrapped in <mark>, or null when the text contains none of the terms
+ */
+export const highlightSnippet = (
+  text: string | undefined,
+  terms: string[],
+  maxLength = 200,
+): string | null => {
+  const pattern = buildTermPattern(terms);
+  if (!text || !pattern) return null;
+
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const firstMatch = normalized.search(pattern);
+  if (firstMatch < 0) return null;
+
+  // Show some context before the first match, cutting at word boundaries
+  let start = Math.max(0, firstMatch - Math.floor(maxLength / 3));
+  if (start > 0) {
+    const wordStart = normalized.indexOf(" ", start);
+    start = wordStart >= 0 && wordStart < firstMatch ? wordStart + 1 : start;
+  }
+  let end = Math.min(normalized.length, start + maxLength);
+  if (end < normalized.length) {
+    const wordEnd = normalized.lastIndexOf(" ", end);
+    end = wordEnd > firstMatch ? wordEnd : end;
+  }
+
+  const excerpt = escapeHtml(normalized.substring(start, end)).replace(
+    buildTermPattern(terms, true),
+    (match) => `<mark>${match}</mark>`,
+  );
+
+  return `${start > 0 ? "…" : ""}${excerpt}${end < normalized.length ? "…" : ""}`;
+};
@@ -0,0 +1,56 @@
+import * as JSZip from "jszip";
+
+/**
+ * File stored in an uploaded ZIP archive
+ */
+export interface IZipEntry {
+  path: string; // Path of the file within the archive
+  /**
+   * Inflates the file; resolves to null as soon as it grows past maxSize,
+   * so a highly compressed entry can't exhaust memory
+   */
+  read(maxSize: number): Promise<Buffer | null>;
+}
+
+/**
+ * Lists the files of a ZIP archive without inflating them
+ * Folders, macOS resource forks and hidden files are skipped
+ */
+export const listZipEntries = async (buffer: Buffer): Promise<IZipEntry[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+
+  return Object.values(zip.files)
+    .filter((file) => !file.dir && !isIgnoredEntry(file.name))
+    .map((file) => ({
+      path: file.name,
+      read: (maxSize: number) => readEntry(file, maxSize),
+    }));
+};
+
+const readEntry = (
+  file: JSZip.JSZipObject,
+  maxSize: number,
+): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer");
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        // Pausing stops the inflation once the stream's buffer is full
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+
+const isIgnoredEntry = (path: string): boolean =>
+  path.startsWith("__MACOSX/") ||
+  path.split("/").some((segment) => segment.startsWith("."));
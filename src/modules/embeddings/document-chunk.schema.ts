@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+
+export type DocumentChunkDocument = DocumentChunk & MongooseDocument;
+
+/**
+ * Document chunk schema
+ * A passage of a document's text with its embedding, the unit semantic search matches
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DocumentChunk {
+  @Prop({ type: Types.ObjectId, ref: "Document", required: true })
+  document: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  index: number; // Position of the chunk within the document
+
+  @Prop({ required: true })
+  text: string;
+
+  @Prop({ type: Number, default: null })
+  page: number | null; // 1-based page the chunk comes from; null for formats without pages
+
+  @Prop({ required: true })
+  model: string; // Provider and model of the embedding; vectors of other models aren't comparable
+
+  @Prop({ type: [Number], required: true })
+  embedding: number[]; // Unit-length vector, so cosine similarity is a dot product
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DocumentChunkSchema = SchemaFactory.createForClass(DocumentChunk);
+
+// Indexes for the similarity scan and per-document replacement
+DocumentChunkSchema.index({ owner: 1, model: 1 });
+DocumentChunkSchema.index({ document: 1, index: 1 });
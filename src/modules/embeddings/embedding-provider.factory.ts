@@ -0,0 +1,68 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../constants/system.messages";
+import { EmbeddingProvider } from "./interfaces";
+import {
+  DEFAULT_EMBEDDING_BASE_URL,
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_EMBEDDING_TIMEOUT_MS,
+  DEFAULT_LOCAL_EMBEDDING_DIMENSIONS,
+  EmbeddingProviderName,
+} from "./embeddings.constants";
+import {
+  LocalEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+} from "./providers";
+
+const logger = new Logger("EmbeddingProviderFactory");
+
+/**
+ * Creates the embedding provider selected by the EMBEDDING_PROVIDER env var
+ * Defaults to the OpenAI-compatible provider when EMBEDDING_BASE_URL is set, otherwise to the local provider
+ */
+export const createEmbeddingProvider = (
+  configService: ConfigService,
+): EmbeddingProvider => {
+  const baseURL = configService.get<string>("EMBEDDING_BASE_URL");
+  const providerName =
+    configService.get<string>("EMBEDDING_PROVIDER") ||
+    (baseURL
+      ? EmbeddingProviderName.OPENAI_COMPATIBLE
+      : EmbeddingProviderName.LOCAL);
+
+  let provider: EmbeddingProvider;
+  switch (providerName) {
+    case EmbeddingProviderName.OPENAI_COMPATIBLE:
+      provider = new OpenAICompatibleEmbeddingProvider({
+        baseURL: baseURL || DEFAULT_EMBEDDING_BASE_URL,
+        model:
+          configService.get<string>("EMBEDDING_MODEL") ||
+          DEFAULT_EMBEDDING_MODEL,
+        apiKey: configService.get<string>("EMBEDDING_API_KEY"),
+        timeoutMs: Number(
+          configService.get<string>(
+            "EMBEDDING_TIMEOUT_MS",
+            String(DEFAULT_EMBEDDING_TIMEOUT_MS),
+          ),
+        ),
+      });
+      break;
+    case EmbeddingProviderName.LOCAL:
+      provider = new LocalEmbeddingProvider(
+        Number(
+          configService.get<string>(
+            "EMBEDDING_DIMENSIONS",
+            String(DEFAULT_LOCAL_EMBEDDING_DIMENSIONS),
+          ),
+        ),
+      );
+      break;
+    default:
+      throw new Error(`${sysMsg.EMBEDDING_PROVIDER_UNKNOWN}: ${providerName}`);
+  }
+
+  logger.log(
+    `${sysMsg.EMBEDDING_PROVIDER_SELECTED}: ${provider.name} (${provider.model})`,
+  );
+  return provider;
+};
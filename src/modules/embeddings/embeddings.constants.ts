@@ -0,0 +1,20 @@
+/**
+ * Injection token for the configured EmbeddingProvider
+ */
+export const EMBEDDING_PROVIDER = "EMBEDDING_PROVIDER";
+
+/**
+ * Names of the available embedding providers, selected with the EMBEDDING_PROVIDER env var
+ */
+export enum EmbeddingProviderName {
+  OPENAI_COMPATIBLE = "openai-compatible",
+  LOCAL = "local",
+}
+
+export const DEFAULT_EMBEDDING_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+export const DEFAULT_EMBEDDING_TIMEOUT_MS = 30000;
+export const DEFAULT_LOCAL_EMBEDDING_DIMENSIONS = 256;
+export const DEFAULT_EMBEDDING_CHUNK_TOKENS = 200;
+export const DEFAULT_EMBEDDING_CHUNK_OVERLAP_TOKENS = 30;
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 32;
@@ -0,0 +1,33 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { DocumentChunk, DocumentChunkSchema } from "./document-chunk.schema";
+import { EMBEDDING_PROVIDER } from "./embeddings.constants";
+import { createEmbeddingProvider } from "./embedding-provider.factory";
+import { EmbeddingsService } from "./embeddings.service";
+import { DocumentChunkModelAction } from "./model-actions";
+
+/**
+ * Embeddings module
+ * Exposes the configured EmbeddingProvider under the EMBEDDING_PROVIDER token and the
+ * EmbeddingsService that maintains the document chunk vector index
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: DocumentChunk.name, schema: DocumentChunkSchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: EMBEDDING_PROVIDER,
+      useFactory: createEmbeddingProvider,
+      inject: [ConfigService],
+    },
+    EmbeddingsService,
+    DocumentChunkModelAction,
+  ],
+  exports: [EMBEDDING_PROVIDER, EmbeddingsService],
+})
+export class EmbeddingsModule {}
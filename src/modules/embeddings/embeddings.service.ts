@@ -0,0 +1,159 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Types } from "mongoose";
+import * as sysMsg from "../../constants/system.messages";
+import { EmbeddingProvider } from "./interfaces";
+import {
+  DEFAULT_EMBEDDING_BATCH_SIZE,
+  DEFAULT_EMBEDDING_CHUNK_OVERLAP_TOKENS,
+  DEFAULT_EMBEDDING_CHUNK_TOKENS,
+  EMBEDDING_PROVIDER,
+} from "./embeddings.constants";
+import { DocumentChunkModelAction, IChunkMatch } from "./model-actions";
+import { chunkText, splitByPageMarkers } from "../llm/utils";
+import { normalizeVector } from "./utils";
+
+/**
+ * Passage of a document to be embedded
+ */
+interface IPassage {
+  index: number;
+  text: string;
+  page: number | null;
+}
+
+/**
+ * Service for the document chunk vector index
+ * Splits documents into passages, embeds them with the configured provider and
+ * finds the passages closest in meaning to a query
+ */
+@Injectable()
+export class EmbeddingsService {
+  private readonly logger = new Logger(EmbeddingsService.name);
+  private readonly chunkTokens: number;
+  private readonly chunkOverlapTokens: number;
+  private readonly batchSize: number;
+
+  constructor(
+    @Inject(EMBEDDING_PROVIDER)
+    private readonly embeddingProvider: EmbeddingProvider,
+    private readonly documentChunkModelAction: DocumentChunkModelAction,
+    private readonly configService: ConfigService,
+  ) {
+    this.chunkTokens = Number(
+      this.configService.get<string>(
+        "EMBEDDING_CHUNK_TOKENS",
+        String(DEFAULT_EMBEDDING_CHUNK_TOKENS),
+      ),
+    );
+    this.chunkOverlapTokens = Number(
+      this.configService.get<string>(
+        "EMBEDDING_CHUNK_OVERLAP_TOKENS",
+        String(DEFAULT_EMBEDDING_CHUNK_OVERLAP_TOKENS),
+      ),
+    );
+    this.batchSize = Math.max(
+      Number(
+        this.configService.get<string>(
+          "EMBEDDING_BATCH_SIZE",
+          String(DEFAULT_EMBEDDING_BATCH_SIZE),
+        ),
+      ),
+      1,
+    );
+  }
+
+  /**
+   * Identifies the vectors of the configured provider and model
+   */
+  getModelId(): string {
+    return `${this.embeddingProvider.name}:${this.embeddingProvider.model}`;
+  }
+
+  /**
+   * Splits a document's text into passages, embeds them and replaces the
+   * document's stored chunks; returns the number of chunks
+   */
+  async indexDocument(
+    documentId: string,
+    ownerId: string,
+    text: string,
+  ): Promise<number> {
+    const passages = this.splitIntoPassages(text);
+
+    const embeddings: number[][] = [];
+    for (let start = 0; start < passages.length; start += this.batchSize) {
+      const batch = passages.slice(start, start + this.batchSize);
+      embeddings.push(
+        ...(await this.embeddingProvider.embed(
+          batch.map((passage) => passage.text),
+        )),
+      );
+    }
+
+    const model = this.getModelId();
+    const count = await this.documentChunkModelAction.replaceForDocument(
+      documentId,
+      passages.map((passage, i) => ({
+        owner: new Types.ObjectId(ownerId),
+        index: passage.index,
+        text: passage.text,
+        page: passage.page,
+        model,
+        embedding: normalizeVector(embeddings[i]),
+      })),
+    );
+
+    this.logger.log(
+      `${sysMsg.DOCUMENT_EMBEDDINGS_INDEXED}: ${count} for ${documentId}`,
+    );
+    return count;
+  }
+
+  /**
+   * Removes a document from the index
+   */
+  async deleteDocument(documentId: string): Promise<number> {
+    return this.documentChunkModelAction.deleteByDocument(documentId);
+  }
+
+  /**
+   * Returns the chunks of an owner closest in meaning to a query, best first
+   * Only chunks embedded with the configured model are compared; documentIds
+   * restricts the search to the chunks of those documents, and the chunks of
+   * excludeDocumentIds are skipped before the best matches are picked
+   */
+  async search(
+    ownerId: string,
+    query: string,
+    limit: number,
+    minScore?: number,
+    documentIds?: string[],
+    excludeDocumentIds?: string[],
+  ): Promise<IChunkMatch[]> {
+    const [vector] = await this.embeddingProvider.embed([query]);
+
+    return this.documentChunkModelAction.findNearest(
+      ownerId,
+      this.getModelId(),
+      normalizeVector(vector),
+      limit,
+      minScore,
+      documentIds,
+      excludeDocumentIds,
+    );
+  }
+
+  /**
+   * Chunks a text page by page, so every passage has a single page
+   */
+  private splitIntoPassages(text: string): IPassage[] {
+    let index = 0;
+    return splitByPageMarkers(text).flatMap(({ page, text: pageText }) =>
+      chunkText(pageText, {
+        maxTokens: this.chunkTokens,
+        overlapTokens: this.chunkOverlapTokens,
+      }).map((chunk) => ({ index: index++, text: chunk.text, page })),
+    );
+  }
+}
@@ -0,0 +1,9 @@
+export * from "./document-chunk.schema";
+export * from "./interfaces";
+export * from "./embeddings.constants";
+export * from "./embeddings.module";
+export * from "./embedding-provider.factory";
+export * from "./providers";
+export * from "./embeddings.service";
+export * from "./model-actions";
+export * from "./utils";
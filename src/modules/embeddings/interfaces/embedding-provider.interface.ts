@@ -0,0 +1,16 @@
+/**
+ * Contract implemented by every embedding provider
+ * Implementations turn texts into vectors whose cosine similarity reflects how close
+ * their meanings are; vectors of one provider and model are only comparable to each other
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier, e.g. "openai-compatible" */
+  readonly name: string;
+  /** Model used to compute the vectors */
+  readonly model: string;
+
+  /**
+   * Computes one vector per text, in the order of the texts
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1 @@
+export * from "./embedding-provider.interface";
@@ -0,0 +1,127 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import { DocumentChunk, DocumentChunkDocument } from "../document-chunk.schema";
+import { cosineSimilarity } from "../utils";
+
+/**
+ * Chunk matched by a similarity search, with its cosine similarity to the query
+ */
+export interface IChunkMatch {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+/**
+ * Model action for DocumentChunk entity
+ * Adds bulk replacement of a document's chunks and nearest-neighbour search
+ */
+@Injectable()
+export class DocumentChunkModelAction extends AbstractModelAction<DocumentChunk> {
+  constructor(
+    @InjectModel(DocumentChunk.name)
+    private documentChunkModel: Model<DocumentChunkDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(documentChunkModel);
+  }
+
+  /**
+   * Replaces the chunks of a document with a new set
+   */
+  async replaceForDocument(
+    documentId: string,
+    chunks: Omit<DocumentChunk, "document">[],
+  ): Promise<number> {
+    try {
+      await this.documentChunkModel.deleteMany({ document: documentId });
+      const created = await this.documentChunkModel.insertMany(
+        chunks.map((chunk) => ({
+          ...chunk,
+          document: new Types.ObjectId(documentId),
+        })),
+      );
+      return created.length;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_CREATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the chunks of a document
+   */
+  async deleteByDocument(documentId: string): Promise<number> {
+    try {
+      const result = await this.documentChunkModel.deleteMany({
+        document: documentId,
+      });
+      return result.deletedCount;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_DELETE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the chunks of an owner most similar to a vector, best first
+   * Scans the owner's chunks of the given model (optionally of the given
+   * documents only, or leaving out the excluded documents) with a cursor,
+   * keeping only the best `limit` matches in memory
+   */
+  async findNearest(
+    ownerId: string,
+    model: string,
+    vector: number[],
+    limit: number,
+    minScore = -1,
+    documentIds?: string[],
+    excludeDocumentIds: string[] = [],
+  ): Promise<IChunkMatch[]> {
+    const matches: IChunkMatch[] = [];
+
+    try {
+      const cursor = this.documentChunkModel
+        .find({
+          owner: ownerId,
+          model,
+          document: {
+            ...(documentIds && { $in: documentIds }),
+            $nin: excludeDocumentIds,
+          },
+        })
+        .lean<DocumentChunk>()
+        .cursor();
+
+      for await (const chunk of cursor) {
+        const score = cosineSimilarity(vector, chunk.embedding);
+        if (score < minScore) continue;
+        if (matches.length === limit && score <= matches[limit - 1].score) {
+          continue;
+        }
+
+        // Insert in order, dropping the worst match once the list is full
+        let position = matches.findIndex((match) => score > match.score);
+        if (position === -1) position = matches.length;
+        matches.splice(position, 0, { chunk, score });
+        if (matches.length > limit) matches.pop();
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_FIND_FAILED}: ${errorMessage}`,
+      );
+    }
+
+    return matches;
+  }
+}
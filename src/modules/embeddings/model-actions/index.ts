@@ -0,0 +1 @@
+export * from "./document-chunk.action";
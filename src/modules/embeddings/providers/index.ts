@@ -0,0 +1,2 @@
+export * from "./openai-compatible-embedding.provider";
+export * from "./local-embedding.provider";
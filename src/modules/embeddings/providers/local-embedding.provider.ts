@@ -0,0 +1,80 @@
+import { EmbeddingProvider } from "../interfaces";
+import {
+  DEFAULT_LOCAL_EMBEDDING_DIMENSIONS,
+  EmbeddingProviderName,
+} from "../embeddings.constants";
+import { tokenizeTerms } from "../../llm/utils";
+import { normalizeVector } from "../utils";
+
+/**
+ * Weight of a character trigram relative to the word it was taken from
+ */
+const TRIGRAM_WEIGHT = 0.3;
+
+/**
+ * Offline embedding provider based on feature hashing
+ * Stemmed words and their character trigrams are hashed into a fixed number of
+ * dimensions, so texts sharing words and word forms end up close together.
+ * Deterministic and free, but lexical: unlike a model, it can't match synonyms
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = EmbeddingProviderName.LOCAL;
+  readonly model: string;
+
+  constructor(
+    private readonly dimensions: number = DEFAULT_LOCAL_EMBEDDING_DIMENSIONS,
+  ) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const term of tokenizeTerms(text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [term, count] of counts) {
+      // Sublinear term frequency keeps repeated words from dominating
+      const weight = 1 + Math.log(count);
+      this.addFeature(vector, `w:${term}`, weight);
+
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(
+          vector,
+          `g:${padded.substring(i, i + 3)}`,
+          weight * TRIGRAM_WEIGHT,
+        );
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  /**
+   * Adds a feature to its hashed dimension; the sign bit spreads collisions
+   * so they cancel out instead of piling up
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = hash >>> 31 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,89 @@
+import { InternalServerErrorException, Logger } from "@nestjs/common";
+import axios, { AxiosInstance } from "axios";
+import * as sysMsg from "../../../constants/system.messages";
+import { EmbeddingProvider } from "../interfaces";
+import { EmbeddingProviderName } from "../embeddings.constants";
+
+/**
+ * Connection options for an OpenAI-compatible embeddings API
+ */
+export interface IOpenAICompatibleEmbeddingOptions {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Item of an embeddings response
+ */
+interface IEmbeddingItem {
+  index: number;
+  embedding: number[];
+}
+
+/**
+ * Embedding provider for any server exposing the OpenAI embeddings API
+ * (e.g. OpenAI itself, or a local Ollama or llama.cpp server)
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = EmbeddingProviderName.OPENAI_COMPATIBLE;
+  readonly model: string;
+  private readonly logger = new Logger(OpenAICompatibleEmbeddingProvider.name);
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(options: IOpenAICompatibleEmbeddingOptions) {
+    this.model = options.model;
+
+    this.axiosInstance = axios.create({
+      baseURL: options.baseURL,
+      headers: {
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        "Content-Type": "application/json",
+      },
+      timeout: options.timeoutMs,
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+    });
+  }
+
+  /**
+   * Embeds all texts in a single request
+   * Any failure is logged and reported as EMBEDDING_REQUEST_FAILED
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    try {
+      const response = await this.axiosInstance.post(
+        "/embeddings",
+        { model: this.model, input: texts },
+        { validateStatus: (status) => status < 500 }, // Don't throw on 4xx errors
+      );
+      if (response.status >= 400) {
+        throw new Error(
+          response.data?.error?.message ||
+            `${this.name} API error: ${response.status}`,
+        );
+      }
+
+      const items: IEmbeddingItem[] = response.data?.data;
+      if (
+        !Array.isArray(items) ||
+        items.length !== texts.length ||
+        items.some((item) => !Array.isArray(item?.embedding))
+      ) {
+        throw new Error(sysMsg.EMBEDDING_RESPONSE_INVALID);
+      }
+
+      // Servers may return the items out of order; index refers to the input
+      return [...items]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    } catch (error) {
+      const errorMsg = error.response?.data?.error?.message || error.message;
+      this.logger.error(`${sysMsg.EMBEDDING_REQUEST_FAILED}: ${errorMsg}`);
+      throw new InternalServerErrorException(sysMsg.EMBEDDING_REQUEST_FAILED);
+    }
+  }
+}
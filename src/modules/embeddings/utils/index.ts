@@ -0,0 +1 @@
+export * from "./vector-math";
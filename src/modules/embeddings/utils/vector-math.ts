@@ -0,0 +1,24 @@
+/**
+ * Scales a vector to unit length, so cosine similarity becomes a dot product
+ * The zero vector is returned unchanged
+ */
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+};
+
+/**
+ * Cosine similarity of two vectors of the same length, from -1 to 1
+ * Returns 0 when either vector is the zero vector
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
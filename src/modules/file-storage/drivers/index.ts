@@ -0,0 +1,3 @@
+export * from "./minio.driver";
+export * from "./local-disk.driver";
+export * from "./memory.driver";
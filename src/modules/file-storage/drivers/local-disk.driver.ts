@@ -0,0 +1,87 @@
+import { Logger } from "@nestjs/common";
+import * as crypto from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import * as sysMsg from "../../../constants/system.messages";
+import { StorageDriver } from "../interfaces";
+import { StorageDriverName } from "../file-storage.constants";
+
+/**
+ * Storage driver that keeps objects as files in a local directory
+ * Object metadata is not persisted; the document record already holds it
+ */
+export class LocalDiskStorageDriver implements StorageDriver {
+  readonly name: string = StorageDriverName.LOCAL;
+  readonly rootDir: string;
+  private readonly logger = new Logger(LocalDiskStorageDriver.name);
+
+  constructor(storagePath: string) {
+    this.rootDir = path.resolve(storagePath);
+  }
+
+  /**
+   * Ensures the storage directory exists
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    this.logger.log(`${sysMsg.STORAGE_DIRECTORY_ENSURED}: ${this.rootDir}`);
+  }
+
+  /**
+   * Writes to a temporary file first so readers never see a partial object
+   */
+  async putObject(objectKey: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(objectKey);
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+
+    try {
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async getObject(objectKey: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(objectKey));
+  }
+
+  /**
+   * Opens the file up front so a missing object rejects instead of
+   * failing later on the stream
+   */
+  async getObjectStream(objectKey: string): Promise<Readable> {
+    const handle = await fs.open(this.resolvePath(objectKey), "r");
+    return handle.createReadStream();
+  }
+
+  async removeObject(objectKey: string): Promise<void> {
+    await fs.rm(this.resolvePath(objectKey), { force: true });
+  }
+
+  async exists(objectKey: string): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.resolvePath(objectKey));
+      return stats.isFile();
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Maps an object key to a path inside the storage directory,
+   * rejecting keys that would escape it (e.g. "../secrets")
+   */
+  private resolvePath(objectKey: string): string {
+    const filePath = path.resolve(this.rootDir, objectKey);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`${sysMsg.STORAGE_INVALID_OBJECT_KEY}: ${objectKey}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,59 @@
+import * as sysMsg from "../../../constants/system.messages";
+import { Readable } from "stream";
+import { IStoredObjectMetadata, StorageDriver } from "../interfaces";
+import { StorageDriverName } from "../file-storage.constants";
+
+/**
+ * Object stored by the in-memory driver
+ */
+interface IMemoryObject {
+  data: Buffer;
+  metadata: IStoredObjectMetadata;
+}
+
+/**
+ * Storage driver that keeps objects in process memory
+ * Contents are lost on restart, so it is only meant for tests and local experiments
+ */
+export class MemoryStorageDriver implements StorageDriver {
+  readonly name: string = StorageDriverName.MEMORY;
+  private readonly objects = new Map<string, IMemoryObject>();
+
+  async initialize(): Promise<void> {}
+
+  async putObject(
+    objectKey: string,
+    data: Buffer,
+    metadata: IStoredObjectMetadata,
+  ): Promise<void> {
+    // Copy the buffer so later mutations by the caller don't leak in
+    this.objects.set(objectKey, { data: Buffer.from(data), metadata });
+  }
+
+  async getObject(objectKey: string): Promise<Buffer> {
+    const object = this.objects.get(objectKey);
+    if (!object) {
+      throw new Error(`${sysMsg.FILE_NOT_FOUND}: ${objectKey}`);
+    }
+    return Buffer.from(object.data);
+  }
+
+  async getObjectStream(objectKey: string): Promise<Readable> {
+    return Readable.from(await this.getObject(objectKey));
+  }
+
+  async removeObject(objectKey: string): Promise<void> {
+    this.objects.delete(objectKey);
+  }
+
+  async exists(objectKey: string): Promise<boolean> {
+    return this.objects.has(objectKey);
+  }
+
+  /**
+   * Returns the metadata stored with an object, if any
+   */
+  getMetadata(objectKey: string): IStoredObjectMetadata | undefined {
+    return this.objects.get(objectKey)?.metadata;
+  }
+}
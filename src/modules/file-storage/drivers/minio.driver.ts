@@ -0,0 +1,138 @@
+import { Logger } from "@nestjs/common";
+import * as Client from "minio";
+import { Readable } from "stream";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  IPresignedUrlOptions,
+  IStoredObjectMetadata,
+  StorageDriver,
+} from "../interfaces";
+import { buildContentDisposition } from "../utils";
+import { StorageDriverName } from "../file-storage.constants";
+
+/**
+ * Connection options for a MinIO (or other S3-compatible) server
+ */
+export interface IMinioDriverOptions {
+  endpoint: string;
+  accessKey: string;
+  secretKey: string;
+  bucket: string;
+}
+
+/**
+ * Storage driver backed by a MinIO bucket
+ */
+export class MinioStorageDriver implements StorageDriver {
+  readonly name: string = StorageDriverName.MINIO;
+  readonly bucket: string;
+  private readonly minioClient: Client.Client;
+  private readonly logger = new Logger(MinioStorageDriver.name);
+
+  constructor(options: IMinioDriverOptions) {
+    this.bucket = options.bucket;
+
+    try {
+      // Parse endpoint to get host and port
+      const url = new URL(options.endpoint);
+      const useSSL = url.protocol === "https:";
+      const port = url.port ? parseInt(url.port) : useSSL ? 443 : 9000;
+
+      this.minioClient = new Client.Client({
+        endPoint: url.hostname,
+        port: port,
+        useSSL: useSSL,
+        accessKey: options.accessKey,
+        secretKey: options.secretKey,
+      });
+    } catch (error) {
+      this.logger.error(`${sysMsg.MINIO_CONNECTION_FAILED}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Ensures the bucket exists
+   */
+  async initialize(): Promise<void> {
+    const bucketExists = await this.minioClient.bucketExists(this.bucket);
+
+    if (!bucketExists) {
+      await this.minioClient.makeBucket(this.bucket, "us-east-1");
+      this.logger.log(`${sysMsg.MINIO_BUCKET_CREATED}: ${this.bucket}`);
+    } else {
+      this.logger.log(`${sysMsg.MINIO_BUCKET_EXISTS}: ${this.bucket}`);
+    }
+
+    this.logger.log(sysMsg.MINIO_INITIALIZED);
+  }
+
+  async putObject(
+    objectKey: string,
+    data: Buffer,
+    metadata: IStoredObjectMetadata,
+  ): Promise<void> {
+    await this.minioClient.putObject(
+      this.bucket,
+      objectKey,
+      data,
+      data.length,
+      {
+        "Content-Type": metadata.contentType,
+        "X-Original-Name": metadata.originalName,
+      },
+    );
+  }
+
+  async getObject(objectKey: string): Promise<Buffer> {
+    const dataStream = await this.minioClient.getObject(this.bucket, objectKey);
+    const chunks: Buffer[] = [];
+
+    return new Promise((resolve, reject) => {
+      dataStream.on("data", (chunk) => chunks.push(chunk));
+      dataStream.on("end", () => resolve(Buffer.concat(chunks)));
+      dataStream.on("error", reject);
+    });
+  }
+
+  async getObjectStream(objectKey: string): Promise<Readable> {
+    return this.minioClient.getObject(this.bucket, objectKey);
+  }
+
+  /**
+   * Presigns a GET request that also overrides the response headers,
+   * so the browser sees the original file name and type
+   */
+  async getPresignedUrl(
+    objectKey: string,
+    options: IPresignedUrlOptions,
+  ): Promise<string> {
+    return this.minioClient.presignedGetObject(
+      this.bucket,
+      objectKey,
+      options.expirySeconds,
+      {
+        "response-content-type": options.contentType,
+        "response-content-disposition": buildContentDisposition(
+          options.fileName,
+        ),
+      },
+    );
+  }
+
+  async removeObject(objectKey: string): Promise<void> {
+    await this.minioClient.removeObject(this.bucket, objectKey);
+  }
+
+  async exists(objectKey: string): Promise<boolean> {
+    try {
+      await this.minioClient.statObject(this.bucket, objectKey);
+      return true;
+    } catch (error) {
+      if (error.code === "NotFound") {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Injection token for the configured StorageDriver
+ */
+export const STORAGE_DRIVER = "STORAGE_DRIVER";
+
+/**
+ * Names of the available storage drivers, selected with the STORAGE_DRIVER env var
+ */
+export enum StorageDriverName {
+  MINIO = "minio",
+  LOCAL = "local",
+  MEMORY = "memory",
+}
+
+export const DEFAULT_MINIO_BUCKET = "aidocs";
+export const DEFAULT_STORAGE_PATH = "./uploads";
+export const DEFAULT_PRESIGNED_URL_TTL_SECONDS = 300;
@@ -1,8 +1,24 @@
 import { Module } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { STORAGE_DRIVER } from "./file-storage.constants";
 import { FileStorageService } from "./file-storage.service";
+import { createStorageDriver } from "./storage-driver.factory";
 
+/**
+ * File storage module
+ * Exposes the configured StorageDriver under the STORAGE_DRIVER token and the
+ * FileStorageService used by the rest of the app
+ */
 @Module({
-  providers: [FileStorageService],
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: createStorageDriver,
+      inject: [ConfigService],
+    },
+    FileStorageService,
+  ],
   exports: [FileStorageService],
 })
 export class FileStorageModule {}
@@ -1,76 +1,58 @@
 import {
+  BadRequestException,
+  Inject,
   Injectable,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
+  OnModuleInit,
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import * as Client from "minio";
 import * as crypto from "crypto";
 import * as path from "path";
+import { Readable } from "stream";
 import * as sysMsg from "../../constants/system.messages";
+import { StorageDriver } from "./interfaces";
+import {
+  DEFAULT_PRESIGNED_URL_TTL_SECONDS,
+  STORAGE_DRIVER,
+} from "./file-storage.constants";
+
+/**
+ * Short-lived download URL issued by the storage backend
+ */
+export interface IPresignedDownload {
+  url: string;
+  expiresAt: Date;
+}
 
 /**
- * Service for handling file storage operations using MinIO
- * Supports MinIO object storage with fallback to local storage
+ * Service for handling file storage operations
+ * Delegates to the configured StorageDriver (MinIO, local disk or memory)
  */
 @Injectable()
-export class FileStorageService {
-  private readonly minioClient: Client.Client;
-  private readonly bucket: string;
-  private readonly useMinIO: boolean;
+export class FileStorageService implements OnModuleInit {
   private readonly logger = new Logger(FileStorageService.name);
-
-  constructor(private configService: ConfigService) {
-    const minioEndpoint = this.configService.get<string>("MINIO_ENDPOINT");
-    const minioAccessKey = this.configService.get<string>("MINIO_ACCESS_KEY");
-    const minioSecretKey = this.configService.get<string>("MINIO_SECRET_KEY");
-    this.bucket = this.configService.get<string>("MINIO_BUCKET") || "aidocs";
-
-    // Check if MinIO is configured
-    this.useMinIO = !!(minioEndpoint && minioAccessKey && minioSecretKey);
-
-    if (this.useMinIO) {
-      try {
-        // Parse endpoint to get host and port
-        const url = new URL(minioEndpoint);
-        const useSSL = url.protocol === "https:";
-        const port = url.port ? parseInt(url.port) : useSSL ? 443 : 9000;
-
-        this.minioClient = new Client.Client({
-          endPoint: url.hostname,
-          port: port,
-          useSSL: useSSL,
-          accessKey: minioAccessKey,
-          secretKey: minioSecretKey,
-        });
-
-        this.initializeMinIO();
-      } catch (error) {
-        this.logger.error(
-          `${sysMsg.MINIO_CONNECTION_FAILED}: ${error.message}`,
-        );
-        throw new InternalServerErrorException(sysMsg.STORAGE_SETUP_FAILED);
-      }
-    } else {
-      this.logger.warn("MinIO not configured. Using local storage fallback.");
-    }
+  private readonly presignedUrlTtlSeconds: number;
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+    private readonly configService: ConfigService,
+  ) {
+    this.presignedUrlTtlSeconds = Number(
+      this.configService.get<string>(
+        "STORAGE_PRESIGNED_URL_TTL_SECONDS",
+        String(DEFAULT_PRESIGNED_URL_TTL_SECONDS),
+      ),
+    );
   }
 
   /**
-   * Initializes MinIO by ensuring the bucket exists
+   * Prepares the storage backend before the app starts serving requests
    */
-  private async initializeMinIO(): Promise<void> {
+  async onModuleInit(): Promise<void> {
     try {
-      const bucketExists = await this.minioClient.bucketExists(this.bucket);
-
-      if (!bucketExists) {
-        await this.minioClient.makeBucket(this.bucket, "us-east-1");
-        this.logger.log(`${sysMsg.MINIO_BUCKET_CREATED}: ${this.bucket}`);
-      } else {
-        this.logger.log(`${sysMsg.MINIO_BUCKET_EXISTS}: ${this.bucket}`);
-      }
-
-      this.logger.log(sysMsg.MINIO_INITIALIZED);
+      await this.storageDriver.initialize();
     } catch (error) {
       this.logger.error(`${sysMsg.STORAGE_SETUP_FAILED}: ${error.message}`);
       throw new InternalServerErrorException(sysMsg.STORAGE_SETUP_FAILED);
@@ -78,88 +60,130 @@ export class FileStorageService {
   }
 
   /**
-   * Saves a file to MinIO and returns the object key
+   * Saves a file and returns its object key
    */
-  async saveFile(file: Express.Multer.File): Promise<string> {
+  async saveFile(
+    file: Pick<Express.Multer.File, "originalname" | "buffer" | "mimetype">,
+  ): Promise<string> {
     const fileExtension = path.extname(file.originalname);
     const uniqueFilename = `${crypto.randomBytes(16).toString("hex")}-${Date.now()}${fileExtension}`;
 
     try {
-      const metadata = {
-        "Content-Type": file.mimetype,
-        "X-Original-Name": file.originalname,
-      };
-
-      await this.minioClient.putObject(
-        this.bucket,
-        uniqueFilename,
-        file.buffer,
-        file.size,
-        metadata,
-      );
+      await this.storageDriver.putObject(uniqueFilename, file.buffer, {
+        contentType: file.mimetype,
+        originalName: file.originalname,
+      });
 
       this.logger.log(`${sysMsg.FILE_SAVED}: ${uniqueFilename}`);
       return uniqueFilename;
     } catch (error) {
-      this.logger.error(`${sysMsg.MINIO_UPLOAD_FAILED}: ${error.message}`);
+      this.logger.error(
+        `${sysMsg.FILE_SAVE_FAILED} (${this.storageDriver.name}): ${error.message}`,
+      );
       throw new InternalServerErrorException(sysMsg.FILE_SAVE_FAILED);
     }
   }
 
   /**
-   * Deletes a file from MinIO
+   * Deletes a file
    */
   async deleteFile(objectKey: string): Promise<void> {
     try {
-      await this.minioClient.removeObject(this.bucket, objectKey);
+      await this.storageDriver.removeObject(objectKey);
       this.logger.log(`${sysMsg.FILE_DELETED}: ${objectKey}`);
     } catch (error) {
-      this.logger.error(`${sysMsg.MINIO_DELETE_FAILED}: ${error.message}`);
+      this.logger.error(
+        `${sysMsg.FILE_DELETE_FAILED} (${this.storageDriver.name}): ${error.message}`,
+      );
       throw new InternalServerErrorException(sysMsg.FILE_DELETE_FAILED);
     }
   }
 
   /**
-   * Checks if a file exists in MinIO
+   * Checks if a file exists
    */
   async fileExists(objectKey: string): Promise<boolean> {
+    return this.storageDriver.exists(objectKey);
+  }
+
+  /**
+   * Gets a file as a buffer
+   */
+  async getFile(objectKey: string): Promise<Buffer> {
+    if (!(await this.fileExists(objectKey))) {
+      throw new NotFoundException(sysMsg.FILE_NOT_FOUND);
+    }
+
     try {
-      await this.minioClient.statObject(this.bucket, objectKey);
-      return true;
+      return await this.storageDriver.getObject(objectKey);
     } catch (error) {
-      if (error.code === "NotFound") {
-        return false;
-      }
-      throw error;
+      this.logger.error(
+        `${sysMsg.FILE_READ_FAILED} (${this.storageDriver.name}): ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.FILE_READ_FAILED);
     }
   }
 
   /**
-   * Gets a file from MinIO as a buffer
+   * Opens a read stream for a file
    */
-  async getFile(objectKey: string): Promise<Buffer> {
+  async getFileStream(objectKey: string): Promise<Readable> {
+    if (!(await this.fileExists(objectKey))) {
+      throw new NotFoundException(sysMsg.FILE_NOT_FOUND);
+    }
+
     try {
-      const dataStream = await this.minioClient.getObject(
-        this.bucket,
-        objectKey,
+      return await this.storageDriver.getObjectStream(objectKey);
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.FILE_READ_FAILED} (${this.storageDriver.name}): ${error.message}`,
       );
-      const chunks: Buffer[] = [];
+      throw new InternalServerErrorException(sysMsg.FILE_READ_FAILED);
+    }
+  }
 
-      return new Promise((resolve, reject) => {
-        dataStream.on("data", (chunk) => chunks.push(chunk));
-        dataStream.on("end", () => resolve(Buffer.concat(chunks)));
-        dataStream.on("error", reject);
+  /**
+   * Whether the active driver can issue presigned download URLs
+   */
+  supportsPresignedUrls(): boolean {
+    return typeof this.storageDriver.getPresignedUrl === "function";
+  }
+
+  /**
+   * Issues a short-lived URL that downloads the file straight from the storage backend
+   */
+  async getPresignedUrl(
+    objectKey: string,
+    fileName: string,
+    contentType: string,
+  ): Promise<IPresignedDownload> {
+    if (!this.supportsPresignedUrls()) {
+      throw new BadRequestException(sysMsg.PRESIGNED_URL_UNSUPPORTED);
+    }
+
+    try {
+      const url = await this.storageDriver.getPresignedUrl(objectKey, {
+        expirySeconds: this.presignedUrlTtlSeconds,
+        fileName,
+        contentType,
       });
+
+      return {
+        url,
+        expiresAt: new Date(Date.now() + this.presignedUrlTtlSeconds * 1000),
+      };
     } catch (error) {
-      this.logger.error(`${sysMsg.FILE_SAVE_FAILED}: ${error.message}`);
-      throw new InternalServerErrorException(sysMsg.FILE_SAVE_FAILED);
+      this.logger.error(
+        `${sysMsg.PRESIGNED_URL_FAILED} (${this.storageDriver.name}): ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.PRESIGNED_URL_FAILED);
     }
   }
 
   /**
-   * Gets the bucket name for reference
+   * Gets the name of the active storage driver
    */
-  getBucketName(): string {
-    return this.bucket;
+  getDriverName(): string {
+    return this.storageDriver.name;
   }
 }
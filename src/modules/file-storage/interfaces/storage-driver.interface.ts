@@ -0,0 +1,70 @@
+import { Readable } from "stream";
+
+/**
+ * Metadata stored alongside an object
+ */
+export interface IStoredObjectMetadata {
+  contentType: string;
+  originalName: string;
+}
+
+/**
+ * Options for a presigned download URL
+ */
+export interface IPresignedUrlOptions {
+  expirySeconds: number;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * Contract implemented by every storage backend
+ * Inject with the STORAGE_DRIVER token; the concrete driver is chosen from config
+ */
+export interface StorageDriver {
+  /** Driver name, e.g. "minio" */
+  readonly name: string;
+
+  /**
+   * Prepares the backend (bucket, directory, ...) before the first request
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Stores an object under the given key, replacing any existing one
+   */
+  putObject(
+    objectKey: string,
+    data: Buffer,
+    metadata: IStoredObjectMetadata,
+  ): Promise<void>;
+
+  /**
+   * Reads an object; rejects when it does not exist
+   */
+  getObject(objectKey: string): Promise<Buffer>;
+
+  /**
+   * Opens a read stream for an object; rejects when it does not exist
+   */
+  getObjectStream(objectKey: string): Promise<Readable>;
+
+  /**
+   * Issues a short-lived URL that downloads the object directly from the backend
+   * Only implemented by drivers that can serve files themselves (e.g. MinIO)
+   */
+  getPresignedUrl?(
+    objectKey: string,
+    options: IPresignedUrlOptions,
+  ): Promise<string>;
+
+  /**
+   * Removes an object; removing a missing object is not an error
+   */
+  removeObject(objectKey: string): Promise<void>;
+
+  /**
+   * Checks whether an object exists
+   */
+  exists(objectKey: string): Promise<boolean>;
+}
@@ -0,0 +1,62 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../constants/system.messages";
+import { StorageDriver } from "./interfaces";
+import {
+  DEFAULT_MINIO_BUCKET,
+  DEFAULT_STORAGE_PATH,
+  StorageDriverName,
+} from "./file-storage.constants";
+import {
+  LocalDiskStorageDriver,
+  MemoryStorageDriver,
+  MinioStorageDriver,
+} from "./drivers";
+
+const logger = new Logger("StorageDriverFactory");
+
+/**
+ * Creates the storage driver selected by the STORAGE_DRIVER env var
+ * Defaults to MinIO when it is configured, otherwise to the local disk
+ */
+export const createStorageDriver = (
+  configService: ConfigService,
+): StorageDriver => {
+  const endpoint = configService.get<string>("MINIO_ENDPOINT");
+  const accessKey = configService.get<string>("MINIO_ACCESS_KEY");
+  const secretKey = configService.get<string>("MINIO_SECRET_KEY");
+  const minioConfigured = !!(endpoint && accessKey && secretKey);
+
+  const driverName =
+    configService.get<string>("STORAGE_DRIVER") ||
+    (minioConfigured ? StorageDriverName.MINIO : StorageDriverName.LOCAL);
+
+  let driver: StorageDriver;
+  switch (driverName) {
+    case StorageDriverName.MINIO:
+      if (!minioConfigured) {
+        throw new Error(sysMsg.STORAGE_MINIO_NOT_CONFIGURED);
+      }
+      driver = new MinioStorageDriver({
+        endpoint,
+        accessKey,
+        secretKey,
+        bucket:
+          configService.get<string>("MINIO_BUCKET") || DEFAULT_MINIO_BUCKET,
+      });
+      break;
+    case StorageDriverName.LOCAL:
+      driver = new LocalDiskStorageDriver(
+        configService.get<string>("STORAGE_PATH") || DEFAULT_STORAGE_PATH,
+      );
+      break;
+    case StorageDriverName.MEMORY:
+      driver = new MemoryStorageDriver();
+      break;
+    default:
+      throw new Error(`${sysMsg.STORAGE_DRIVER_UNKNOWN}: ${driverName}`);
+  }
+
+  logger.log(`${sysMsg.STORAGE_DRIVER_SELECTED}: ${driver.name}`);
+  return driver;
+};
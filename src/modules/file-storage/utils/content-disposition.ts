@@ -0,0 +1,18 @@
+/**
+ * Builds a Content-Disposition header value for a file name
+ * Non-ASCII names are sent via the RFC 5987 filename* parameter with an ASCII fallback
+ */
+export const buildContentDisposition = (
+  fileName: string,
+  disposition: "attachment" | "inline" = "attachment",
+): string => {
+  const asciiName = fileName
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/["\\]/g, "_");
+  const encodedName = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+};
@@ -0,0 +1,32 @@
+import { DocumentType } from "../../documents/document.schema";
+
+/**
+ * Value types supported by extraction fields
+ */
+export type ExtractionFieldType =
+  | "string"
+  | "number"
+  | "currency"
+  | "date"
+  | "string[]"
+  | "lineItems";
+
+/**
+ * A single metadata field the LLM should extract
+ */
+export interface IExtractionField {
+  name: string;
+  type: ExtractionFieldType;
+  description: string;
+  required?: boolean;
+  /** Additional format check for string values, e.g. email addresses */
+  pattern?: RegExp;
+}
+
+/**
+ * Fields extracted for one document type
+ */
+export interface IExtractionSchema {
+  documentType: DocumentType;
+  fields: IExtractionField[];
+}
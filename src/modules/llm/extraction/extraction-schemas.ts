@@ -0,0 +1,241 @@
+import { DocumentType } from "../../documents/document.schema";
+import {
+  IExtractionField,
+  IExtractionSchema,
+} from "./extraction-schema.interface";
+
+/**
+ * Fields extracted for every document type
+ * Search and date filters rely on date, sender and keywords
+ */
+const GENERAL_FIELDS: IExtractionField[] = [
+  {
+    name: "date",
+    type: "date",
+    description: "The primary date of the document",
+  },
+  {
+    name: "sender",
+    type: "string",
+    description: "The name or organization that created or sent the document",
+  },
+  {
+    name: "keywords",
+    type: "string[]",
+    description: "Up to 5 key terms or concepts from the document",
+  },
+];
+
+const AMOUNT_FIELDS: IExtractionField[] = [
+  {
+    name: "totalAmount",
+    type: "number",
+    description: "The total monetary amount as a plain number (e.g. 1234.5)",
+  },
+  {
+    name: "currency",
+    type: "currency",
+    description: "ISO 4217 currency code of the total amount (e.g. USD)",
+  },
+];
+
+const INVOICE_SCHEMA: IExtractionSchema = {
+  documentType: DocumentType.INVOICE,
+  fields: [
+    ...GENERAL_FIELDS,
+    {
+      name: "invoiceNumber",
+      type: "string",
+      description: "The invoice number or reference",
+      required: true,
+    },
+    {
+      name: "invoiceDate",
+      type: "date",
+      description: "The date the invoice was issued",
+    },
+    {
+      name: "dueDate",
+      type: "date",
+      description: "The payment due date",
+    },
+    {
+      name: "vendorName",
+      type: "string",
+      description: "The company or person issuing the invoice",
+      required: true,
+    },
+    {
+      name: "vendorAddress",
+      type: "string",
+      description: "The postal address of the vendor",
+    },
+    {
+      name: "recipient",
+      type: "string",
+      description: "The customer the invoice is billed to",
+    },
+    {
+      name: "lineItems",
+      type: "lineItems",
+      description:
+        "The billed items in invoice order, each with its description, quantity, unit price and line amount",
+    },
+    {
+      name: "subtotal",
+      type: "number",
+      description: "The total before tax as a plain number",
+    },
+    {
+      name: "taxAmount",
+      type: "number",
+      description: "The total tax (VAT, GST, sales tax) as a plain number",
+    },
+    { ...AMOUNT_FIELDS[0], required: true },
+    AMOUNT_FIELDS[1],
+  ],
+};
+
+const CV_SCHEMA: IExtractionSchema = {
+  documentType: DocumentType.CV,
+  fields: [
+    ...GENERAL_FIELDS,
+    {
+      name: "fullName",
+      type: "string",
+      description: "The candidate's full name",
+      required: true,
+    },
+    {
+      name: "email",
+      type: "string",
+      description: "The candidate's email address",
+      pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    },
+    {
+      name: "phone",
+      type: "string",
+      description: "The candidate's phone number",
+    },
+    {
+      name: "education",
+      type: "string[]",
+      description: "Degrees or qualifications, one entry per institution",
+    },
+    {
+      name: "experience",
+      type: "string[]",
+      description: "Positions held, one entry per role (title and company)",
+    },
+    {
+      name: "skills",
+      type: "string[]",
+      description: "Professional skills",
+    },
+  ],
+};
+
+const CONTRACT_SCHEMA: IExtractionSchema = {
+  documentType: DocumentType.CONTRACT,
+  fields: [
+    ...GENERAL_FIELDS,
+    {
+      name: "parties",
+      type: "string[]",
+      description: "The parties entering into the contract",
+      required: true,
+    },
+    {
+      name: "effectiveDate",
+      type: "date",
+      description: "The date the contract takes effect",
+    },
+    {
+      name: "expirationDate",
+      type: "date",
+      description: "The date the contract ends",
+    },
+    {
+      name: "governingLaw",
+      type: "string",
+      description: "The jurisdiction whose law governs the contract",
+    },
+    {
+      name: "subject",
+      type: "string",
+      description: "What the contract is about, in a few words",
+    },
+    ...AMOUNT_FIELDS,
+  ],
+};
+
+const LETTER_SCHEMA: IExtractionSchema = {
+  documentType: DocumentType.LETTER,
+  fields: [
+    ...GENERAL_FIELDS.map((field) =>
+      field.name === "sender" ? { ...field, required: true } : field,
+    ),
+    {
+      name: "recipient",
+      type: "string",
+      description: "The person or organization the letter is addressed to",
+    },
+    {
+      name: "subject",
+      type: "string",
+      description: "The subject of the letter",
+    },
+  ],
+};
+
+const GENERAL_SCHEMA_FIELDS: IExtractionField[] = [
+  ...GENERAL_FIELDS,
+  {
+    name: "author",
+    type: "string",
+    description: "The author of the document",
+  },
+  ...AMOUNT_FIELDS,
+];
+
+/**
+ * Extraction schema for every document type
+ * Invoices, CVs, contracts and letters get a second, type-specific extraction
+ * pass; the other types keep the general metadata from the first pass
+ */
+export const EXTRACTION_SCHEMAS: Record<DocumentType, IExtractionSchema> = {
+  [DocumentType.INVOICE]: INVOICE_SCHEMA,
+  [DocumentType.CV]: CV_SCHEMA,
+  [DocumentType.CONTRACT]: CONTRACT_SCHEMA,
+  [DocumentType.LETTER]: LETTER_SCHEMA,
+  [DocumentType.REPORT]: {
+    documentType: DocumentType.REPORT,
+    fields: GENERAL_SCHEMA_FIELDS,
+  },
+  [DocumentType.ARTICLE]: {
+    documentType: DocumentType.ARTICLE,
+    fields: GENERAL_SCHEMA_FIELDS,
+  },
+  [DocumentType.OTHER]: {
+    documentType: DocumentType.OTHER,
+    fields: GENERAL_SCHEMA_FIELDS,
+  },
+};
+
+/**
+ * Document types that get a type-specific extraction pass
+ */
+export const TYPED_EXTRACTION_TYPES: DocumentType[] = [
+  DocumentType.INVOICE,
+  DocumentType.CV,
+  DocumentType.CONTRACT,
+  DocumentType.LETTER,
+];
+
+/**
+ * Returns the extraction schema for a document type, falling back to OTHER
+ */
+export const getExtractionSchema = (
+  documentType: DocumentType,
+): IExtractionSchema =>
+  EXTRACTION_SCHEMAS[documentType] ?? EXTRACTION_SCHEMAS[DocumentType.OTHER];
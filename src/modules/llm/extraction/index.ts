@@ -0,0 +1,4 @@
+export * from "./extraction-schema.interface";
+export * from "./extraction-schemas";
+export * from "./metadata-validator";
+export * from "./invoice-reconciliation";
@@ -0,0 +1,93 @@
+import { ExtractedMetadata, InvoiceLineItem } from "../../../common/types";
+import { IMetadataIssue } from "./metadata-validator";
+
+// Amounts are compared after rounding to cents, allowing a cent of rounding per line
+const CENT = 0.01;
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatAmount = (amount: number): string => roundCents(amount).toFixed(2);
+
+const matches = (actual: number, expected: number, lines = 1): boolean =>
+  Math.abs(roundCents(actual) - roundCents(expected)) <= CENT * lines + 1e-9;
+
+/**
+ * Amount of a line item, computed from quantity and unit price when it isn't stated
+ */
+const lineAmount = (item: InvoiceLineItem): number | undefined =>
+  item.amount ??
+  (item.quantity !== undefined && item.unitPrice !== undefined
+    ? item.quantity * item.unitPrice
+    : undefined);
+
+/**
+ * Checks that the amounts of an invoice add up
+ * Each line's quantity times unit price must match its amount, the line
+ * amounts must sum to the subtotal (or to the total when there is no
+ * subtotal), and subtotal plus tax must equal the total.
+ * Checks whose inputs weren't extracted are skipped
+ */
+export const reconcileInvoice = (
+  metadata: ExtractedMetadata,
+): IMetadataIssue[] => {
+  const issues: IMetadataIssue[] = [];
+  const { lineItems = [], subtotal, taxAmount, totalAmount } = metadata;
+
+  lineItems.forEach((item, index) => {
+    if (
+      item.quantity !== undefined &&
+      item.unitPrice !== undefined &&
+      item.amount !== undefined &&
+      !matches(item.quantity * item.unitPrice, item.amount)
+    ) {
+      issues.push({
+        field: `lineItems[${index}].amount`,
+        kind: "mismatch",
+        message: `${item.quantity} x ${formatAmount(item.unitPrice)} is ${formatAmount(item.quantity * item.unitPrice)}, not ${formatAmount(item.amount)}`,
+      });
+    }
+  });
+
+  const amounts = lineItems.map(lineAmount);
+  const lineTotal = amounts.every((amount) => amount !== undefined)
+    ? amounts.reduce((sum, amount) => sum + amount, 0)
+    : undefined;
+
+  if (lineItems.length > 0 && lineTotal !== undefined) {
+    const sum = `line items sum to ${formatAmount(lineTotal)}`;
+    if (subtotal !== undefined) {
+      if (!matches(lineTotal, subtotal, lineItems.length)) {
+        issues.push({
+          field: "subtotal",
+          kind: "mismatch",
+          message: `${sum}, but the subtotal is ${formatAmount(subtotal)}`,
+        });
+      }
+    } else if (totalAmount !== undefined) {
+      // Without a subtotal, the lines plus any tax must make the total
+      const beforeTax = totalAmount - (taxAmount ?? 0);
+      if (!matches(lineTotal, beforeTax, lineItems.length)) {
+        issues.push({
+          field: "totalAmount",
+          kind: "mismatch",
+          message: taxAmount
+            ? `${sum}, but the total less tax is ${formatAmount(beforeTax)}`
+            : `${sum}, but the total is ${formatAmount(totalAmount)}`,
+        });
+      }
+    }
+  }
+
+  if (subtotal !== undefined && totalAmount !== undefined) {
+    const expectedTotal = subtotal + (taxAmount ?? 0);
+    if (!matches(expectedTotal, totalAmount)) {
+      issues.push({
+        field: "totalAmount",
+        kind: "mismatch",
+        message: `subtotal ${formatAmount(subtotal)}${taxAmount ? ` plus tax ${formatAmount(taxAmount)}` : ""} is ${formatAmount(expectedTotal)}, but the total is ${formatAmount(totalAmount)}`,
+      });
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,184 @@
+import { ExtractedMetadata, InvoiceLineItem } from "../../../common/types";
+import {
+  normalizeCurrency,
+  normalizeDate,
+  parseMonetaryAmount,
+} from "../validation/normalizers";
+import {
+  IExtractionField,
+  IExtractionSchema,
+} from "./extraction-schema.interface";
+
+type MetadataValue = ExtractedMetadata[string];
+
+/**
+ * Problem found with one extracted field
+ * "invalid" values can be fixed by asking the model again; "missing" ones
+ * may simply not be in the document; "mismatch" means values contradict
+ * each other, e.g. line items that don't add up to the total
+ */
+export interface IMetadataIssue {
+  field: string;
+  kind: "invalid" | "missing" | "mismatch";
+  message: string;
+}
+
+/**
+ * Metadata that passed validation, plus every problem that was found
+ */
+export interface IMetadataValidationResult {
+  metadata: ExtractedMetadata;
+  issues: IMetadataIssue[];
+}
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" &&
+    ["", "null", "n/a", "none", "unknown"].includes(
+      value.trim().toLowerCase(),
+    )) ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks and normalizes one value against its field spec
+ * Returns the accepted value, or an error describing why it was rejected
+ */
+const validateField = (
+  field: IExtractionField,
+  value: unknown,
+): { value?: MetadataValue; currency?: string; error?: string } => {
+  switch (field.type) {
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return { error: "expected a string" };
+      }
+      const text = String(value).trim();
+      if (field.pattern && !field.pattern.test(text)) {
+        return { error: `"${text}" has an invalid format` };
+      }
+      return { value: text };
+    }
+    case "number": {
+      const parsed = parseMonetaryAmount(value);
+      if (!parsed) {
+        return { error: "expected a number" };
+      }
+      return { value: parsed.amount, currency: parsed.currency };
+    }
+    case "currency": {
+      const currency = normalizeCurrency(value);
+      if (!currency) {
+        return { error: "expected an ISO 4217 currency code" };
+      }
+      return { value: currency };
+    }
+    case "date": {
+      const date = normalizeDate(value);
+      if (!date) {
+        return { error: "expected a date in YYYY-MM-DD format" };
+      }
+      return { value: date };
+    }
+    case "string[]": {
+      const entries = Array.isArray(value) ? value : [value];
+      const strings = entries
+        .filter(
+          (entry) => typeof entry === "string" || typeof entry === "number",
+        )
+        .map((entry) => String(entry).trim())
+        .filter(Boolean);
+      if (strings.length === 0) {
+        return { error: "expected a list of strings" };
+      }
+      return { value: [...new Set(strings)] };
+    }
+    case "lineItems": {
+      const items = (Array.isArray(value) ? value : [value])
+        .map(validateLineItem)
+        .filter((item): item is InvoiceLineItem => item !== null);
+      if (items.length === 0) {
+        return { error: "expected a list of line items with a description" };
+      }
+      return { value: items };
+    }
+  }
+};
+
+/**
+ * Normalizes one line item; items without a description or any number are dropped
+ */
+const validateLineItem = (raw: unknown): InvoiceLineItem | null => {
+  if (typeof raw !== "object" || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+  if (isBlank(entry.description)) return null;
+
+  const item: InvoiceLineItem = {
+    description: String(entry.description).trim(),
+  };
+  for (const key of ["quantity", "unitPrice", "amount"] as const) {
+    const parsed = parseMonetaryAmount(entry[key]);
+    if (parsed) item[key] = parsed.amount;
+  }
+
+  return Object.keys(item).length > 1 ? item : null;
+};
+
+/**
+ * Validates extracted metadata against the schema of its document type
+ * Values are normalized where possible (dates, amounts such as "$1,234.50",
+ * currency symbols); fields outside the schema are dropped, invalid values
+ * are removed and reported, and missing required fields are reported
+ */
+export const validateExtractedMetadata = (
+  metadata: Record<string, unknown>,
+  schema: IExtractionSchema,
+): IMetadataValidationResult => {
+  const validated: ExtractedMetadata = {};
+  const issues: IMetadataIssue[] = [];
+  let amountCurrency: string | undefined;
+
+  for (const field of schema.fields) {
+    const value = metadata?.[field.name];
+
+    if (isBlank(value)) {
+      if (field.required) {
+        issues.push({
+          field: field.name,
+          kind: "missing",
+          message: `required for ${schema.documentType}`,
+        });
+      }
+      continue;
+    }
+
+    const result = validateField(field, value);
+    if (result.error) {
+      issues.push({
+        field: field.name,
+        kind: "invalid",
+        message: result.error,
+      });
+      continue;
+    }
+
+    validated[field.name] = result.value;
+    amountCurrency = amountCurrency ?? result.currency;
+  }
+
+  // A currency parsed from an amount like "$1,234.50" fills in a missing currency
+  const hasCurrencyField = schema.fields.some(
+    (field) => field.type === "currency",
+  );
+  if (hasCurrencyField && amountCurrency && !validated.currency) {
+    validated.currency = amountCurrency;
+  }
+
+  return { metadata: validated, issues };
+};
+
+/**
+ * Formats validation issues for logs and repair prompts
+ */
+export const formatMetadataIssues = (issues: IMetadataIssue[]): string =>
+  issues.map((issue) => `${issue.field}: ${issue.message}`).join("; ");
@@ -0,0 +1,7 @@
+export * from "./interfaces";
+export * from "./llm.constants";
+export * from "./llm.module";
+export * from "./llm-provider.factory";
+export * from "./providers";
+export * from "./llm-analysis.service";
+export * from "./utils";
@@ -0,0 +1 @@
+export * from "./llm-provider.interface";
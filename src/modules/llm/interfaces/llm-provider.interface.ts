@@ -0,0 +1,199 @@
+import { DocumentType } from "../../documents/document.schema";
+import { ExtractedMetadata } from "../../../common/types";
+import { IExtractionSchema } from "../extraction/extraction-schema.interface";
+import { IMetadataIssue } from "../extraction/metadata-validator";
+import { ILocatedQuote } from "../utils/quote-locator";
+
+/**
+ * Interface for LLM analysis result
+ */
+export interface ILLMAnalysisResult {
+  summary: string;
+  documentType: DocumentType;
+  extractedMetadata: ExtractedMetadata;
+}
+
+/**
+ * Final analysis of a document, with the problems found while validating its metadata
+ */
+export interface IDocumentAnalysisResult extends ILLMAnalysisResult {
+  validationIssues: IMetadataIssue[];
+}
+
+/**
+ * Partial analysis of one section of a long document
+ */
+export interface IChunkAnalysis {
+  summary: string;
+  extractedMetadata: ExtractedMetadata;
+}
+
+/**
+ * Position of a chunk within the document it was cut from
+ */
+export interface IChunkPosition {
+  index: number;
+  total: number;
+}
+
+/**
+ * Answer to a question about a document
+ * quotes are passages of the document the model cites in support of the answer
+ */
+export interface IDocumentAnswer {
+  answer: string;
+  answerable: boolean;
+  quotes: string[];
+}
+
+/**
+ * Answer whose quotes were found in the document, with the page of each quote
+ */
+export interface IGroundedAnswer {
+  answer: string;
+  answerable: boolean;
+  quotes: ILocatedQuote[];
+}
+
+/**
+ * Earlier question about the same document, given to the model as context
+ */
+export interface IQuestionTurn extends IDocumentAnswer {
+  question: string;
+}
+
+/**
+ * Passage retrieved from one of several documents
+ * Passages are numbered so answers can attribute their quotes
+ */
+export interface ISourcePassage {
+  source: number;
+  title: string;
+  page: number | null;
+  text: string;
+}
+
+/**
+ * Quote attributed to a numbered source passage
+ */
+export interface ISourceQuote {
+  source: number;
+  quote: string;
+}
+
+/**
+ * Answer to a question about a set of source passages
+ */
+export interface ISourcesAnswer {
+  answer: string;
+  answerable: boolean;
+  citations: ISourceQuote[];
+}
+
+/**
+ * Quote found in the source passage it was attributed to
+ */
+export interface ISourceCitation extends ILocatedQuote {
+  source: number;
+}
+
+/**
+ * Answer whose citations were found in their source passages
+ */
+export interface IGroundedSourcesAnswer {
+  answer: string;
+  answerable: boolean;
+  citations: ISourceCitation[];
+}
+
+/**
+ * Receives summary text as the model generates it
+ */
+export type SummaryDeltaHandler = (delta: string) => void;
+
+/**
+ * Tokens billed for one or more completions
+ */
+export interface ITokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Receives the token usage of every completion request, including repairs
+ */
+export type TokenUsageHandler = (usage: ITokenUsage) => void;
+
+/**
+ * Contract implemented by every LLM backend
+ * Inject with the LLM_PROVIDER token; the concrete provider is chosen from config
+ */
+export interface LlmProvider {
+  /** Provider name, e.g. "openrouter" */
+  readonly name: string;
+
+  /** Model identifier used for completions */
+  readonly model: string;
+
+  /**
+   * Analyzes a document's text, producing a summary, type and metadata
+   * With onSummaryDelta, the summary is also reported while it is generated.
+   * Providers that bill by token report the usage of each request to onUsage
+   */
+  analyzeDocument(
+    extractedText: string,
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult>;
+
+  /**
+   * Extracts the fields of a type-specific schema from a document's text
+   * (second pass, after the document has been classified)
+   */
+  extractMetadata(
+    text: string,
+    schema: IExtractionSchema,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ExtractedMetadata>;
+
+  /**
+   * Summarizes one section of a document that is too long for a single prompt (map step)
+   */
+  summarizeChunk(
+    chunkText: string,
+    position: IChunkPosition,
+    onUsage?: TokenUsageHandler,
+  ): Promise<IChunkAnalysis>;
+
+  /**
+   * Merges section analyses into the final document analysis (reduce step)
+   * With onSummaryDelta, the merged summary is also reported while it is generated
+   */
+  combineChunkAnalyses(
+    chunkAnalyses: IChunkAnalysis[],
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult>;
+
+  /**
+   * Answers a question using only the given document text
+   * history holds the earlier questions of the conversation, oldest first
+   */
+  answerQuestion(
+    documentText: string,
+    question: string,
+    history: IQuestionTurn[],
+    onUsage?: TokenUsageHandler,
+  ): Promise<IDocumentAnswer>;
+
+  /**
+   * Answers a question using only the given passages, which may come from
+   * different documents; every quote names the passage it was taken from
+   */
+  answerFromSources(
+    passages: ISourcePassage[],
+    question: string,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ISourcesAnswer>;
+}
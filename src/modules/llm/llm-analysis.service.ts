@@ -0,0 +1,377 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../constants/system.messages";
+import { ExtractedMetadata } from "../../common/types";
+import { DocumentType } from "../documents/document.schema";
+import {
+  IChunkAnalysis,
+  IDocumentAnalysisResult,
+  IGroundedAnswer,
+  IGroundedSourcesAnswer,
+  ILLMAnalysisResult,
+  IQuestionTurn,
+  ISourceCitation,
+  ISourcePassage,
+  LlmProvider,
+  SummaryDeltaHandler,
+  TokenUsageHandler,
+} from "./interfaces";
+import { LLM_PROVIDER } from "./llm.constants";
+import {
+  IExtractionSchema,
+  TYPED_EXTRACTION_TYPES,
+  formatMetadataIssues,
+  getExtractionSchema,
+  reconcileInvoice,
+  validateExtractedMetadata,
+} from "./extraction";
+import {
+  ILocatedQuote,
+  chunkText,
+  estimateTokens,
+  locateQuote,
+  mergeExtractedMetadata,
+  selectRelevantChunks,
+} from "./utils";
+
+/**
+ * Service that runs document analysis through the configured LLM provider
+ * Analysis runs in two passes: the document is summarized and classified,
+ * then the fields of its type-specific schema are extracted and validated.
+ * Documents that don't fit in one prompt are processed with map-reduce:
+ * each section is analyzed independently, then the partial results are merged
+ */
+@Injectable()
+export class LlmAnalysisService {
+  private readonly logger = new Logger(LlmAnalysisService.name);
+  private readonly maxInputTokens: number;
+  private readonly chunkTokens: number;
+  private readonly chunkOverlapTokens: number;
+  private readonly mapConcurrency: number;
+
+  constructor(
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LlmProvider,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxInputTokens = Number(
+      this.configService.get<string>("LLM_MAX_INPUT_TOKENS", "12000"),
+    );
+    this.chunkTokens = Number(
+      this.configService.get<string>("LLM_CHUNK_TOKENS", "6000"),
+    );
+    this.chunkOverlapTokens = Number(
+      this.configService.get<string>("LLM_CHUNK_OVERLAP_TOKENS", "200"),
+    );
+    this.mapConcurrency = Math.max(
+      Number(this.configService.get<string>("LLM_MAP_CONCURRENCY", "3")),
+      1,
+    );
+  }
+
+  /**
+   * Identifies the provider and model behind the analyses, e.g. "openrouter:openai/gpt-4o-mini"
+   */
+  getModelId(): string {
+    return `${this.llmProvider.name}:${this.llmProvider.model}`;
+  }
+
+  /**
+   * Analyzes the full text of a document, chunking it when necessary
+   * Invoices are also checked for line items and totals that don't add up.
+   * onSummaryDelta receives the final summary while it is generated; for
+   * chunked documents that is the summary of the last reduce step.
+   * onUsage receives the token usage of every request made for the analysis
+   */
+  async analyzeDocument(
+    extractedText: string,
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<IDocumentAnalysisResult> {
+    // Pass 1: summary, classification and general metadata
+    const analysis = await this.summarizeDocument(
+      extractedText,
+      onSummaryDelta,
+      onUsage,
+    );
+    const schema = getExtractionSchema(analysis.documentType);
+
+    // Pass 2: type-specific fields; they take precedence over the general ones
+    let metadata = analysis.extractedMetadata;
+    if (TYPED_EXTRACTION_TYPES.includes(schema.documentType)) {
+      const typedMetadata = await this.extractTypedMetadata(
+        extractedText,
+        schema,
+        onUsage,
+      );
+      metadata = mergeExtractedMetadata([typedMetadata, metadata]);
+    }
+
+    const { metadata: validMetadata, issues } = validateExtractedMetadata(
+      metadata,
+      schema,
+    );
+    if (schema.documentType === DocumentType.INVOICE) {
+      issues.push(...reconcileInvoice(validMetadata));
+    }
+    if (issues.length > 0) {
+      this.logger.warn(
+        `${sysMsg.EXTRACTION_VALIDATION_ISSUES} (${schema.documentType}): ${formatMetadataIssues(issues)}`,
+      );
+    }
+
+    return {
+      ...analysis,
+      documentType: schema.documentType,
+      extractedMetadata: validMetadata,
+      validationIssues: issues,
+    };
+  }
+
+  /**
+   * Answers a question about a document, grounded in its text
+   * Long documents are cut down to the sections most relevant to the
+   * question. Quotes the document doesn't contain are discarded, and an
+   * answer left without any supporting quote is turned into a refusal
+   */
+  async answerQuestion(
+    documentText: string,
+    question: string,
+    history: IQuestionTurn[] = [],
+    onUsage?: TokenUsageHandler,
+  ): Promise<IGroundedAnswer> {
+    let context = documentText;
+    if (estimateTokens(documentText) > this.maxInputTokens) {
+      const chunks = chunkText(documentText, {
+        maxTokens: this.chunkTokens,
+        overlapTokens: this.chunkOverlapTokens,
+      });
+      // The previous question helps with follow-ups such as "and when is it due?"
+      const query = [history[history.length - 1]?.question, question]
+        .filter(Boolean)
+        .join(" ");
+      const selected = selectRelevantChunks(chunks, query, this.maxInputTokens);
+      this.logger.log(
+        `${sysMsg.QUESTION_CONTEXT_SELECTED}: ${selected.length}/${chunks.length} chunks`,
+      );
+      context = selected.map((chunk) => chunk.text).join("\n\n[...]\n\n");
+    }
+
+    const result = await this.llmProvider.answerQuestion(
+      context,
+      question,
+      history,
+      onUsage,
+    );
+
+    const quotes: ILocatedQuote[] = [];
+    const unsupported: string[] = [];
+    for (const quote of result.answerable ? result.quotes : []) {
+      const located = locateQuote(documentText, quote);
+      if (located) {
+        quotes.push(located);
+      } else {
+        unsupported.push(quote);
+      }
+    }
+    if (unsupported.length > 0) {
+      this.logger.warn(
+        `${sysMsg.QUESTION_QUOTE_NOT_FOUND}: ${unsupported.map((quote) => JSON.stringify(quote)).join(", ")}`,
+      );
+    }
+
+    if (!result.answerable || quotes.length === 0) {
+      return {
+        answer: sysMsg.DOCUMENT_QUESTION_NOT_ANSWERABLE,
+        answerable: false,
+        quotes: [],
+      };
+    }
+
+    return { answer: result.answer, answerable: true, quotes };
+  }
+
+  /**
+   * Answers a question from passages of several documents, best match first
+   * Passages beyond the input budget are left out; citations whose quote isn't
+   * in the passage they name are dropped, and an answer without any verified
+   * citation is replaced by a refusal
+   */
+  async answerFromSources(
+    passages: ISourcePassage[],
+    question: string,
+    onUsage?: TokenUsageHandler,
+  ): Promise<IGroundedSourcesAnswer> {
+    const selected: ISourcePassage[] = [];
+    let tokens = 0;
+    for (const passage of passages) {
+      const passageTokens = estimateTokens(passage.text);
+      if (selected.length > 0 && tokens + passageTokens > this.maxInputTokens) {
+        this.logger.log(
+          `${sysMsg.QUESTION_SOURCES_TRIMMED}: ${selected.length}/${passages.length} passages`,
+        );
+        break;
+      }
+      selected.push(passage);
+      tokens += passageTokens;
+    }
+
+    const refusal: IGroundedSourcesAnswer = {
+      answer: sysMsg.LIBRARY_QUESTION_NOT_ANSWERABLE,
+      answerable: false,
+      citations: [],
+    };
+    if (selected.length === 0) return refusal;
+
+    const result = await this.llmProvider.answerFromSources(
+      selected,
+      question,
+      onUsage,
+    );
+
+    const citations: ISourceCitation[] = [];
+    const unsupported: string[] = [];
+    for (const { source, quote } of result.answerable ? result.citations : []) {
+      const passage = selected.find((candidate) => candidate.source === source);
+      const located = passage && locateQuote(passage.text, quote);
+      if (located) {
+        citations.push({
+          source,
+          text: located.text,
+          page: located.page ?? passage.page,
+        });
+      } else {
+        unsupported.push(quote);
+      }
+    }
+    if (unsupported.length > 0) {
+      this.logger.warn(
+        `${sysMsg.QUESTION_QUOTE_NOT_FOUND}: ${unsupported.map((quote) => JSON.stringify(quote)).join(", ")}`,
+      );
+    }
+
+    if (!result.answerable || citations.length === 0) return refusal;
+
+    return { answer: result.answer, answerable: true, citations };
+  }
+
+  /**
+   * Extracts the fields of a type-specific schema, section by section for
+   * long documents
+   */
+  private async extractTypedMetadata(
+    extractedText: string,
+    schema: IExtractionSchema,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ExtractedMetadata> {
+    if (estimateTokens(extractedText) <= this.maxInputTokens) {
+      return this.llmProvider.extractMetadata(extractedText, schema, onUsage);
+    }
+
+    const chunks = chunkText(extractedText, {
+      maxTokens: this.chunkTokens,
+      overlapTokens: this.chunkOverlapTokens,
+    });
+    const sectionMetadata = await this.mapWithConcurrency(chunks, (chunk) =>
+      this.llmProvider.extractMetadata(chunk.text, schema, onUsage),
+    );
+    return mergeExtractedMetadata(sectionMetadata);
+  }
+
+  /**
+   * Summarizes and classifies a document, using map-reduce when it is too long
+   */
+  private async summarizeDocument(
+    extractedText: string,
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult> {
+    if (estimateTokens(extractedText) <= this.maxInputTokens) {
+      return this.llmProvider.analyzeDocument(
+        extractedText,
+        onSummaryDelta,
+        onUsage,
+      );
+    }
+
+    const chunks = chunkText(extractedText, {
+      maxTokens: this.chunkTokens,
+      overlapTokens: this.chunkOverlapTokens,
+    });
+    this.logger.log(`${sysMsg.LLM_CHUNKED_ANALYSIS}: ${chunks.length} chunks`);
+
+    // Map: analyze every section independently
+    const chunkAnalyses = await this.mapWithConcurrency(chunks, (chunk) =>
+      this.llmProvider.summarizeChunk(
+        chunk.text,
+        { index: chunk.index, total: chunks.length },
+        onUsage,
+      ),
+    );
+
+    // Reduce: merge partial analyses, in several rounds if they don't fit one prompt
+    return this.reduce(chunkAnalyses, onSummaryDelta, onUsage);
+  }
+
+  private async reduce(
+    chunkAnalyses: IChunkAnalysis[],
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult> {
+    const groups: IChunkAnalysis[][] = [[]];
+    let groupTokens = 0;
+
+    for (const analysis of chunkAnalyses) {
+      const tokens = estimateTokens(JSON.stringify(analysis));
+      const group = groups[groups.length - 1];
+      // Every group takes at least two analyses so each round makes progress
+      if (group.length > 1 && groupTokens + tokens > this.maxInputTokens) {
+        groups.push([analysis]);
+        groupTokens = tokens;
+      } else {
+        group.push(analysis);
+        groupTokens += tokens;
+      }
+    }
+
+    if (groups.length === 1) {
+      return this.llmProvider.combineChunkAnalyses(
+        groups[0],
+        onSummaryDelta,
+        onUsage,
+      );
+    }
+
+    // Groups of a single analysis can't be condensed any further
+    const merged = await this.mapWithConcurrency(groups, (group) =>
+      group.length === 1
+        ? Promise.resolve(group[0])
+        : this.llmProvider.combineChunkAnalyses(group, undefined, onUsage),
+    );
+    return this.reduce(merged, onSummaryDelta, onUsage);
+  }
+
+  /**
+   * Maps items through an async function with bounded parallelism, preserving order
+   */
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    mapper: (item: T) => Promise<R>,
+  ): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await mapper(items[index]);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.mapConcurrency, items.length) }, () =>
+        worker(),
+      ),
+    );
+    return results;
+  }
+}
@@ -0,0 +1,81 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../constants/system.messages";
+import { LlmProvider } from "./interfaces";
+import {
+  DEFAULT_LLM_REPAIR_ATTEMPTS,
+  DEFAULT_LLM_TIMEOUT_MS,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+  DEFAULT_OPENAI_COMPATIBLE_MODEL,
+  DEFAULT_OPENROUTER_BASE_URL,
+  DEFAULT_OPENROUTER_MODEL,
+  LlmProviderName,
+} from "./llm.constants";
+import {
+  HeuristicProvider,
+  OpenAICompatibleProvider,
+  OpenRouterProvider,
+} from "./providers";
+
+const logger = new Logger("LlmProviderFactory");
+
+/**
+ * Creates the LLM provider selected by the LLM_PROVIDER env var
+ * Defaults to OpenRouter when OPENROUTER_API_KEY is set, otherwise to the offline heuristic provider
+ */
+export const createLlmProvider = (
+  configService: ConfigService,
+): LlmProvider => {
+  const openrouterApiKey = configService.get<string>("OPENROUTER_API_KEY");
+  const providerName =
+    configService.get<string>("LLM_PROVIDER") ||
+    (openrouterApiKey ? LlmProviderName.OPENROUTER : LlmProviderName.HEURISTIC);
+  const timeoutMs = Number(
+    configService.get<string>("LLM_TIMEOUT_MS", String(DEFAULT_LLM_TIMEOUT_MS)),
+  );
+  const repairAttempts = Number(
+    configService.get<string>(
+      "LLM_REPAIR_ATTEMPTS",
+      String(DEFAULT_LLM_REPAIR_ATTEMPTS),
+    ),
+  );
+
+  let provider: LlmProvider;
+  switch (providerName) {
+    case LlmProviderName.OPENROUTER:
+      provider = new OpenRouterProvider({
+        baseURL:
+          configService.get<string>("OPENROUTER_BASE_URL") ||
+          DEFAULT_OPENROUTER_BASE_URL,
+        model:
+          configService.get<string>("LLM_MODEL") || DEFAULT_OPENROUTER_MODEL,
+        apiKey: openrouterApiKey,
+        timeoutMs,
+        repairAttempts,
+      });
+      break;
+    case LlmProviderName.OPENAI_COMPATIBLE:
+      provider = new OpenAICompatibleProvider({
+        baseURL:
+          configService.get<string>("LLM_BASE_URL") ||
+          DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        model:
+          configService.get<string>("LLM_MODEL") ||
+          DEFAULT_OPENAI_COMPATIBLE_MODEL,
+        apiKey: configService.get<string>("LLM_API_KEY"),
+        timeoutMs,
+        repairAttempts,
+      });
+      break;
+    case LlmProviderName.HEURISTIC:
+      provider = new HeuristicProvider();
+      break;
+    default:
+      throw new Error(`${sysMsg.LLM_PROVIDER_UNKNOWN}: ${providerName}`);
+  }
+
+  logger.log(
+    `${sysMsg.LLM_PROVIDER_SELECTED}: ${provider.name} (${provider.model})`,
+  );
+  return provider;
+};
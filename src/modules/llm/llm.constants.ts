@@ -0,0 +1,20 @@
+/**
+ * Injection token for the configured LlmProvider
+ */
+export const LLM_PROVIDER = "LLM_PROVIDER";
+
+/**
+ * Names of the available LLM providers, selected with the LLM_PROVIDER env var
+ */
+export enum LlmProviderName {
+  OPENROUTER = "openrouter",
+  OPENAI_COMPATIBLE = "openai-compatible",
+  HEURISTIC = "heuristic",
+}
+
+export const DEFAULT_OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+export const DEFAULT_OPENROUTER_MODEL = "openai/gpt-4o-mini";
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = "llama3.1";
+export const DEFAULT_LLM_TIMEOUT_MS = 60000;
+export const DEFAULT_LLM_REPAIR_ATTEMPTS = 2;
@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { LLM_PROVIDER } from "./llm.constants";
+import { createLlmProvider } from "./llm-provider.factory";
+import { LlmAnalysisService } from "./llm-analysis.service";
+
+/**
+ * LLM module
+ * Exposes the configured LlmProvider under the LLM_PROVIDER token and the
+ * LlmAnalysisService that orchestrates (chunked) document analysis
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: LLM_PROVIDER,
+      useFactory: createLlmProvider,
+      inject: [ConfigService],
+    },
+    LlmAnalysisService,
+  ],
+  exports: [LLM_PROVIDER, LlmAnalysisService],
+})
+export class LlmModule {}
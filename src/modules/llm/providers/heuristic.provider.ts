@@ -0,0 +1,793 @@
+import { Logger } from "@nestjs/common";
+import * as sysMsg from "../../../constants/system.messages";
+import { ExtractedMetadata, InvoiceLineItem } from "../../../common/types";
+import { DocumentType } from "../../documents/document.schema";
+import {
+  IChunkAnalysis,
+  IDocumentAnswer,
+  ILLMAnalysisResult,
+  ISourcePassage,
+  ISourcesAnswer,
+  LlmProvider,
+  SummaryDeltaHandler,
+} from "../interfaces";
+import { IExtractionSchema } from "../extraction/extraction-schema.interface";
+import { LlmProviderName } from "../llm.constants";
+import {
+  extractQueryTerms,
+  findMatchingTerms,
+  mergeExtractedMetadata,
+  stripPageMarkers,
+} from "../utils";
+import {
+  CURRENCY_SYMBOLS,
+  MONTHS,
+  parseMonetaryAmount,
+} from "../validation/normalizers";
+
+/**
+ * Sentence of a text matched against a question's terms
+ */
+interface ISentenceMatch {
+  text: string;
+  matchedTerms: string[];
+}
+
+/**
+ * Shortest matched term that counts as evidence on its own when a question
+ * is only partly matched; shorter terms ("ceo", "due") match too often by chance
+ */
+const MIN_DISTINCTIVE_TERM_LENGTH = 4;
+
+/**
+ * Words ignored when picking keywords
+ */
+const STOPWORDS = new Set(
+  (
+    "about above after again against also because been before being " +
+    "below between both could does doing down during each from further " +
+    "have having here into itself just more most other over same shall " +
+    "should some such than that their theirs them then there these they " +
+    "this those through under until very were what when where which " +
+    "while whom will with within without would your yours page"
+  ).split(" "),
+);
+
+/**
+ * Cue phrases used to guess the document type
+ */
+const TYPE_CUES: Record<Exclude<DocumentType, DocumentType.OTHER>, string[]> = {
+  [DocumentType.INVOICE]: [
+    "invoice",
+    "bill to",
+    "amount due",
+    "subtotal",
+    "vat",
+    "due date",
+    "payment terms",
+    "unit price",
+    "qty",
+  ],
+  [DocumentType.CV]: [
+    "curriculum vitae",
+    "resume",
+    "work experience",
+    "education",
+    "skills",
+    "employment history",
+    "references",
+    "certifications",
+  ],
+  [DocumentType.CONTRACT]: [
+    "agreement",
+    "hereby",
+    "parties",
+    "party",
+    "governing law",
+    "termination",
+    "whereas",
+    "obligations",
+    "in witness whereof",
+  ],
+  [DocumentType.LETTER]: [
+    "dear",
+    "sincerely",
+    "yours faithfully",
+    "kind regards",
+    "best regards",
+    "yours truly",
+  ],
+  [DocumentType.REPORT]: [
+    "report",
+    "executive summary",
+    "findings",
+    "methodology",
+    "conclusion",
+    "recommendations",
+    "quarter",
+  ],
+  [DocumentType.ARTICLE]: [
+    "abstract",
+    "introduction",
+    "published",
+    "journal",
+    "keywords",
+    "doi",
+  ],
+};
+
+/**
+ * Deterministic, offline LLM provider based on text heuristics
+ * Needs no network access, which makes it suitable for development and tests
+ */
+export class HeuristicProvider implements LlmProvider {
+  readonly name: string = LlmProviderName.HEURISTIC;
+  readonly model = "heuristic-v1";
+  private readonly logger = new Logger(HeuristicProvider.name);
+
+  async analyzeDocument(
+    extractedText: string,
+    onSummaryDelta?: SummaryDeltaHandler,
+  ): Promise<ILLMAnalysisResult> {
+    const text = this.normalizeInput(extractedText);
+
+    const result: ILLMAnalysisResult = {
+      summary: this.summarize(text),
+      documentType: this.classify(text),
+      extractedMetadata: this.extractGeneralMetadata(text),
+    };
+    this.emitSummary(result.summary, onSummaryDelta);
+
+    this.logger.log(sysMsg.LLM_ANALYSIS_SUCCESS);
+    return result;
+  }
+
+  /**
+   * Extracts the schema's fields with field-specific heuristics
+   * Fields without a heuristic are left out
+   */
+  async extractMetadata(
+    text: string,
+    schema: IExtractionSchema,
+  ): Promise<ExtractedMetadata> {
+    const normalized = this.normalizeInput(text);
+    const metadata: ExtractedMetadata = {};
+
+    for (const field of schema.fields) {
+      const value = this.extractField(field.name, normalized);
+      if (value !== undefined) {
+        metadata[field.name] = value;
+      }
+    }
+
+    return metadata;
+  }
+
+  async summarizeChunk(chunkText: string): Promise<IChunkAnalysis> {
+    const text = this.normalizeInput(chunkText);
+
+    return {
+      summary: this.summarize(text),
+      extractedMetadata: this.extractGeneralMetadata(text),
+    };
+  }
+
+  /**
+   * Builds the summary from the opening sentence of each section and
+   * classifies the document from the section summaries and keywords
+   */
+  async combineChunkAnalyses(
+    chunkAnalyses: IChunkAnalysis[],
+    onSummaryDelta?: SummaryDeltaHandler,
+  ): Promise<ILLMAnalysisResult> {
+    const leadSentences = chunkAnalyses
+      .map((analysis) => this.splitSentences(analysis.summary)[0])
+      .filter(Boolean);
+    const step = Math.max(leadSentences.length / 5, 1);
+    const picked = Array.from(
+      { length: Math.min(leadSentences.length, 5) },
+      (_, index) => leadSentences[Math.floor(index * step)],
+    );
+
+    const extractedMetadata = mergeExtractedMetadata(
+      chunkAnalyses.map((analysis) => analysis.extractedMetadata),
+    );
+    extractedMetadata.keywords = extractedMetadata.keywords?.slice(0, 5);
+
+    const classificationText = chunkAnalyses
+      .map(
+        (analysis) =>
+          `${analysis.summary} ${(analysis.extractedMetadata.keywords ?? []).join(" ")}`,
+      )
+      .join("\n");
+
+    const summary = picked.join(" ") || this.summarize("");
+    this.emitSummary(summary, onSummaryDelta);
+
+    this.logger.log(sysMsg.LLM_ANALYSIS_SUCCESS);
+    return {
+      summary,
+      documentType: this.classify(classificationText),
+      extractedMetadata,
+    };
+  }
+
+  /**
+   * Answers with the sentence or line sharing the most terms with the question
+   * The question counts as answerable when that passage contains all of the
+   * question's terms, or at least half of them including a distinctive one;
+   * earlier turns are not used
+   */
+  async answerQuestion(
+    documentText: string,
+    question: string,
+  ): Promise<IDocumentAnswer> {
+    const terms = extractQueryTerms(question);
+    const best = this.findBestSentence(documentText, terms);
+
+    if (!this.isAnswerable(best, terms)) {
+      return {
+        answer: sysMsg.DOCUMENT_QUESTION_NOT_ANSWERABLE,
+        answerable: false,
+        quotes: [],
+      };
+    }
+
+    return { answer: best.text, answerable: true, quotes: [best.text] };
+  }
+
+  /**
+   * Answers with the best matching sentence of any passage, by the same rule
+   * as answerQuestion, naming the document it comes from
+   */
+  async answerFromSources(
+    passages: ISourcePassage[],
+    question: string,
+  ): Promise<ISourcesAnswer> {
+    const terms = extractQueryTerms(question);
+
+    let best: (ISentenceMatch & { passage: ISourcePassage }) | null = null;
+    for (const passage of passages) {
+      const sentence = this.findBestSentence(passage.text, terms);
+      if (
+        sentence &&
+        sentence.matchedTerms.length > (best?.matchedTerms.length ?? 0)
+      ) {
+        best = { ...sentence, passage };
+      }
+    }
+
+    if (!this.isAnswerable(best, terms)) {
+      return {
+        answer: sysMsg.LIBRARY_QUESTION_NOT_ANSWERABLE,
+        answerable: false,
+        citations: [],
+      };
+    }
+
+    return {
+      answer: `${best.text} (${best.passage.title})`,
+      answerable: true,
+      citations: [{ source: best.passage.source, quote: best.text }],
+    };
+  }
+
+  /**
+   * Finds the sentence or line sharing the most terms with a question
+   */
+  private findBestSentence(
+    text: string,
+    terms: string[],
+  ): ISentenceMatch | null {
+    const sentences = this.normalizeInput(text)
+      .split(/\n+/)
+      .flatMap((line) => this.splitSentences(line));
+
+    let best: ISentenceMatch | null = null;
+    for (const sentence of sentences) {
+      const matchedTerms = findMatchingTerms(sentence, terms);
+      if (matchedTerms.length > (best?.matchedTerms.length ?? 0)) {
+        best = { text: sentence, matchedTerms };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Whether a matched sentence answers a question: it must contain all of the
+   * question's terms, or at least half of them including a distinctive one
+   */
+  private isAnswerable(
+    match: ISentenceMatch | null,
+    terms: string[],
+  ): match is ISentenceMatch {
+    if (!match) return false;
+    if (match.matchedTerms.length === terms.length) return true;
+
+    return (
+      match.matchedTerms.length >= terms.length / 2 &&
+      match.matchedTerms.some(
+        (term) => term.length >= MIN_DISTINCTIVE_TERM_LENGTH,
+      )
+    );
+  }
+
+  /**
+   * Reports the summary word by word, the way a streaming model would
+   */
+  private emitSummary(summary: string, onSummaryDelta?: SummaryDeltaHandler) {
+    if (!onSummaryDelta) return;
+    for (const word of summary.match(/\S+\s*/g) ?? []) {
+      onSummaryDelta(word);
+    }
+  }
+
+  /**
+   * Uses the leading sentences of the document as its summary
+   */
+  private summarize(text: string): string {
+    // Skip fragments, e.g. a sentence cut off at the start of a chunk
+    const sentences = this.splitSentences(text).filter(
+      (sentence) =>
+        /^[\p{Lu}\d"']/u.test(sentence) && sentence.split(/\s+/).length >= 4,
+    );
+
+    const summary =
+      sentences.slice(0, 3).join(" ") || text.replace(/\s+/g, " ").trim();
+
+    return summary.length > 500
+      ? `${summary.substring(0, 497)}...`
+      : summary || "The document contains no extractable text.";
+  }
+
+  /**
+   * Picks the document type whose cue phrases occur most often
+   */
+  private classify(text: string): DocumentType {
+    const lower = text.toLowerCase();
+    let bestType = DocumentType.OTHER;
+    let bestScore = 1; // Require at least two cue hits
+
+    for (const [type, cues] of Object.entries(TYPE_CUES)) {
+      const score = cues.reduce(
+        (total, cue) => total + this.countOccurrences(lower, cue),
+        0,
+      );
+      if (score > bestScore) {
+        bestScore = score;
+        bestType = type as DocumentType;
+      }
+    }
+
+    return bestType;
+  }
+
+  private extractGeneralMetadata(text: string): ExtractedMetadata {
+    const metadata: ExtractedMetadata = {
+      date: this.findDate(text),
+      sender: this.findSender(text),
+      keywords: this.findKeywords(text),
+    };
+
+    const total = this.findTotalAmount(text);
+    if (total) {
+      metadata.totalAmount = total.amount;
+      metadata.currency = total.currency;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Heuristic for a single schema field
+   */
+  private extractField(
+    name: string,
+    text: string,
+  ): ExtractedMetadata[string] | undefined {
+    switch (name) {
+      case "date":
+        return this.findDate(text);
+      case "sender":
+        return this.findSignature(text) ?? this.findSender(text);
+      case "keywords":
+        return this.findKeywords(text);
+      case "totalAmount":
+        return this.findTotalAmount(text)?.amount;
+      case "currency":
+        return this.findTotalAmount(text)?.currency;
+      case "subtotal":
+        return this.findLabeledAmount(text, /\bsub\s?-?total\b/i);
+      case "taxAmount":
+        // "Total incl. VAT" lines state the total, not the tax
+        return this.findLabeledAmount(
+          text,
+          /\b(?:tax|vat|gst)\b/i,
+          /\btotal\b/i,
+        );
+      case "lineItems":
+        return this.findLineItems(text);
+      case "invoiceNumber":
+        return text.match(
+          /\binvoice\s*(?:no\.?|number|num\.?|#)?\s*[:#]?\s*([A-Z0-9/-]*\d[A-Z0-9/-]*)/i,
+        )?.[1];
+      case "invoiceDate":
+        return (
+          this.findLabeledDate(text, ["invoice date", "issue date", "date"]) ??
+          this.findDate(text)
+        );
+      case "dueDate":
+        return this.findLabeledDate(text, ["due date", "payment due", "due"]);
+      case "vendorName":
+        return this.findSender(text);
+      case "recipient":
+        return (
+          this.findLabeledValue(text, ["bill to", "billed to", "customer"]) ??
+          text.match(/^\s*dear\s+([^,\n]+)/im)?.[1].trim()
+        );
+      case "subject":
+        return this.findLabeledValue(text, ["subject", "re"]);
+      case "author":
+        return this.findLabeledValue(text, [
+          "author",
+          "prepared by",
+          "written by",
+        ]);
+      case "fullName":
+        return this.findFullName(text);
+      case "email":
+        return text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/)?.[0];
+      case "phone":
+        return text.match(/\+?\d[\d\s().-]{7,}\d/)?.[0].trim();
+      case "skills":
+        return this.findListSection(
+          text,
+          ["skills", "technical skills"],
+          /[,;•|]/,
+        );
+      case "education":
+        return this.findListSection(text, ["education"]);
+      case "experience":
+        return this.findListSection(text, [
+          "experience",
+          "work experience",
+          "employment history",
+        ]);
+      case "parties":
+        return this.findParties(text);
+      case "effectiveDate":
+        return this.findLabeledDate(text, ["effective"]);
+      case "expirationDate":
+        return this.findLabeledDate(text, ["expir", "terminat"]);
+      case "governingLaw":
+        return text
+          .match(
+            /governed by (?:and construed in accordance with )?the laws? of (?:the )?([^.,;\n]+)/i,
+          )?.[1]
+          .trim();
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Returns the value of a "Label: value" line
+   */
+  private findLabeledValue(text: string, labels: string[]): string | undefined {
+    for (const label of labels) {
+      const match = text.match(new RegExp(`^\\s*${label}\\s*:\\s*(.+)$`, "im"));
+      if (match) return match[1].trim();
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the first date on a line mentioning one of the labels
+   */
+  private findLabeledDate(text: string, labels: string[]): string | undefined {
+    for (const label of labels) {
+      const line = text
+        .split("\n")
+        .find((candidate) => new RegExp(`\\b${label}`, "i").test(candidate));
+      const date = line && this.findDate(line);
+      if (date) return date;
+    }
+    return undefined;
+  }
+
+  /**
+   * Collects the entries listed under a heading, either inline
+   * ("Skills: a, b") or one per line until the next blank line
+   */
+  private findListSection(
+    text: string,
+    headings: string[],
+    separators = /[•|;]/,
+  ): string[] | undefined {
+    const lines = text.split("\n").map((line) => line.trim());
+
+    for (const heading of headings) {
+      const index = lines.findIndex((line) =>
+        new RegExp(`^${heading}\\s*:?(\\s|$)`, "i").test(line),
+      );
+      if (index < 0) continue;
+
+      const inline = lines[index].replace(
+        new RegExp(`^${heading}\\s*:?`, "i"),
+        "",
+      );
+      const entries: string[] = inline.trim() ? [inline] : [];
+      if (!inline.trim()) {
+        for (const line of lines.slice(index + 1)) {
+          if (!line) break;
+          entries.push(line);
+        }
+      }
+
+      const items = entries
+        .flatMap((entry) => entry.split(separators))
+        .map((item) => item.replace(/^[-*\s]+/, "").trim())
+        .filter(Boolean);
+      if (items.length) return items;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads the parties from a "between X and Y" clause
+   */
+  private findParties(text: string): string[] | undefined {
+    const match = text.match(
+      /\bbetween\s+([^,(\n]+?)\s*(?:\([^)]*\))?,?\s+and\s+([^,(\n.]+)/i,
+    );
+    return match ? [match[1].trim(), match[2].trim()] : undefined;
+  }
+
+  /**
+   * Uses the first line that looks like a person's name
+   */
+  private findFullName(text: string): string | undefined {
+    return text
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) =>
+        /^(\p{Lu}[\p{L}'.-]+\s+){1,3}\p{Lu}[\p{L}'.-]+$/u.test(line),
+      );
+  }
+
+  /**
+   * Returns the name following a closing such as "Sincerely,"
+   */
+  private findSignature(text: string): string | undefined {
+    const lines = text.split("\n").map((line) => line.trim());
+    const closing = lines.findIndex((line) =>
+      /^(sincerely|yours (?:faithfully|truly|sincerely)|(?:kind |best )?regards),?$/i.test(
+        line,
+      ),
+    );
+    if (closing < 0) return undefined;
+
+    return lines.slice(closing + 1).find((line) => line.length > 0);
+  }
+
+  /**
+   * Finds the first date in the text and normalizes it to YYYY-MM-DD
+   */
+  private findDate(text: string): string | undefined {
+    const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return iso[0];
+
+    const monthName = text.match(
+      new RegExp(
+        `\\b(${MONTHS.join("|")})\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`,
+        "i",
+      ),
+    );
+    if (monthName) {
+      const month = MONTHS.indexOf(monthName[1].toLowerCase()) + 1;
+      return this.formatDate(+monthName[3], month, +monthName[2]);
+    }
+
+    const dayFirst = text.match(
+      new RegExp(`\\b(\\d{1,2})\\s+(${MONTHS.join("|")})\\s+(\\d{4})\\b`, "i"),
+    );
+    if (dayFirst) {
+      const month = MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1;
+      return this.formatDate(+dayFirst[3], month, +dayFirst[1]);
+    }
+
+    const numeric = text.match(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/);
+    if (numeric) {
+      // Day-first unless that would be an invalid month
+      const [first, second] = [+numeric[1], +numeric[2]];
+      return first > 12
+        ? this.formatDate(+numeric[3], second, first)
+        : this.formatDate(+numeric[3], first, second);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Looks for an explicit sender line, falling back to the first short line
+   */
+  private findSender(text: string): string | undefined {
+    const explicit = text.match(
+      /^\s*(?:from|sender|issued by|vendor|company)\s*:\s*(.+)$/im,
+    );
+    if (explicit) return explicit[1].trim();
+
+    const firstLine = text
+      .split("\n")
+      .map((line) => line.trim())
+      .find((line) => line.length > 0);
+
+    return firstLine && firstLine.length <= 80 ? firstLine : undefined;
+  }
+
+  /**
+   * Prefers amounts on lines mentioning a total, otherwise the largest amount
+   */
+  private findTotalAmount(
+    text: string,
+  ): { amount: number; currency?: string } | undefined {
+    const lines = text.split("\n");
+    const totalLines = lines.filter(
+      (line) => /\btotal\b/i.test(line) && !/\bsub\s?-?total\b/i.test(line),
+    );
+
+    const candidates = (totalLines.length ? totalLines : lines).flatMap(
+      (line) => this.parseAmounts(line),
+    );
+    if (candidates.length === 0) return undefined;
+
+    return candidates.reduce((largest, candidate) =>
+      candidate.amount > largest.amount ? candidate : largest,
+    );
+  }
+
+  /**
+   * Returns the last amount on the first line matching the label
+   */
+  private findLabeledAmount(
+    text: string,
+    label: RegExp,
+    exclude?: RegExp,
+  ): number | undefined {
+    for (const line of text.split("\n")) {
+      if (!label.test(line) || exclude?.test(line)) continue;
+      const amounts = this.parseAmounts(line);
+      if (amounts.length) return amounts[amounts.length - 1].amount;
+    }
+    return undefined;
+  }
+
+  /**
+   * Amounts with a currency or two decimals, e.g. "$1,234" or "99.90"
+   */
+  private parseAmounts(line: string): { amount: number; currency?: string }[] {
+    const amountPattern =
+      /([$€£₦¥]|\b(?:USD|EUR|GBP|NGN|JPY)\b)?\s?(\d{1,3}(?:[,\s]\d{3})*(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)/g;
+
+    return [...line.matchAll(amountPattern)]
+      .filter((match) => match[1] || /\.\d{2}$/.test(match[2]))
+      .map((match) => ({
+        amount: parseFloat(match[2].replace(/[,\s]/g, "")),
+        currency: match[1]
+          ? (CURRENCY_SYMBOLS[match[1]] ?? match[1].toUpperCase())
+          : undefined,
+      }));
+  }
+
+  /**
+   * Reads line items from the first tab-separated table whose header names a
+   * description and an amount column; summary rows (totals, tax) are skipped
+   */
+  private findLineItems(text: string): InvoiceLineItem[] | undefined {
+    const lines = text.split("\n");
+    const headerIndex = lines.findIndex(
+      (line) =>
+        line.includes("\t") &&
+        /\b(?:description|item|product|service)s?\b/i.test(line) &&
+        /\b(?:amount|total|price)\b/i.test(line),
+    );
+    if (headerIndex < 0) return undefined;
+
+    const header = lines[headerIndex].split("\t");
+    const column = (pattern: RegExp, exclude?: RegExp) =>
+      header.findIndex(
+        (cell) => pattern.test(cell) && !(exclude && exclude.test(cell)),
+      );
+    const description = column(/description|item|product|service/i);
+    const quantity = column(/\b(?:qty|quantity|units?|hours|hrs)\b/i);
+    const unitPrice = column(/\b(?:unit|price|rate)\b/i, /\btotal\b/i);
+    // The amount is the rightmost amount-like column, e.g. "Amount" or "Line total"
+    const amount = header.reduce(
+      (found, cell, index) =>
+        /\b(?:amount|total)\b/i.test(cell) ||
+        (index !== unitPrice && /\bprice\b/i.test(cell))
+          ? index
+          : found,
+      -1,
+    );
+
+    const number = (cells: string[], index: number) => {
+      if (index < 0 || !cells[index]?.trim()) return undefined;
+      const parsed = parseMonetaryAmount(cells[index].trim());
+      return parsed?.amount;
+    };
+
+    const items: InvoiceLineItem[] = [];
+    for (const line of lines.slice(headerIndex + 1)) {
+      if (!line.includes("\t")) break;
+      const cells = line.split("\t");
+      const label = cells[description]?.trim();
+      if (!label || /^(?:sub\s?-?total|total|tax|vat|gst)\b/i.test(label)) {
+        continue;
+      }
+
+      const item: InvoiceLineItem = { description: label };
+      const columns = { quantity, unitPrice, amount };
+      for (const key of ["quantity", "unitPrice", "amount"] as const) {
+        const value = number(cells, columns[key]);
+        if (value !== undefined) item[key] = value;
+      }
+      if (Object.keys(item).length > 1) items.push(item);
+    }
+
+    return items.length ? items : undefined;
+  }
+
+  /**
+   * Returns the five most frequent meaningful words
+   */
+  private findKeywords(text: string): string[] {
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().match(/\p{L}{4,}/gu) ?? []) {
+      if (STOPWORDS.has(word)) continue;
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 5)
+      .map(([word]) => word);
+  }
+
+  /**
+   * Drops page markers and Markdown heading and table syntax, which are meant for chat models
+   * Table rows become tab-separated lines, like tables in extracted text
+   */
+  private normalizeInput(text: string): string {
+    return stripPageMarkers(text.replace(/\r\n/g, "\n"))
+      .replace(/^#{1,6} /gm, "")
+      .replace(/^\|(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*\n?/gm, "")
+      .replace(/^\|(.*)\|[ \t]*$/gm, (_, cells: string) =>
+        cells
+          .split(/(?<!\\)\|/)
+          .map((cell) => cell.trim().replace(/\\\|/g, "|"))
+          .join("\t"),
+      );
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .replace(/\s+/g, " ")
+      .split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+  }
+
+  private countOccurrences(haystack: string, needle: string): number {
+    const pattern = new RegExp(
+      `\\b${needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+      "g",
+    );
+    return haystack.match(pattern)?.length ?? 0;
+  }
+
+  private formatDate(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  }
+}
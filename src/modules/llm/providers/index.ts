@@ -0,0 +1,3 @@
+export * from "./openai-compatible.provider";
+export * from "./openrouter.provider";
+export * from "./heuristic.provider";
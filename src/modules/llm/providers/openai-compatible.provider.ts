@@ -0,0 +1,505 @@
+import { InternalServerErrorException, Logger } from "@nestjs/common";
+import axios, { AxiosInstance } from "axios";
+import { Readable } from "stream";
+import * as sysMsg from "../../../constants/system.messages";
+import { ExtractedMetadata } from "../../../common/types";
+import { IExtractionSchema } from "../extraction/extraction-schema.interface";
+import {
+  IChunkAnalysis,
+  IChunkPosition,
+  IDocumentAnswer,
+  ILLMAnalysisResult,
+  IQuestionTurn,
+  ISourcePassage,
+  ISourcesAnswer,
+  LlmProvider,
+  SummaryDeltaHandler,
+  TokenUsageHandler,
+} from "../interfaces";
+import { LlmProviderName } from "../llm.constants";
+import {
+  ANALYSIS_SYSTEM_PROMPT,
+  CHUNK_SYSTEM_PROMPT,
+  COMBINE_SYSTEM_PROMPT,
+  buildAnalysisUserPrompt,
+  buildChunkUserPrompt,
+  buildCombineUserPrompt,
+  buildExtractionSystemPrompt,
+  buildExtractionUserPrompt,
+  buildQuestionSystemPrompt,
+  buildQuestionUserPrompt,
+  buildRepairUserPrompt,
+  buildSourcesSystemPrompt,
+} from "../llm.prompts";
+import { DEFAULT_LLM_REPAIR_ATTEMPTS } from "../llm.constants";
+import {
+  ResponseValidator,
+  buildMetadataResponseValidator,
+  parseJsonContent,
+  validateAnalysisResponse,
+  validateAnswerResponse,
+  validateChunkAnalysisResponse,
+  validateSourcesAnswerResponse,
+} from "../validation";
+import { createPartialFieldReader, toTokenUsage } from "../utils";
+
+/**
+ * Chat message sent to a chat-completions endpoint
+ */
+export interface IChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Connection options for an OpenAI-compatible API
+ */
+export interface IOpenAICompatibleOptions {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+  /** Follow-up requests asking the model to fix an invalid response */
+  repairAttempts?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error messages reported for well-known API failures
+ */
+export interface IProviderErrorMessages {
+  apiKeyMissing: string;
+  unauthorized: string;
+  rateLimit: string;
+  insufficientCredits: string;
+}
+
+/**
+ * LLM provider for any server exposing the OpenAI chat-completions API
+ * (e.g. a local llama.cpp or Ollama server)
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name: string = LlmProviderName.OPENAI_COMPATIBLE;
+  readonly model: string;
+  protected readonly logger = new Logger(this.constructor.name);
+  protected readonly axiosInstance: AxiosInstance;
+  protected readonly apiKey?: string;
+  protected readonly repairAttempts: number;
+  protected readonly errorMessages: IProviderErrorMessages = {
+    apiKeyMissing: sysMsg.LLM_API_KEY_MISSING,
+    unauthorized: sysMsg.LLM_UNAUTHORIZED,
+    rateLimit: sysMsg.LLM_RATE_LIMIT,
+    insufficientCredits: sysMsg.LLM_INSUFFICIENT_CREDITS,
+  };
+
+  constructor(options: IOpenAICompatibleOptions) {
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.repairAttempts = options.repairAttempts ?? DEFAULT_LLM_REPAIR_ATTEMPTS;
+
+    this.axiosInstance = axios.create({
+      baseURL: options.baseURL,
+      headers: {
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+      timeout: options.timeoutMs,
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+    });
+  }
+
+  /**
+   * Analyzes a document's text using the chat-completions endpoint
+   * The completion is streamed when the summary should be reported as it is generated
+   */
+  async analyzeDocument(
+    extractedText: string,
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult> {
+    const result = await this.requestJson<ILLMAnalysisResult>(
+      [
+        { role: "system", content: ANALYSIS_SYSTEM_PROMPT },
+        { role: "user", content: buildAnalysisUserPrompt(extractedText) },
+      ],
+      validateAnalysisResponse,
+      onSummaryDelta && createPartialFieldReader("summary", onSummaryDelta),
+      onUsage,
+    );
+
+    this.logger.log(sysMsg.LLM_ANALYSIS_SUCCESS);
+    return result;
+  }
+
+  /**
+   * Extracts the fields of a type-specific schema
+   */
+  async extractMetadata(
+    text: string,
+    schema: IExtractionSchema,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ExtractedMetadata> {
+    return this.requestJson<ExtractedMetadata>(
+      [
+        { role: "system", content: buildExtractionSystemPrompt(schema) },
+        { role: "user", content: buildExtractionUserPrompt(text) },
+      ],
+      buildMetadataResponseValidator(schema),
+      undefined,
+      onUsage,
+    );
+  }
+
+  /**
+   * Summarizes one section of a long document
+   */
+  async summarizeChunk(
+    chunkText: string,
+    position: IChunkPosition,
+    onUsage?: TokenUsageHandler,
+  ): Promise<IChunkAnalysis> {
+    return this.requestJson<IChunkAnalysis>(
+      [
+        { role: "system", content: CHUNK_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: buildChunkUserPrompt(
+            chunkText,
+            position.index,
+            position.total,
+          ),
+        },
+      ],
+      validateChunkAnalysisResponse,
+      undefined,
+      onUsage,
+    );
+  }
+
+  /**
+   * Merges section analyses into the final document analysis
+   */
+  async combineChunkAnalyses(
+    chunkAnalyses: IChunkAnalysis[],
+    onSummaryDelta?: SummaryDeltaHandler,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ILLMAnalysisResult> {
+    const sectionAnalyses = chunkAnalyses
+      .map(
+        (analysis, index) =>
+          `Section ${index + 1}:\n${JSON.stringify(analysis)}`,
+      )
+      .join("\n\n");
+
+    const result = await this.requestJson<ILLMAnalysisResult>(
+      [
+        { role: "system", content: COMBINE_SYSTEM_PROMPT },
+        { role: "user", content: buildCombineUserPrompt(sectionAnalyses) },
+      ],
+      validateAnalysisResponse,
+      onSummaryDelta && createPartialFieldReader("summary", onSummaryDelta),
+      onUsage,
+    );
+
+    this.logger.log(sysMsg.LLM_ANALYSIS_SUCCESS);
+    return result;
+  }
+
+  /**
+   * Answers a question about a document
+   * Earlier turns are replayed as chat messages, so the model can resolve follow-up questions
+   */
+  async answerQuestion(
+    documentText: string,
+    question: string,
+    history: IQuestionTurn[],
+    onUsage?: TokenUsageHandler,
+  ): Promise<IDocumentAnswer> {
+    return this.requestJson<IDocumentAnswer>(
+      [
+        { role: "system", content: buildQuestionSystemPrompt(documentText) },
+        ...history.flatMap((turn): IChatMessage[] => [
+          { role: "user", content: buildQuestionUserPrompt(turn.question) },
+          {
+            role: "assistant",
+            content: JSON.stringify({
+              answerable: turn.answerable,
+              answer: turn.answer,
+              quotes: turn.quotes,
+            }),
+          },
+        ]),
+        { role: "user", content: buildQuestionUserPrompt(question) },
+      ],
+      validateAnswerResponse,
+      undefined,
+      onUsage,
+    );
+  }
+
+  /**
+   * Answers a question from passages of several documents
+   */
+  async answerFromSources(
+    passages: ISourcePassage[],
+    question: string,
+    onUsage?: TokenUsageHandler,
+  ): Promise<ISourcesAnswer> {
+    return this.requestJson<ISourcesAnswer>(
+      [
+        { role: "system", content: buildSourcesSystemPrompt(passages) },
+        { role: "user", content: buildQuestionUserPrompt(question) },
+      ],
+      validateSourcesAnswerResponse,
+      undefined,
+      onUsage,
+    );
+  }
+
+  /**
+   * Requests a JSON completion and validates it
+   * Invalid responses are sent back to the model with the validation errors,
+   * up to repairAttempts times; after that a usable (normalized) response is
+   * accepted as is. Any failure is logged and reported as LLM_ANALYSIS_FAILED.
+   * With onContent, the first completion is streamed and onContent receives
+   * the content received so far; repairs are not streamed. onUsage receives
+   * the token usage of every request, repairs included
+   */
+  protected async requestJson<T>(
+    messages: IChatMessage[],
+    validate: ResponseValidator<T>,
+    onContent?: (content: string) => void,
+    onUsage?: TokenUsageHandler,
+  ): Promise<T> {
+    const conversation = [...messages];
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const content =
+          attempt === 0 && onContent
+            ? await this.streamChatCompletion(
+                conversation,
+                { json: true, onUsage },
+                onContent,
+              )
+            : await this.createChatCompletion(conversation, {
+                json: true,
+                onUsage,
+              });
+
+        let result: { value?: T; errors: string[] };
+        try {
+          result = validate(parseJsonContent(content));
+        } catch {
+          result = { errors: ["response is not valid JSON"] };
+        }
+
+        if (result.errors.length === 0) {
+          return result.value;
+        }
+
+        if (attempt >= this.repairAttempts) {
+          if (result.value === undefined) {
+            this.logger.error(
+              `${sysMsg.LLM_RESPONSE_INVALID}: ${result.errors.join("; ")}`,
+            );
+            throw new InternalServerErrorException(sysMsg.LLM_RESPONSE_INVALID);
+          }
+          this.logger.warn(
+            `${sysMsg.LLM_RESPONSE_ACCEPTED_WITH_ERRORS}: ${result.errors.join("; ")}`,
+          );
+          return result.value;
+        }
+
+        this.logger.warn(
+          `${sysMsg.LLM_RESPONSE_REPAIR} (${attempt + 1}/${this.repairAttempts}): ${result.errors.join("; ")}`,
+        );
+        conversation.push(
+          { role: "assistant", content },
+          { role: "user", content: buildRepairUserPrompt(result.errors) },
+        );
+      }
+    } catch (error) {
+      const errorMsg =
+        error.code === "ECONNRESET"
+          ? "Connection to the LLM provider was reset. The document might be too large or the network is unstable."
+          : error.response?.data?.error?.message || error.message;
+
+      this.logger.error(`${sysMsg.LLM_ANALYSIS_FAILED}: ${errorMsg}`);
+      throw new InternalServerErrorException(sysMsg.LLM_ANALYSIS_FAILED);
+    }
+  }
+
+  /**
+   * Sends a chat-completions request and returns the message content
+   */
+  protected async createChatCompletion(
+    messages: IChatMessage[],
+    options: { json?: boolean; onUsage?: TokenUsageHandler } = {},
+  ): Promise<string> {
+    this.assertConfigured();
+
+    const payload = {
+      model: this.model,
+      messages,
+      ...(options.json && { response_format: { type: "json_object" } }),
+    };
+
+    const response = await this.axiosInstance.post(
+      "/chat/completions",
+      payload,
+      {
+        validateStatus: (status) => status < 500, // Don't throw on 4xx errors
+      },
+    );
+    this.assertSuccessfulResponse(response.status, response.data);
+    this.reportUsage(response.data.usage, options.onUsage);
+
+    const content = response.data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new InternalServerErrorException(sysMsg.LLM_RESPONSE_INVALID);
+    }
+
+    return content;
+  }
+
+  /**
+   * Sends a streaming chat-completions request and returns the full message content
+   * onContent is called with the content received so far after every delta
+   */
+  protected async streamChatCompletion(
+    messages: IChatMessage[],
+    options: { json?: boolean; onUsage?: TokenUsageHandler },
+    onContent: (content: string) => void,
+  ): Promise<string> {
+    this.assertConfigured();
+
+    const payload = {
+      model: this.model,
+      messages,
+      stream: true,
+      // The usage arrives in a last event without choices
+      stream_options: { include_usage: true },
+      ...(options.json && { response_format: { type: "json_object" } }),
+    };
+
+    const response = await this.axiosInstance.post<Readable>(
+      "/chat/completions",
+      payload,
+      {
+        responseType: "stream",
+        validateStatus: (status) => status < 500,
+      },
+    );
+    if (response.status >= 400) {
+      this.assertSuccessfulResponse(
+        response.status,
+        await this.readErrorBody(response.data),
+      );
+    }
+
+    // Server-sent events: "data: {json}" lines, ended by "data: [DONE]"
+    let content = "";
+    let buffer = "";
+    for await (const chunk of response.data) {
+      buffer += chunk.toString("utf8");
+      const lines = buffer.split("\n");
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue; // Comments keep the connection alive
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return this.assertContent(content);
+
+        const event = JSON.parse(data);
+        if (event.error) {
+          throw new InternalServerErrorException(
+            `${this.name} API error: ${event.error.message || "Unknown error"}`,
+          );
+        }
+        this.reportUsage(event.usage, options.onUsage);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onContent(content);
+        }
+      }
+    }
+
+    return this.assertContent(content);
+  }
+
+  /**
+   * Reports the usage block of a completion, when the server sent one
+   */
+  private reportUsage(usage: unknown, onUsage?: TokenUsageHandler): void {
+    const tokenUsage = toTokenUsage(usage);
+    if (tokenUsage && onUsage) {
+      onUsage(tokenUsage);
+    }
+  }
+
+  private assertContent(content: string): string {
+    if (!content) {
+      throw new InternalServerErrorException(sysMsg.LLM_RESPONSE_INVALID);
+    }
+    return content;
+  }
+
+  /**
+   * Reads the JSON error body of a failed streaming request
+   */
+  private async readErrorBody(
+    stream: Readable,
+  ): Promise<{ error?: { message?: string } }> {
+    let body = "";
+    for await (const chunk of stream) {
+      body += chunk.toString("utf8");
+    }
+    try {
+      return JSON.parse(body);
+    } catch {
+      return { error: { message: body } };
+    }
+  }
+
+  /**
+   * Maps well-known API error statuses to their messages
+   */
+  private assertSuccessfulResponse(
+    status: number,
+    data: { error?: { message?: string } } | undefined,
+  ): void {
+    if (status === 401 || status === 403) {
+      this.logger.error(`${this.name} authentication failed: ${status}`);
+      throw new InternalServerErrorException(this.errorMessages.unauthorized);
+    }
+
+    if (status === 429) {
+      this.logger.error(`${this.name} rate limit exceeded`);
+      throw new InternalServerErrorException(this.errorMessages.rateLimit);
+    }
+
+    if (status === 402) {
+      this.logger.error(`${this.name} insufficient credits`);
+      throw new InternalServerErrorException(
+        this.errorMessages.insufficientCredits,
+      );
+    }
+
+    if (status >= 400) {
+      this.logger.error(`${this.name} API error: ${status}`, data);
+      throw new InternalServerErrorException(
+        `${this.name} API error: ${data?.error?.message || "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Checks the provider is usable before sending a request
+   * Local OpenAI-compatible servers usually don't require an API key
+   */
+  protected assertConfigured(): void {}
+}
@@ -0,0 +1,43 @@
+import { InternalServerErrorException } from "@nestjs/common";
+import * as sysMsg from "../../../constants/system.messages";
+import { LlmProviderName } from "../llm.constants";
+import {
+  IOpenAICompatibleOptions,
+  IProviderErrorMessages,
+  OpenAICompatibleProvider,
+} from "./openai-compatible.provider";
+
+/**
+ * LLM provider for the OpenRouter API
+ * OpenRouter speaks the OpenAI chat-completions protocol and requires an API key
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name: string = LlmProviderName.OPENROUTER;
+  protected readonly errorMessages: IProviderErrorMessages = {
+    apiKeyMissing: sysMsg.OPENROUTER_API_KEY_MISSING,
+    unauthorized: sysMsg.OPENROUTER_UNAUTHORIZED,
+    rateLimit: sysMsg.OPENROUTER_RATE_LIMIT,
+    insufficientCredits: sysMsg.OPENROUTER_INSUFFICIENT_CREDITS,
+  };
+
+  constructor(options: IOpenAICompatibleOptions) {
+    super({
+      ...options,
+      headers: {
+        "HTTP-Referer": "https://github.com/yourusername/ai-doc-summarizer",
+        "X-Title": "AI Document Summarizer",
+        ...options.headers,
+      },
+    });
+  }
+
+  /**
+   * Fails the request (not the app bootstrap) when no API key is configured
+   */
+  protected assertConfigured(): void {
+    if (!this.apiKey) {
+      this.logger.error(this.errorMessages.apiKeyMissing);
+      throw new InternalServerErrorException(this.errorMessages.apiKeyMissing);
+    }
+  }
+}
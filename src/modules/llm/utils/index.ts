@@ -0,0 +1,7 @@
+export * from "./text-chunker";
+export * from "./metadata-merge";
+export * from "./page-markers";
+export * from "./partial-json";
+export * from "./passage-ranking";
+export * from "./quote-locator";
+export * from "./token-usage";
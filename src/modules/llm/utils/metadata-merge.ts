@@ -0,0 +1,66 @@
+import { ExtractedMetadata, InvoiceLineItem } from "../../../common/types";
+
+type MetadataValue = ExtractedMetadata[string];
+
+const isEmpty = (value: MetadataValue): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Merges metadata extracted from several sections of the same document
+ * Scalar fields keep the first non-empty value; list fields are unioned and
+ * ordered by how many sections mention each entry; line items keep their
+ * order, and items repeated in the overlap between sections are kept once
+ */
+export const mergeExtractedMetadata = (
+  metadataList: ExtractedMetadata[],
+): ExtractedMetadata => {
+  const merged: ExtractedMetadata = {};
+  const listCounts = new Map<string, Map<string, number>>();
+  const lineItems = new Map<string, { item: InvoiceLineItem; count: number }>();
+
+  for (const metadata of metadataList) {
+    for (const [field, value] of Object.entries(metadata ?? {})) {
+      if (isEmpty(value)) continue;
+
+      if (field === "lineItems" && Array.isArray(value)) {
+        // The same item may appear several times within one section, but not across sections
+        const sectionCounts = new Map<string, number>();
+        for (const item of value as InvoiceLineItem[]) {
+          const key = JSON.stringify(item);
+          sectionCounts.set(key, (sectionCounts.get(key) ?? 0) + 1);
+          const entry = lineItems.get(key);
+          lineItems.set(key, {
+            item,
+            count: Math.max(entry?.count ?? 0, sectionCounts.get(key)),
+          });
+        }
+      } else if (Array.isArray(value)) {
+        const counts = listCounts.get(field) ?? new Map<string, number>();
+        for (const entry of value) {
+          const key = String(entry).trim();
+          if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+        listCounts.set(field, counts);
+      } else if (isEmpty(merged[field])) {
+        merged[field] = value;
+      }
+    }
+  }
+
+  if (lineItems.size > 0) {
+    merged.lineItems = [...lineItems.values()].flatMap(({ item, count }) =>
+      Array<InvoiceLineItem>(count).fill(item),
+    );
+  }
+
+  for (const [field, counts] of listCounts) {
+    merged[field] = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([entry]) => entry);
+  }
+
+  return merged;
+};
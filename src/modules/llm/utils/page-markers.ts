@@ -0,0 +1,43 @@
+/**
+ * Page markers let models cite page numbers; each marker sits on its own line
+ * before the text of the page it introduces
+ */
+export const formatPageMarker = (page: number): string => `[Page ${page}]`;
+
+/**
+ * Removes page markers, for consumers that treat the input as plain prose
+ */
+export const stripPageMarkers = (text: string): string =>
+  text.replace(/^\[Page \d+\][ \t]*(\r?\n|$)/gm, "");
+
+/**
+ * Text of a single page; page is null for text before the first marker
+ */
+export interface IPageText {
+  page: number | null;
+  text: string;
+}
+
+/**
+ * Splits text at its page markers, dropping the markers and empty pages
+ */
+export const splitByPageMarkers = (text: string): IPageText[] => {
+  const pages: IPageText[] = [];
+  const marker = /^\[Page (\d+)\][ \t]*(?:\r?\n|$)/gm;
+  let page: number | null = null;
+  let start = 0;
+
+  const pushPage = (end: number) => {
+    const pageText = text.substring(start, end).trim();
+    if (pageText) pages.push({ page, text: pageText });
+  };
+
+  for (const match of text.matchAll(marker)) {
+    pushPage(match.index);
+    page = Number(match[1]);
+    start = match.index + match[0].length;
+  }
+  pushPage(text.length);
+
+  return pages;
+};
@@ -0,0 +1,65 @@
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Decodes as much of a string field as has been received of a streamed JSON object
+ * Returns undefined until the field's value has started; an escape sequence
+ * cut off at the end of the input is left out until the rest arrives
+ */
+export const readPartialStringField = (
+  json: string,
+  field: string,
+): string | undefined => {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!start) return undefined;
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const escape = json[i + 1];
+    if (escape === undefined) break;
+    if (escape === "u") {
+      const code = json.slice(i + 2, i + 6);
+      if (!/^[\da-f]{4}$/i.test(code)) break;
+      value += String.fromCharCode(parseInt(code, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[escape] ?? escape;
+      i += 1;
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Reports the growth of a string field while a JSON object is being streamed
+ * Feed it the content received so far; the handler receives only the new text
+ */
+export const createPartialFieldReader = (
+  field: string,
+  onDelta: (delta: string) => void,
+): ((content: string) => void) => {
+  let emitted = 0;
+
+  return (content: string) => {
+    const value = readPartialStringField(content, field);
+    if (value === undefined || value.length <= emitted) return;
+    onDelta(value.slice(emitted));
+    emitted = value.length;
+  };
+};
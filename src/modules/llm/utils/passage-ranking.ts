@@ -0,0 +1,83 @@
+import { ITextChunk } from "./text-chunker";
+
+/**
+ * Words too common to tell passages apart
+ */
+const STOPWORDS = new Set(
+  (
+    "the and for are was were has have had does did can could would should " +
+    "will shall what which when where who whom whose why how this that these " +
+    "those there their with from into about than then them they you your " +
+    "our its not any all may must been being also"
+  ).split(" "),
+);
+
+/**
+ * Words of a text worth matching, in order and with repetitions, stemmed by trimming
+ * common suffixes so "terms" matches "term" and "payments" matches "payment"
+ */
+export const tokenizeTerms = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []) {
+    if (STOPWORDS.has(word)) continue;
+    const stem = word.replace(/(?:ing|ed|es|s)$/, "");
+    terms.push(stem.length >= 3 ? stem : word);
+  }
+  return terms;
+};
+
+/**
+ * Distinct terms of a query worth matching against passages
+ */
+export const extractQueryTerms = (query: string): string[] => [
+  ...new Set(tokenizeTerms(query)),
+];
+
+/**
+ * Key under which stemmed words are compared; a trailing "e" is dropped so
+ * "invoice" matches "invoices", whose stem is "invoic"
+ */
+const toMatchKey = (term: string): string =>
+  term.length > 3 ? term.replace(/e$/, "") : term;
+
+/**
+ * Returns the distinct query terms a passage contains as whole (stemmed) words
+ * Prefixes don't count, so "mars" (stemmed to "mar") doesn't match "march"
+ */
+export const findMatchingTerms = (text: string, terms: string[]): string[] => {
+  const words = new Set(tokenizeTerms(text).map(toMatchKey));
+  return terms.filter((term) => words.has(toMatchKey(term)));
+};
+
+/**
+ * Counts the distinct query terms a passage contains as whole (stemmed) words
+ */
+export const countMatchingTerms = (text: string, terms: string[]): number =>
+  findMatchingTerms(text, terms).length;
+
+/**
+ * Picks the chunks sharing the most terms with a query until maxTokens is
+ * reached, returned in document order so the context still reads naturally
+ */
+export const selectRelevantChunks = (
+  chunks: ITextChunk[],
+  query: string,
+  maxTokens: number,
+): ITextChunk[] => {
+  const terms = extractQueryTerms(query);
+  const ranked = chunks
+    .map((chunk) => ({ chunk, score: countMatchingTerms(chunk.text, terms) }))
+    .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index);
+
+  const selected: ITextChunk[] = [];
+  let tokens = 0;
+  for (const { chunk } of ranked) {
+    if (selected.length > 0 && tokens + chunk.tokenEstimate > maxTokens) {
+      continue;
+    }
+    selected.push(chunk);
+    tokens += chunk.tokenEstimate;
+  }
+
+  return selected.sort((a, b) => a.index - b.index);
+};
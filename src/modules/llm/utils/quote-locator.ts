@@ -0,0 +1,71 @@
+/**
+ * A quote found in the text it was taken from
+ */
+export interface ILocatedQuote {
+  /** The quoted passage as it appears in the text */
+  text: string;
+  /** Page of the passage, when the text has page markers */
+  page: number | null;
+}
+
+const PAGE_MARKER_PATTERN = /^\[Page (\d+)\]/gm;
+
+// Whitespace and Markdown table and heading syntax don't count when comparing quotes
+const isSeparator = (char: string): boolean => /[\s|#]/.test(char);
+
+/**
+ * Lower-cases text and collapses separators into single spaces, keeping the
+ * position in the original text of every character
+ */
+const normalizeWithPositions = (
+  text: string,
+): { normalized: string; positions: number[] } => {
+  let normalized = "";
+  const positions: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (isSeparator(text[i])) {
+      if (normalized && !normalized.endsWith(" ")) {
+        normalized += " ";
+        positions.push(i);
+      }
+    } else {
+      // Lower-casing may yield more than one character (e.g. "İ" becomes "i̇")
+      const lowered = text[i].toLowerCase();
+      normalized += lowered;
+      for (let j = 0; j < lowered.length; j++) positions.push(i);
+    }
+  }
+
+  return { normalized, positions };
+};
+
+/**
+ * Finds a quote in the text, ignoring case, whitespace and Markdown syntax
+ * Models often reflow or re-case what they quote; anything else (paraphrases,
+ * invented passages) isn't found and yields null
+ */
+export const locateQuote = (
+  text: string,
+  quote: string,
+): ILocatedQuote | null => {
+  const needle = normalizeWithPositions(
+    quote.replace(PAGE_MARKER_PATTERN, ""),
+  ).normalized.trim();
+  if (!needle) return null;
+
+  const { normalized, positions } = normalizeWithPositions(text);
+  const index = normalized.indexOf(needle);
+  if (index < 0) return null;
+
+  const start = positions[index];
+  const end = positions[index + needle.length - 1] + 1;
+
+  let page: number | null = null;
+  for (const marker of text.matchAll(PAGE_MARKER_PATTERN)) {
+    if (marker.index > start) break;
+    page = Number(marker[1]);
+  }
+
+  return { text: text.slice(start, end), page };
+};
@@ -0,0 +1,111 @@
+/**
+ * Token-aware text chunking for prompts that exceed the model's context budget
+ */
+
+/**
+ * Rough characters-per-token ratio for English text with BPE tokenizers
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * A contiguous section of a larger text
+ */
+export interface ITextChunk {
+  index: number;
+  text: string;
+  tokenEstimate: number;
+}
+
+export interface IChunkOptions {
+  maxTokens: number;
+  overlapTokens?: number;
+}
+
+/**
+ * Estimates the number of tokens in a text without a model-specific tokenizer
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Splits text into chunks of at most maxTokens, preferring paragraph and
+ * sentence boundaries. Consecutive chunks share overlapTokens of context.
+ */
+export const chunkText = (
+  text: string,
+  options: IChunkOptions,
+): ITextChunk[] => {
+  const maxChars = Math.max(options.maxTokens * CHARS_PER_TOKEN, 1);
+  const overlapChars = Math.min(
+    (options.overlapTokens ?? 0) * CHARS_PER_TOKEN,
+    Math.floor(maxChars / 2),
+  );
+
+  const segments = splitIntoSegments(text, maxChars);
+  const chunks: string[] = [];
+  let current = "";
+  let hasNewContent = false;
+
+  for (const segment of segments) {
+    if (hasNewContent && current.length + segment.length > maxChars) {
+      chunks.push(current.trim());
+      current = takeOverlap(current, overlapChars);
+      hasNewContent = false;
+    }
+    // Drop the overlap when it would push the chunk over the limit
+    if (current.length + segment.length > maxChars) {
+      current = "";
+    }
+    current += segment;
+    hasNewContent = true;
+  }
+  if (hasNewContent && current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks.map((chunk, index) => ({
+    index,
+    text: chunk,
+    tokenEstimate: estimateTokens(chunk),
+  }));
+};
+
+/**
+ * Breaks text into paragraph, sentence or hard-cut segments no longer than maxChars
+ * Segments keep their trailing whitespace so joining them restores the text
+ */
+const splitIntoSegments = (text: string, maxChars: number): string[] => {
+  const paragraphs = text.match(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*\s*|\s+/g) ?? [];
+
+  return paragraphs.flatMap((paragraph) => {
+    if (paragraph.length <= maxChars) return [paragraph];
+
+    const sentences = paragraph.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [paragraph];
+    return sentences.flatMap((sentence) => {
+      if (sentence.length <= maxChars) return [sentence];
+
+      const pieces: string[] = [];
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.substring(start, start + maxChars));
+      }
+      return pieces;
+    });
+  });
+};
+
+/**
+ * Returns the tail of a chunk to repeat at the start of the next one,
+ * starting at a sentence boundary when possible, otherwise at a word boundary
+ */
+const takeOverlap = (chunk: string, overlapChars: number): string => {
+  if (overlapChars <= 0) return "";
+
+  const tail = chunk.substring(chunk.length - overlapChars);
+  const sentenceEnd = tail.search(/[.!?]\s+\S/);
+  if (sentenceEnd >= 0) {
+    return tail.substring(sentenceEnd + 1).trimStart();
+  }
+
+  const wordStart = tail.search(/\s/);
+  return wordStart >= 0 ? tail.substring(wordStart + 1) : tail;
+};
@@ -0,0 +1,45 @@
+import { ITokenUsage } from "../interfaces";
+
+/**
+ * Token usage of nothing, to add completions to
+ */
+export const emptyTokenUsage = (): ITokenUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+});
+
+/**
+ * Adds the usage of a completion to a running total
+ */
+export const addTokenUsage = (
+  total: ITokenUsage,
+  usage: ITokenUsage,
+): ITokenUsage => {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  return total;
+};
+
+/**
+ * Reads the usage block of an OpenAI-compatible response
+ * ({prompt_tokens, completion_tokens, total_tokens}); returns null when absent
+ */
+export const toTokenUsage = (usage: unknown): ITokenUsage | null => {
+  if (typeof usage !== "object" || usage === null) return null;
+
+  const { prompt_tokens, completion_tokens, total_tokens } = usage as Record<
+    string,
+    unknown
+  >;
+  const promptTokens = Number(prompt_tokens) || 0;
+  const completionTokens = Number(completion_tokens) || 0;
+  if (!promptTokens && !completionTokens && !Number(total_tokens)) return null;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(total_tokens) || promptTokens + completionTokens,
+  };
+};
@@ -0,0 +1,2 @@
+export * from "./normalizers";
+export * from "./response-validators";
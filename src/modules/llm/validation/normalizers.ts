@@ -0,0 +1,160 @@
+import { DocumentType } from "../../documents/document.schema";
+
+/**
+ * Currency symbols mapped to ISO 4217 codes
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "₦": "NGN",
+  "¥": "JPY",
+};
+
+export const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+/**
+ * Common names for document types that models return instead of the enum value
+ */
+const DOCUMENT_TYPE_ALIASES: Record<string, DocumentType> = {
+  resume: DocumentType.CV,
+  résumé: DocumentType.CV,
+  "curriculum vitae": DocumentType.CV,
+  bill: DocumentType.INVOICE,
+  receipt: DocumentType.INVOICE,
+  agreement: DocumentType.CONTRACT,
+  memo: DocumentType.LETTER,
+  email: DocumentType.LETTER,
+  paper: DocumentType.ARTICLE,
+};
+
+/**
+ * Maps a model-provided document type onto the enum, ignoring case
+ * Returns null when the value can't be mapped
+ */
+export const normalizeDocumentType = (value: unknown): DocumentType | null => {
+  if (typeof value !== "string") return null;
+
+  const key = value.trim().toLowerCase();
+  const match = Object.values(DocumentType).find(
+    (type) => type.toLowerCase() === key,
+  );
+  return match ?? DOCUMENT_TYPE_ALIASES[key] ?? null;
+};
+
+/**
+ * Normalizes a currency symbol or code to an ISO 4217 code
+ */
+export const normalizeCurrency = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+
+  const trimmed = value.trim();
+  if (CURRENCY_SYMBOLS[trimmed]) return CURRENCY_SYMBOLS[trimmed];
+
+  const code = trimmed.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+/**
+ * Parses a monetary amount such as "$1,234.50", "1.234,50 EUR" or "NGN 5000"
+ * Returns null when the value doesn't contain exactly one amount
+ */
+export const parseMonetaryAmount = (
+  value: unknown,
+): { amount: number; currency?: string } | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { amount: value } : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const match = value
+    .trim()
+    .match(/^([^\d\s.,-]{1,3})?\s*(-?\d[\d\s.,']*)\s*([^\d\s.,-]{1,3})?$/u);
+  if (!match) return null;
+
+  const currency = normalizeCurrency(match[1] ?? match[3] ?? "");
+  if ((match[1] || match[3]) && !currency) return null;
+
+  let digits = match[2].replace(/[\s']/g, "");
+  if (/^\d{1,3}(\.\d{3}){2,}$/.test(digits)) {
+    // Dots as thousands separators, e.g. "1.234.567"
+    digits = digits.replace(/\./g, "");
+  }
+  const lastComma = digits.lastIndexOf(",");
+  const lastDot = digits.lastIndexOf(".");
+  if (lastComma > lastDot && digits.length - lastComma - 1 !== 3) {
+    // Comma is the decimal separator, e.g. "1.234,50"
+    digits = digits.replace(/\./g, "").replace(",", ".");
+  } else {
+    digits = digits.replace(/,/g, "");
+  }
+  if ((digits.match(/\./g) ?? []).length > 1) return null;
+
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+
+  return currency ? { amount, currency } : { amount };
+};
+
+const formatDate = (
+  year: number,
+  month: number,
+  day: number,
+): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+    ? date.toISOString().substring(0, 10)
+    : null;
+};
+
+/**
+ * Resolves a full or abbreviated month name ("March", "Mar.") to 1-12
+ */
+const monthNumber = (name: string): number | null => {
+  const word = name.toLowerCase().replace(/\.$/, "");
+  if (word.length < 3) return null;
+  const index = MONTHS.findIndex((month) => month.startsWith(word));
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * Normalizes common unambiguous date formats to YYYY-MM-DD
+ * Accepts ISO dates and timestamps, "March 5, 2024" and "5 Mar 2024"
+ */
+export const normalizeDate = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (iso) return formatDate(+iso[1], +iso[2], +iso[3]);
+
+  const monthFirst = text.match(
+    /^(\p{L}+\.?)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/iu,
+  );
+  const dayFirst = text.match(
+    /^(\d{1,2})(?:st|nd|rd|th)?\s+(\p{L}+\.?),?\s+(\d{4})$/iu,
+  );
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst
+      ? [dayFirst[2], dayFirst[1], dayFirst[3]]
+      : [];
+  const month = monthName && monthNumber(monthName);
+
+  return month ? formatDate(+year, month, +day) : null;
+};
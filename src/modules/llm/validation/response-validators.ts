@@ -0,0 +1,252 @@
+import { ExtractedMetadata } from "../../../common/types";
+import { DocumentType } from "../../documents/document.schema";
+import {
+  IChunkAnalysis,
+  IDocumentAnswer,
+  ILLMAnalysisResult,
+  ISourceQuote,
+  ISourcesAnswer,
+} from "../interfaces";
+import { IExtractionSchema } from "../extraction/extraction-schema.interface";
+import {
+  formatMetadataIssues,
+  validateExtractedMetadata,
+} from "../extraction/metadata-validator";
+import { normalizeDocumentType } from "./normalizers";
+
+/**
+ * Outcome of validating a model response
+ * value is the normalized response, or undefined when it is unusable;
+ * errors lists everything the model should fix
+ */
+export interface IValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+export type ResponseValidator<T> = (raw: unknown) => IValidationResult<T>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a model response as JSON, tolerating Markdown code fences and
+ * text around the object
+ */
+export const parseJsonContent = (content: string): unknown => {
+  const unfenced = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.indexOf("{");
+    const end = unfenced.lastIndexOf("}");
+    if (start < 0 || end <= start) throw error;
+    return JSON.parse(unfenced.substring(start, end + 1));
+  }
+};
+
+const validateSummary = (raw: Record<string, unknown>, errors: string[]) => {
+  if (typeof raw.summary !== "string" || !raw.summary.trim()) {
+    errors.push("summary: must be a non-empty string");
+    return undefined;
+  }
+  return raw.summary.trim();
+};
+
+const validateMetadataObject = (
+  raw: Record<string, unknown>,
+  errors: string[],
+): ExtractedMetadata => {
+  if (raw.extractedMetadata === undefined || raw.extractedMetadata === null) {
+    return {};
+  }
+  if (!isObject(raw.extractedMetadata)) {
+    errors.push("extractedMetadata: must be an object");
+    return {};
+  }
+  return raw.extractedMetadata as ExtractedMetadata;
+};
+
+/**
+ * Validates a full analysis (summary, document type and general metadata)
+ * Unknown document types fall back to "other"
+ */
+export const validateAnalysisResponse: ResponseValidator<ILLMAnalysisResult> = (
+  raw,
+) => {
+  if (!isObject(raw)) {
+    return { errors: ["response must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const summary = validateSummary(raw, errors);
+  const extractedMetadata = validateMetadataObject(raw, errors);
+
+  let documentType = normalizeDocumentType(raw.documentType);
+  if (!documentType) {
+    errors.push(
+      `documentType: "${raw.documentType}" is not one of ${Object.values(DocumentType).join(", ")}`,
+    );
+    documentType = DocumentType.OTHER;
+  }
+
+  return {
+    value: summary ? { summary, documentType, extractedMetadata } : undefined,
+    errors,
+  };
+};
+
+/**
+ * Validates the analysis of one section of a long document
+ */
+export const validateChunkAnalysisResponse: ResponseValidator<
+  IChunkAnalysis
+> = (raw) => {
+  if (!isObject(raw)) {
+    return { errors: ["response must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const summary = validateSummary(raw, errors);
+  const extractedMetadata = validateMetadataObject(raw, errors);
+
+  return {
+    value: summary ? { summary, extractedMetadata } : undefined,
+    errors,
+  };
+};
+
+/**
+ * Builds a validator for type-specific metadata
+ * Missing fields are accepted (they may not be in the document); invalid
+ * values are reported so the model can correct them
+ */
+export const buildMetadataResponseValidator =
+  (schema: IExtractionSchema): ResponseValidator<ExtractedMetadata> =>
+  (raw) => {
+    if (!isObject(raw)) {
+      return { errors: ["response must be a JSON object"] };
+    }
+
+    const { metadata, issues } = validateExtractedMetadata(raw, schema);
+    const invalid = issues.filter((issue) => issue.kind === "invalid");
+
+    return {
+      value: metadata,
+      errors: invalid.length ? [formatMetadataIssues(invalid)] : [],
+    };
+  };
+
+/**
+ * Reads the answer and answerable fields shared by question-answering responses
+ * answerable may be given as the string "true" or "false"
+ */
+const readAnswerFields = (
+  raw: Record<string, unknown>,
+  errors: string[],
+): { answer?: string; answerable?: boolean } => {
+  const answer =
+    typeof raw.answer === "string" && raw.answer.trim()
+      ? raw.answer.trim()
+      : undefined;
+  if (!answer) {
+    errors.push("answer: must be a non-empty string");
+  }
+
+  let answerable = raw.answerable;
+  if (answerable === "true" || answerable === "false") {
+    answerable = answerable === "true";
+  }
+  if (typeof answerable !== "boolean") {
+    errors.push("answerable: must be true or false");
+    return { answer };
+  }
+
+  return { answer, answerable };
+};
+
+/**
+ * Validates the answer to a question about a document
+ * Quotes must be strings; whether they occur in the document is checked by the caller
+ */
+export const validateAnswerResponse: ResponseValidator<IDocumentAnswer> = (
+  raw,
+) => {
+  if (!isObject(raw)) {
+    return { errors: ["response must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const { answer, answerable } = readAnswerFields(raw, errors);
+
+  const quotes = raw.quotes ?? [];
+  if (
+    !Array.isArray(quotes) ||
+    quotes.some((quote) => typeof quote !== "string")
+  ) {
+    errors.push("quotes: must be a list of strings");
+  }
+
+  return {
+    value:
+      answer && answerable !== undefined
+        ? {
+            answer,
+            answerable,
+            quotes: Array.isArray(quotes)
+              ? quotes.filter(
+                  (quote): quote is string =>
+                    typeof quote === "string" && quote.trim() !== "",
+                )
+              : [],
+          }
+        : undefined,
+    errors,
+  };
+};
+
+/**
+ * Validates the answer to a question about numbered source passages
+ * Citations must name a source number and a quote; whether the quote occurs
+ * in that source is checked by the caller
+ */
+export const validateSourcesAnswerResponse: ResponseValidator<
+  ISourcesAnswer
+> = (raw) => {
+  if (!isObject(raw)) {
+    return { errors: ["response must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const { answer, answerable } = readAnswerFields(raw, errors);
+
+  const rawCitations = raw.citations ?? [];
+  const citations: ISourceQuote[] = [];
+  if (!Array.isArray(rawCitations)) {
+    errors.push("citations: must be a list of objects");
+  } else {
+    rawCitations.forEach((citation, index) => {
+      const source = isObject(citation) ? Number(citation.source) : NaN;
+      const quote = isObject(citation) ? citation.quote : undefined;
+      if (!Number.isInteger(source) || typeof quote !== "string") {
+        errors.push(
+          `citations[${index}]: must have a source number and a quote string`,
+        );
+      } else if (quote.trim()) {
+        citations.push({ source, quote });
+      }
+    });
+  }
+
+  return {
+    value:
+      answer && answerable !== undefined
+        ? { answer, answerable, citations }
+        : undefined,
+    errors,
+  };
+};
@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from "@nestjs/common";
+import * as mammoth from "mammoth";
+import * as sysMsg from "../../../constants/system.messages";
+import { DOCX_MIME_TYPE } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { htmlToStructureBlocks } from "../utils/html-structure";
+
+/**
+ * Extracts the raw text of Word (DOCX) documents
+ * The structure comes from mammoth's HTML conversion, which maps Word heading styles to <h1>-<h6>
+ */
+@Injectable()
+export class DocxExtractor implements TextExtractor {
+  readonly name = "DOCX";
+  readonly mimetypes = [DOCX_MIME_TYPE];
+
+  private readonly logger = new Logger(DocxExtractor.name);
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    try {
+      const [rawText, html] = await Promise.all([
+        mammoth.extractRawText({ buffer }),
+        mammoth.convertToHtml({ buffer }),
+      ]);
+      return {
+        text: rawText.value,
+        ocr: null,
+        structure: {
+          pageCount: null,
+          blocks: htmlToStructureBlocks(html.value),
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.TEXT_EXTRACTION_DOCX_FAILED}: ${error.message}`,
+      );
+      throw new InternalServerErrorException(
+        sysMsg.TEXT_EXTRACTION_DOCX_FAILED,
+      );
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable } from "@nestjs/common";
+import { AddressObject, simpleParser } from "mailparser";
+import { EML_MIME_TYPE } from "../text-extraction.constants";
+import {
+  IExtractedContent,
+  StructureBlock,
+  TextExtractor,
+} from "../interfaces";
+import { convertHtmlToText } from "../utils/html-text";
+import { htmlToStructureBlocks } from "../utils/html-structure";
+import { textToParagraphs } from "../utils/structure";
+
+/**
+ * Extracts emails (EML): the main headers followed by the message body
+ * Headers are kept since sender, recipient, date and subject are what analysis looks for
+ */
+@Injectable()
+export class EmlExtractor implements TextExtractor {
+  readonly name = "EML";
+  readonly mimetypes = [EML_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    const mail = await simpleParser(buffer);
+
+    const headers = [
+      ["From", this.formatAddresses(mail.from)],
+      ["To", this.formatAddresses(mail.to)],
+      ["Cc", this.formatAddresses(mail.cc)],
+      ["Date", mail.date?.toISOString()],
+      ["Subject", mail.subject],
+    ]
+      .filter(([, value]) => value)
+      .map(([name, value]) => `${name}: ${value}`);
+
+    const body =
+      mail.text?.trim() || (mail.html ? convertHtmlToText(mail.html) : "");
+    const attachments = (mail.attachments ?? [])
+      .map((attachment) => attachment.filename)
+      .filter(Boolean);
+    const attachmentList =
+      attachments.length > 0 ? `Attachments: ${attachments.join(", ")}` : "";
+
+    // The subject titles the message; HTML bodies keep their own headings and tables
+    const blocks: StructureBlock[] = [];
+    if (mail.subject) {
+      blocks.push({ type: "heading", level: 1, text: mail.subject });
+    }
+    blocks.push(...textToParagraphs(headers.join("\n")));
+    blocks.push(
+      ...(mail.html
+        ? htmlToStructureBlocks(mail.html)
+        : textToParagraphs(body)),
+    );
+    blocks.push(...textToParagraphs(attachmentList));
+
+    return {
+      text: [headers.join("\n"), body, attachmentList]
+        .filter(Boolean)
+        .join("\n\n"),
+      ocr: null,
+      structure: { pageCount: null, blocks },
+    };
+  }
+
+  private formatAddresses(
+    addresses: AddressObject | AddressObject[] | undefined,
+  ): string | undefined {
+    if (!addresses) return undefined;
+    return (Array.isArray(addresses) ? addresses : [addresses])
+      .map((address) => address.text)
+      .join(", ");
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable } from "@nestjs/common";
+import { HTML_MIME_TYPE } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { decodeText } from "../utils/decode-text";
+import { convertHtmlToText } from "../utils/html-text";
+import { htmlToStructureBlocks } from "../utils/html-structure";
+
+/**
+ * Extracts the visible text of HTML pages
+ */
+@Injectable()
+export class HtmlExtractor implements TextExtractor {
+  readonly name = "HTML";
+  readonly mimetypes = [HTML_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    const html = decodeText(buffer);
+    return {
+      text: convertHtmlToText(html),
+      ocr: null,
+      structure: { pageCount: null, blocks: htmlToStructureBlocks(html) },
+    };
+  }
+}
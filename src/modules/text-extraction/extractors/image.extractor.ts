@@ -0,0 +1,47 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import * as sysMsg from "../../../constants/system.messages";
+import { OcrService } from "../ocr.service";
+import { OCR_IMAGE_MIME_TYPES } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { averageConfidence } from "../utils/confidence";
+import { textToParagraphs } from "../utils/structure";
+
+/**
+ * Recognizes the text of PNG, JPEG and TIFF images with OCR
+ */
+@Injectable()
+export class ImageExtractor implements TextExtractor {
+  readonly name = "OCR";
+  readonly mimetypes = OCR_IMAGE_MIME_TYPES;
+
+  private readonly logger = new Logger(ImageExtractor.name);
+
+  constructor(private readonly ocrService: OcrService) {}
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    if (!this.ocrService.isEnabled()) {
+      throw new UnsupportedMediaTypeException(sysMsg.OCR_DISABLED);
+    }
+
+    try {
+      const { text, confidence } = await this.ocrService.recognize(buffer);
+      return {
+        text: text.trim(),
+        structure: { pageCount: 1, blocks: textToParagraphs(text, 1) },
+        ocr: this.ocrService.buildResult([
+          { page: 1, confidence: averageConfidence([confidence]) },
+        ]),
+      };
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.TEXT_EXTRACTION_OCR_FAILED}: ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.TEXT_EXTRACTION_OCR_FAILED);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export * from "./pdf.extractor";
+export * from "./docx.extractor";
+export * from "./image.extractor";
+export * from "./plain-text.extractor";
+export * from "./markdown.extractor";
+export * from "./html.extractor";
+export * from "./rtf.extractor";
+export * from "./odt.extractor";
+export * from "./xlsx.extractor";
+export * from "./eml.extractor";
@@ -0,0 +1,29 @@
+import { Injectable } from "@nestjs/common";
+import { MARKDOWN_MIME_TYPE } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { decodeText } from "../utils/decode-text";
+import {
+  convertMarkdownToText,
+  markdownToStructureBlocks,
+} from "../utils/markdown-text";
+
+/**
+ * Reads Markdown files, stripping the markup
+ */
+@Injectable()
+export class MarkdownExtractor implements TextExtractor {
+  readonly name = "Markdown";
+  readonly mimetypes = [MARKDOWN_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    const markdown = decodeText(buffer);
+    return {
+      text: convertMarkdownToText(markdown),
+      ocr: null,
+      structure: {
+        pageCount: null,
+        blocks: markdownToStructureBlocks(markdown),
+      },
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable } from "@nestjs/common";
+import * as JSZip from "jszip";
+import { Element, Node } from "@xmldom/xmldom";
+import { ODT_MIME_TYPE } from "../text-extraction.constants";
+import {
+  IExtractedContent,
+  StructureBlock,
+  TextExtractor,
+} from "../interfaces";
+import { normalizeBlockText } from "../utils/structure";
+import {
+  attributeValue,
+  childElements,
+  descendantElements,
+  parseXml,
+} from "../utils/xml";
+
+// Comments and tracked deletions are not part of the document text
+const SKIPPED_ELEMENTS = new Set(["annotation", "tracked-changes"]);
+
+/**
+ * Extracts the text of OpenDocument text files (ODT)
+ */
+@Injectable()
+export class OdtExtractor implements TextExtractor {
+  readonly name = "ODT";
+  readonly mimetypes = [ODT_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    const zip = await JSZip.loadAsync(buffer);
+    const content = await zip.file("content.xml")?.async("string");
+    if (!content) {
+      throw new Error("content.xml is missing from the archive");
+    }
+
+    // Styles and font declarations precede <office:body> and carry no text
+    const document = parseXml(content);
+    const body =
+      descendantElements(document, "body")[0] ?? document.documentElement;
+    return {
+      text: this.renderNode(body)
+        .replace(/\n{3,}/g, "\n\n")
+        .trim(),
+      ocr: null,
+      structure: { pageCount: null, blocks: this.collectBlocks(body) },
+    };
+  }
+
+  /**
+   * Headings (with their outline level), paragraphs and tables in document order
+   */
+  private collectBlocks(element: Element): StructureBlock[] {
+    const blocks: StructureBlock[] = [];
+
+    for (const child of childElements(element)) {
+      if (SKIPPED_ELEMENTS.has(child.localName)) continue;
+
+      if (child.localName === "h" || child.localName === "p") {
+        const text = normalizeBlockText(this.renderChildren(child));
+        if (!text) continue;
+        blocks.push(
+          child.localName === "h"
+            ? {
+                type: "heading",
+                level: Number(attributeValue(child, "outline-level") ?? 1),
+                text,
+              }
+            : { type: "paragraph", text },
+        );
+      } else if (child.localName === "table") {
+        const rows = descendantElements(child, "table-row")
+          .map((row) =>
+            childElements(row, "table-cell").map((cell) =>
+              normalizeBlockText(this.renderChildren(cell)),
+            ),
+          )
+          .filter((cells) => cells.some(Boolean));
+        if (rows.length > 0) blocks.push({ type: "table", rows });
+      } else {
+        blocks.push(...this.collectBlocks(child));
+      }
+    }
+
+    return blocks;
+  }
+
+  private renderNode(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) return node.nodeValue ?? "";
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+    const element = node as Element;
+    switch (element.localName) {
+      case "s":
+        // Runs of spaces are stored as <text:s text:c="n"/>
+        return " ".repeat(Number(attributeValue(element, "c") ?? 1));
+      case "tab":
+        return "\t";
+      case "line-break":
+        return "\n";
+      case "p":
+      case "h":
+        return `${this.renderChildren(element)}\n`;
+      case "table-row":
+        return `${childElements(element, "table-cell")
+          .map((cell) => this.renderChildren(cell).trim())
+          .join("\t")}\n`;
+      default:
+        return SKIPPED_ELEMENTS.has(element.localName)
+          ? ""
+          : this.renderChildren(element);
+    }
+  }
+
+  private renderChildren(element: Element): string {
+    return Array.from(element.childNodes)
+      .map((child) => this.renderNode(child))
+      .join("");
+  }
+}
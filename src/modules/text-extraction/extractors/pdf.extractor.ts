@@ -0,0 +1,145 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as sysMsg from "../../../constants/system.messages";
+import { OcrService } from "../ocr.service";
+import {
+  DEFAULT_OCR_MAX_PAGES,
+  DEFAULT_OCR_MIN_PAGE_CHARS,
+  PDF_MIME_TYPE,
+} from "../text-extraction.constants";
+import {
+  IExtractedContent,
+  IOcrPageResult,
+  IOcrResult,
+  TextExtractor,
+} from "../interfaces";
+import { extractPdfPages, IPdfPage, joinPdfPageTexts } from "../utils/pdf-text";
+import { buildPdfStructure } from "../utils/pdf-structure";
+import { extractPdfPageImages } from "../utils/pdf-page-images";
+import { averageConfidence } from "../utils/confidence";
+
+/**
+ * Extracts the text layer of PDFs
+ * Pages without a usable text layer are treated as scans and run through OCR
+ */
+@Injectable()
+export class PdfExtractor implements TextExtractor {
+  readonly name = "PDF";
+  readonly mimetypes = [PDF_MIME_TYPE];
+
+  private readonly logger = new Logger(PdfExtractor.name);
+  private readonly minPageChars: number;
+  private readonly maxOcrPages: number;
+
+  constructor(
+    private readonly ocrService: OcrService,
+    private readonly configService: ConfigService,
+  ) {
+    this.minPageChars = Number(
+      this.configService.get<string>(
+        "OCR_MIN_PAGE_CHARS",
+        String(DEFAULT_OCR_MIN_PAGE_CHARS),
+      ),
+    );
+    this.maxOcrPages = Number(
+      this.configService.get<string>(
+        "OCR_MAX_PAGES",
+        String(DEFAULT_OCR_MAX_PAGES),
+      ),
+    );
+  }
+
+  async extract(buffer: Buffer, filename: string): Promise<IExtractedContent> {
+    let pages: IPdfPage[];
+    try {
+      pages = await extractPdfPages(buffer);
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.TEXT_EXTRACTION_PDF_FAILED}: ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.TEXT_EXTRACTION_PDF_FAILED);
+    }
+
+    const scannedPages = pages
+      .map(({ text }, index) => ({ text, page: index + 1 }))
+      .filter(({ text }) => countCharacters(text) < this.minPageChars)
+      .map(({ page }) => page);
+
+    if (scannedPages.length === 0) {
+      return this.buildContent(pages, null);
+    }
+
+    if (!this.ocrService.isEnabled()) {
+      this.logger.warn(`${sysMsg.OCR_DISABLED_SCANNED_PDF}: ${filename}`);
+      return this.buildContent(pages, null);
+    }
+
+    const ocrPages = scannedPages.slice(0, this.maxOcrPages);
+    if (scannedPages.length > ocrPages.length) {
+      this.logger.warn(
+        `${sysMsg.OCR_PAGE_LIMIT_REACHED} (${ocrPages.length} of ${scannedPages.length} pages): ${filename}`,
+      );
+    }
+
+    try {
+      const pageImages = await extractPdfPageImages(buffer, ocrPages);
+      const results: IOcrPageResult[] = [];
+
+      for (const page of ocrPages) {
+        const images = pageImages.get(page) ?? [];
+        // Blank pages have nothing to recognize
+        if (images.length === 0) continue;
+
+        const recognitions = [];
+        for (const image of images) {
+          recognitions.push(await this.ocrService.recognize(image));
+        }
+
+        const text = recognitions
+          .map((recognition) => recognition.text.trim())
+          .filter(Boolean)
+          .join("\n\n");
+        // Keep a sparse text layer (e.g. a stamped page number) unless OCR found more
+        if (countCharacters(text) > countCharacters(pages[page - 1].text)) {
+          pages[page - 1] = { text, lines: [] };
+        }
+        results.push({
+          page,
+          confidence: averageConfidence(recognitions.map((r) => r.confidence)),
+        });
+      }
+
+      this.logger.log(
+        `${sysMsg.OCR_PAGES_RECOGNIZED} (${results.length}): ${filename}`,
+      );
+      return this.buildContent(
+        pages,
+        results.length > 0 ? this.ocrService.buildResult(results) : null,
+      );
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.TEXT_EXTRACTION_OCR_FAILED}: ${error.message}`,
+      );
+      throw new InternalServerErrorException(sysMsg.TEXT_EXTRACTION_OCR_FAILED);
+    }
+  }
+
+  private buildContent(
+    pages: IPdfPage[],
+    ocr: IOcrResult | null,
+  ): IExtractedContent {
+    return {
+      text: joinPdfPageTexts(pages),
+      ocr,
+      structure: buildPdfStructure(pages),
+    };
+  }
+}
+
+function countCharacters(text: string): number {
+  return text.replace(/\s+/g, "").length;
+}
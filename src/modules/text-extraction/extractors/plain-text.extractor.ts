@@ -0,0 +1,17 @@
+import { Injectable } from "@nestjs/common";
+import { PLAIN_TEXT_MIME_TYPE } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { decodeText } from "../utils/decode-text";
+
+/**
+ * Reads plain text files
+ */
+@Injectable()
+export class PlainTextExtractor implements TextExtractor {
+  readonly name = "TXT";
+  readonly mimetypes = [PLAIN_TEXT_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    return { text: decodeText(buffer).replace(/\r\n?/g, "\n"), ocr: null };
+  }
+}
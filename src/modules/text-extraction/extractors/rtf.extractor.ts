@@ -0,0 +1,18 @@
+import { Injectable } from "@nestjs/common";
+import { RTF_MIME_TYPE } from "../text-extraction.constants";
+import { IExtractedContent, TextExtractor } from "../interfaces";
+import { rtfToText } from "../utils/rtf-to-text";
+
+/**
+ * Extracts the text of Rich Text Format documents
+ */
+@Injectable()
+export class RtfExtractor implements TextExtractor {
+  readonly name = "RTF";
+  readonly mimetypes = [RTF_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    // RTF is 7-bit ASCII; other characters are escaped in the markup
+    return { text: rtfToText(buffer.toString("latin1")), ocr: null };
+  }
+}
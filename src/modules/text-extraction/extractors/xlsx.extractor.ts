@@ -0,0 +1,148 @@
+import { Injectable } from "@nestjs/common";
+import * as JSZip from "jszip";
+import * as path from "path";
+import { Element } from "@xmldom/xmldom";
+import { XLSX_MIME_TYPE } from "../text-extraction.constants";
+import {
+  IExtractedContent,
+  StructureBlock,
+  TextExtractor,
+} from "../interfaces";
+import {
+  attributeValue,
+  childElements,
+  descendantElements,
+  parseXml,
+} from "../utils/xml";
+
+/**
+ * Extracts the cell values of Excel workbooks (XLSX), one tab-separated line per row
+ */
+@Injectable()
+export class XlsxExtractor implements TextExtractor {
+  readonly name = "XLSX";
+  readonly mimetypes = [XLSX_MIME_TYPE];
+
+  async extract(buffer: Buffer): Promise<IExtractedContent> {
+    const zip = await JSZip.loadAsync(buffer);
+    const sharedStrings = await this.readSharedStrings(zip);
+    const sections: string[] = [];
+    const blocks: StructureBlock[] = [];
+
+    for (const sheet of await this.readSheets(zip)) {
+      const xml = await zip.file(sheet.path)?.async("string");
+      if (!xml) continue;
+
+      const rows = descendantElements(parseXml(xml), "row")
+        .map((row) => this.readRow(row, sharedStrings))
+        .filter((cells) => cells.some(Boolean));
+      if (rows.length === 0) continue;
+
+      sections.push(
+        `Sheet: ${sheet.name}\n${rows.map((cells) => cells.join("\t")).join("\n")}`,
+      );
+      // Each sheet becomes a section holding one table
+      blocks.push({ type: "heading", level: 1, text: sheet.name });
+      blocks.push({ type: "table", rows });
+    }
+
+    return {
+      text: sections.join("\n\n"),
+      ocr: null,
+      structure: { pageCount: null, blocks },
+    };
+  }
+
+  /**
+   * Worksheet names and archive paths, in workbook order
+   */
+  private async readSheets(
+    zip: JSZip,
+  ): Promise<{ name: string; path: string }[]> {
+    const workbook = await zip.file("xl/workbook.xml")?.async("string");
+    const rels = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+    if (!workbook || !rels) {
+      throw new Error("Workbook parts are missing from the archive");
+    }
+
+    const targets = new Map(
+      descendantElements(parseXml(rels), "Relationship").map((rel) => [
+        rel.getAttribute("Id"),
+        rel.getAttribute("Target"),
+      ]),
+    );
+
+    return descendantElements(parseXml(workbook), "sheet")
+      .map((sheet) => {
+        const target = targets.get(attributeValue(sheet, "id"));
+        return {
+          name: sheet.getAttribute("name"),
+          // Targets are relative to xl/ unless they start at the archive root
+          path: target?.startsWith("/")
+            ? target.slice(1)
+            : target && path.posix.join("xl", target),
+        };
+      })
+      .filter((sheet) => Boolean(sheet.path));
+  }
+
+  private async readSharedStrings(zip: JSZip): Promise<string[]> {
+    const xml = await zip.file("xl/sharedStrings.xml")?.async("string");
+    if (!xml) return [];
+
+    return childElements(parseXml(xml).documentElement, "si").map((item) =>
+      this.readRichText(item),
+    );
+  }
+
+  /**
+   * Text of a string item; phonetic hints (<rPh>) are skipped
+   */
+  private readRichText(item: Element): string {
+    return descendantElements(item, "t")
+      .filter((t) => (t.parentNode as Element).localName !== "rPh")
+      .map((t) => t.textContent ?? "")
+      .join("");
+  }
+
+  private readRow(row: Element, sharedStrings: string[]): string[] {
+    const cells: string[] = [];
+
+    for (const cell of childElements(row, "c")) {
+      // Empty cells are omitted from the XML, so place values by their column letter
+      const column = this.columnIndex(cell.getAttribute("r"));
+      const index = column ?? cells.length;
+      while (cells.length < index) cells.push("");
+      cells[index] = this.readCellValue(cell, sharedStrings);
+    }
+
+    // Trailing empty cells carry no information
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    return cells;
+  }
+
+  private readCellValue(cell: Element, sharedStrings: string[]): string {
+    const type = cell.getAttribute("t");
+    if (type === "inlineStr") {
+      const inline = childElements(cell, "is")[0];
+      return inline ? this.readRichText(inline) : "";
+    }
+
+    const value = childElements(cell, "v")[0]?.textContent ?? "";
+    if (type === "s") return sharedStrings[Number(value)] ?? "";
+    if (type === "b") return value === "1" ? "TRUE" : "FALSE";
+    return value;
+  }
+
+  private columnIndex(reference: string | null): number | null {
+    const letters = /^([A-Z]+)\d*$/i.exec(reference ?? "")?.[1];
+    if (!letters) return null;
+
+    return (
+      [...letters.toUpperCase()].reduce(
+        (index, letter) => index * 26 + (letter.charCodeAt(0) - 64),
+        0,
+      ) - 1
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Section heading; level 1 is the top level
+ */
+export interface IHeadingBlock {
+  type: "heading";
+  level: number;
+  text: string;
+  page?: number;
+}
+
+export interface IParagraphBlock {
+  type: "paragraph";
+  text: string;
+  page?: number;
+}
+
+/**
+ * Table as rows of cell texts, in reading order
+ */
+export interface ITableBlock {
+  type: "table";
+  rows: string[][];
+  page?: number;
+}
+
+export type StructureBlock = IHeadingBlock | IParagraphBlock | ITableBlock;
+
+/**
+ * Layout of an extracted document, kept alongside the flat extracted text
+ * Blocks carry a 1-based page number for paginated formats (PDF, images)
+ */
+export interface IDocumentStructure {
+  pageCount: number | null; // null for formats without pages
+  blocks: StructureBlock[];
+}
+
+/**
+ * Table stored on the document, with its first row taken as the header
+ */
+export interface IExtractedTable {
+  page: number | null; // null for formats without pages
+  header: string[];
+  rows: string[][]; // Padded to the header's width
+}
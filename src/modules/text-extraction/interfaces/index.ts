@@ -0,0 +1,3 @@
+export * from "./document-structure.interface";
+export * from "./text-extraction-result.interface";
+export * from "./text-extractor.interface";
@@ -0,0 +1,40 @@
+import {
+  IDocumentStructure,
+  IExtractedTable,
+} from "./document-structure.interface";
+
+/**
+ * OCR confidence for a single page or image
+ */
+export interface IOcrPageResult {
+  page: number; // 1-based
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+/**
+ * Details of an OCR pass, stored on the document
+ */
+export interface IOcrResult {
+  engine: string;
+  languages: string[];
+  pages: IOcrPageResult[];
+  averageConfidence: number;
+}
+
+/**
+ * Content produced by a single TextExtractor
+ */
+export interface IExtractedContent {
+  text: string;
+  ocr: IOcrResult | null; // null when the text came from the file's own text layer
+  structure?: IDocumentStructure; // Plain paragraphs are derived from the text when omitted
+}
+
+/**
+ * Text extracted from an uploaded file
+ */
+export interface ITextExtractionResult extends IExtractedContent {
+  mimetype: string; // Detected from the file contents, not the upload's Content-Type
+  structure: IDocumentStructure;
+  tables: IExtractedTable[];
+}
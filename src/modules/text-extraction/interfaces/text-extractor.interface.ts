@@ -0,0 +1,12 @@
+import { IExtractedContent } from "./text-extraction-result.interface";
+
+/**
+ * Contract for a text extractor handling one family of file formats
+ * Extractors are registered under the TEXT_EXTRACTORS token and selected by detected mimetype
+ */
+export interface TextExtractor {
+  readonly name: string;
+  readonly mimetypes: string[];
+
+  extract(buffer: Buffer, filename: string): Promise<IExtractedContent>;
+}
@@ -0,0 +1,108 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as path from "path";
+import { createWorker, OEM, Worker } from "tesseract.js";
+import * as sysMsg from "../../constants/system.messages";
+import { DEFAULT_OCR_LANGUAGES } from "./text-extraction.constants";
+import { IOcrPageResult, IOcrResult } from "./interfaces";
+import { averageConfidence } from "./utils/confidence";
+
+// The @tesseract.js-data/eng package ships the English LSTM model, so OCR works offline
+const BUNDLED_LANG_PATH = path.join(
+  path.dirname(require.resolve("@tesseract.js-data/eng")),
+  "4.0.0",
+);
+
+/**
+ * Recognized text of a single image
+ */
+export interface IOcrRecognition {
+  text: string;
+  confidence: number;
+}
+
+/**
+ * Optical character recognition backed by the Tesseract WASM engine
+ * The worker is started on first use and reused for later documents
+ */
+@Injectable()
+export class OcrService implements OnModuleDestroy {
+  private readonly logger = new Logger(OcrService.name);
+  private readonly enabled: boolean;
+  private readonly languages: string[];
+  private readonly langPath: string;
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled =
+      this.configService.get<string>("OCR_ENABLED", "true") !== "false";
+    this.languages = this.configService
+      .get<string>("OCR_LANGUAGES", DEFAULT_OCR_LANGUAGES)
+      .split(/[+,]/)
+      .map((language) => language.trim())
+      .filter(Boolean);
+    this.langPath =
+      this.configService.get<string>("OCR_LANG_PATH") || BUNDLED_LANG_PATH;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getLanguages(): string[] {
+    return this.languages;
+  }
+
+  /**
+   * Recognizes the text in an image buffer (PNG, JPEG or TIFF)
+   */
+  async recognize(image: Buffer): Promise<IOcrRecognition> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, confidence: data.confidence };
+  }
+
+  /**
+   * Summarizes per-page recognitions into the OCR details stored on a document
+   */
+  buildResult(pages: IOcrPageResult[]): IOcrResult {
+    return {
+      engine: "tesseract",
+      languages: this.languages,
+      pages,
+      averageConfidence: averageConfidence(
+        pages.map((page) => page.confidence),
+      ),
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.worker) return;
+
+    const worker = this.worker;
+    this.worker = null;
+    try {
+      await (await worker).terminate();
+    } catch {
+      // The worker failed to start, so there is nothing to terminate
+    }
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.logger.log(
+        `${sysMsg.OCR_ENGINE_STARTING}: ${this.languages.join("+")}`,
+      );
+      this.worker = createWorker(this.languages, OEM.LSTM_ONLY, {
+        langPath: this.langPath,
+        gzip: true,
+        cacheMethod: "none",
+      }).catch((error) => {
+        // Allow a later document to retry instead of caching the failure
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Injection token for the list of registered TextExtractors
+ */
+export const TEXT_EXTRACTORS = "TEXT_EXTRACTORS";
+
+export const PDF_MIME_TYPE = "application/pdf";
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+export const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+export const RTF_MIME_TYPE = "application/rtf";
+export const HTML_MIME_TYPE = "text/html";
+export const MARKDOWN_MIME_TYPE = "text/markdown";
+export const PLAIN_TEXT_MIME_TYPE = "text/plain";
+export const EML_MIME_TYPE = "message/rfc822";
+export const PNG_MIME_TYPE = "image/png";
+export const JPEG_MIME_TYPE = "image/jpeg";
+export const TIFF_MIME_TYPE = "image/tiff";
+
+/**
+ * Image uploads have no text layer and always go through OCR
+ */
+export const OCR_IMAGE_MIME_TYPES = [
+  PNG_MIME_TYPE,
+  JPEG_MIME_TYPE,
+  TIFF_MIME_TYPE,
+];
+
+export const DEFAULT_OCR_LANGUAGES = "eng";
+// PDF pages with fewer non-whitespace characters than this are treated as scanned
+export const DEFAULT_OCR_MIN_PAGE_CHARS = 20;
+export const DEFAULT_OCR_MAX_PAGES = 20;
+// Smaller embedded images (logos, icons, rules) are not worth recognizing
+export const MIN_OCR_IMAGE_PIXELS = 10000;
@@ -1,8 +1,46 @@
 import { Module } from "@nestjs/common";
 import { TextExtractionService } from "./text-extraction.service";
+import { OcrService } from "./ocr.service";
+import { TEXT_EXTRACTORS } from "./text-extraction.constants";
+import { TextExtractor } from "./interfaces";
+import {
+  DocxExtractor,
+  EmlExtractor,
+  HtmlExtractor,
+  ImageExtractor,
+  MarkdownExtractor,
+  OdtExtractor,
+  PdfExtractor,
+  PlainTextExtractor,
+  RtfExtractor,
+  XlsxExtractor,
+} from "./extractors";
+
+// Supporting a new format means adding its extractor here
+const EXTRACTORS = [
+  PdfExtractor,
+  DocxExtractor,
+  ImageExtractor,
+  PlainTextExtractor,
+  MarkdownExtractor,
+  HtmlExtractor,
+  RtfExtractor,
+  OdtExtractor,
+  XlsxExtractor,
+  EmlExtractor,
+];
 
 @Module({
-  providers: [TextExtractionService],
+  providers: [
+    OcrService,
+    ...EXTRACTORS,
+    {
+      provide: TEXT_EXTRACTORS,
+      useFactory: (...extractors: TextExtractor[]) => extractors,
+      inject: EXTRACTORS,
+    },
+    TextExtractionService,
+  ],
   exports: [TextExtractionService],
 })
 export class TextExtractionModule {}
@@ -1,78 +1,83 @@
 import {
+  HttpException,
+  Inject,
   Injectable,
   UnsupportedMediaTypeException,
+  UnprocessableEntityException,
   InternalServerErrorException,
   Logger,
 } from "@nestjs/common";
-import * as pdf from "pdf-parse";
-import * as mammoth from "mammoth";
 import * as sysMsg from "../../constants/system.messages";
+import { TEXT_EXTRACTORS } from "./text-extraction.constants";
+import { ITextExtractionResult, TextExtractor } from "./interfaces";
+import { sniffMimetype } from "./utils/sniff-mimetype";
+import { extractTables, textToStructure } from "./utils/structure";
 
 /**
  * Service for extracting text from various document formats
- * Supports PDF and DOCX files from buffer data
+ * Detects the format from the file contents and dispatches to the registered TextExtractor
  */
 @Injectable()
 export class TextExtractionService {
   private readonly logger = new Logger(TextExtractionService.name);
+  private readonly extractors = new Map<string, TextExtractor>();
+
+  constructor(@Inject(TEXT_EXTRACTORS) extractors: TextExtractor[]) {
+    for (const extractor of extractors) {
+      for (const mimetype of extractor.mimetypes) {
+        this.extractors.set(mimetype, extractor);
+      }
+    }
+  }
 
   /**
-   * Extracts text from a file buffer based on its mimetype
+   * Mimetypes that an extractor is registered for
+   */
+  getSupportedMimetypes(): string[] {
+    return [...this.extractors.keys()];
+  }
+
+  /**
+   * Extracts text from a file buffer
+   * The declared mimetype only disambiguates text formats; binary formats are sniffed
    */
   async extractTextFromBuffer(
     fileBuffer: Buffer,
     mimetype: string,
     filename: string,
-  ): Promise<string> {
-    if (mimetype === "application/pdf") {
-      return this.extractTextFromPdf(fileBuffer, filename);
-    } else if (
-      mimetype ===
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-    ) {
-      return this.extractTextFromDocx(fileBuffer, filename);
-    } else {
+  ): Promise<ITextExtractionResult> {
+    const detectedMimetype = sniffMimetype(fileBuffer, mimetype, filename);
+    const extractor = detectedMimetype
+      ? this.extractors.get(detectedMimetype)
+      : undefined;
+    if (!extractor) {
       throw new UnsupportedMediaTypeException(sysMsg.UNSUPPORTED_FILE_TYPE);
     }
-  }
 
-  /**
-   * Extracts text from a PDF buffer
-   */
-  private async extractTextFromPdf(
-    dataBuffer: Buffer,
-    filename: string,
-  ): Promise<string> {
+    let content;
     try {
-      const data = await pdf(dataBuffer);
-      this.logger.log(`${sysMsg.TEXT_EXTRACTION_SUCCESS} (PDF): ${filename}`);
-      return data.text;
+      content = await extractor.extract(fileBuffer, filename);
     } catch (error) {
+      if (error instanceof HttpException) throw error;
       this.logger.error(
-        `${sysMsg.TEXT_EXTRACTION_PDF_FAILED}: ${error.message}`,
+        `${sysMsg.TEXT_EXTRACTION_FAILED} (${extractor.name}): ${error.message}`,
       );
-      throw new InternalServerErrorException(sysMsg.TEXT_EXTRACTION_PDF_FAILED);
+      throw new InternalServerErrorException(sysMsg.TEXT_EXTRACTION_FAILED);
     }
-  }
 
-  /**
-   * Extracts text from a DOCX buffer
-   */
-  private async extractTextFromDocx(
-    dataBuffer: Buffer,
-    filename: string,
-  ): Promise<string> {
-    try {
-      const result = await mammoth.extractRawText({ buffer: dataBuffer });
-      this.logger.log(`${sysMsg.TEXT_EXTRACTION_SUCCESS} (DOCX): ${filename}`);
-      return result.value;
-    } catch (error) {
-      this.logger.error(
-        `${sysMsg.TEXT_EXTRACTION_DOCX_FAILED}: ${error.message}`,
-      );
-      throw new InternalServerErrorException(
-        sysMsg.TEXT_EXTRACTION_DOCX_FAILED,
-      );
+    if (!content.text.trim()) {
+      throw new UnprocessableEntityException(sysMsg.TEXT_EXTRACTION_NO_TEXT);
     }
+
+    this.logger.log(
+      `${sysMsg.TEXT_EXTRACTION_SUCCESS} (${extractor.name}): ${filename}`,
+    );
+    const structure = content.structure ?? textToStructure(content.text);
+    return {
+      ...content,
+      mimetype: detectedMimetype,
+      structure,
+      tables: extractTables(structure),
+    };
   }
 }
@@ -0,0 +1,7 @@
+/**
+ * Mean of OCR confidences, rounded to two decimals
+ */
+export function averageConfidence(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(mean * 100) / 100;
+}
@@ -0,0 +1,134 @@
+import { parseDocument } from "htmlparser2";
+import { ChildNode, Element, isTag, isText } from "domhandler";
+import { StructureBlock } from "../interfaces/document-structure.interface";
+import { normalizeBlockText } from "./structure";
+
+const SKIPPED_TAGS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+]);
+const HEADING_TAGS = /^h([1-6])$/;
+// Elements that end the running paragraph; everything else is inline
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "hr",
+  "html",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "ul",
+]);
+
+/**
+ * Builds headings, paragraphs and tables from HTML
+ * Used for HTML uploads, HTML emails and DOCX files (through mammoth's HTML output)
+ */
+export function htmlToStructureBlocks(html: string): StructureBlock[] {
+  const blocks: StructureBlock[] = [];
+  let paragraph = "";
+
+  const flush = () => {
+    const text = normalizeBlockText(paragraph);
+    if (text) blocks.push({ type: "paragraph", text });
+    paragraph = "";
+  };
+
+  const visit = (node: ChildNode) => {
+    if (isText(node)) {
+      paragraph += node.data.replace(/\s+/g, " ");
+      return;
+    }
+    if (!isTag(node) || SKIPPED_TAGS.has(node.name)) return;
+
+    const heading = HEADING_TAGS.exec(node.name);
+    if (heading) {
+      flush();
+      const text = normalizeBlockText(inlineText(node));
+      if (text) {
+        blocks.push({ type: "heading", level: Number(heading[1]), text });
+      }
+    } else if (node.name === "table") {
+      flush();
+      const rows = tableRows(node);
+      if (rows.length > 0) blocks.push({ type: "table", rows });
+    } else if (node.name === "br") {
+      paragraph += "\n";
+    } else if (BLOCK_TAGS.has(node.name)) {
+      flush();
+      if (node.name === "li") paragraph += "- ";
+      node.children.forEach(visit);
+      flush();
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+
+  parseDocument(html).children.forEach(visit);
+  flush();
+  return blocks;
+}
+
+function inlineText(node: ChildNode): string {
+  if (isText(node)) return node.data.replace(/\s+/g, " ");
+  if (!isTag(node) || SKIPPED_TAGS.has(node.name)) return "";
+  if (node.name === "br") return "\n";
+  const text = node.children.map(inlineText).join("");
+  // Keeps paragraphs inside table cells (as in mammoth output) apart
+  return BLOCK_TAGS.has(node.name) ? `\n${text}\n` : text;
+}
+
+/**
+ * Cell texts of a table's own rows; nested tables are flattened into their cell
+ * Cells spanning several columns are followed by empty cells so columns stay aligned
+ */
+function tableRows(table: Element): string[][] {
+  const rows: string[][] = [];
+
+  const collect = (node: Element) => {
+    for (const child of node.children) {
+      if (!isTag(child)) continue;
+      if (child.name === "tr") {
+        const cells = child.children
+          .filter(
+            (cell): cell is Element =>
+              isTag(cell) && (cell.name === "td" || cell.name === "th"),
+          )
+          .flatMap((cell) => {
+            const span = Math.min(Number(cell.attribs.colspan) || 1, 100);
+            return [
+              normalizeBlockText(inlineText(cell)).replace(/\n+/g, "\n"),
+              ...Array<string>(Math.max(span - 1, 0)).fill(""),
+            ];
+          });
+        if (cells.some(Boolean)) rows.push(cells);
+      } else if (["thead", "tbody", "tfoot"].includes(child.name)) {
+        collect(child);
+      }
+    }
+  };
+
+  collect(table);
+  return rows;
+}
@@ -0,0 +1,28 @@
+import { compile } from "html-to-text";
+
+// Compiled once; links and images add noise rather than content for analysis
+const convert = compile({
+  wordwrap: false,
+  selectors: [
+    { selector: "a", options: { ignoreHref: true } },
+    { selector: "img", format: "skip" },
+    { selector: "h1", options: { uppercase: false } },
+    { selector: "h2", options: { uppercase: false } },
+    { selector: "h3", options: { uppercase: false } },
+    { selector: "h4", options: { uppercase: false } },
+    { selector: "h5", options: { uppercase: false } },
+    { selector: "h6", options: { uppercase: false } },
+    {
+      selector: "table",
+      format: "dataTable",
+      options: { uppercaseHeaderCells: false },
+    },
+  ],
+});
+
+/**
+ * Converts an HTML document or fragment to readable plain text
+ */
+export function convertHtmlToText(html: string): string {
+  return convert(html).trim();
+}
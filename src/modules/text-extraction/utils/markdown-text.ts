@@ -0,0 +1,120 @@
+import { StructureBlock } from "../interfaces/document-structure.interface";
+
+/**
+ * Strips Markdown syntax, keeping the readable text
+ * List markers and table pipes are kept since they carry structure
+ */
+export function convertMarkdownToText(markdown: string): string {
+  return (
+    markdown
+      .replace(/\r\n?/g, "\n")
+      // YAML front matter
+      .replace(/^---\n[\s\S]*?\n---\n/, "")
+      // Code fences (the code itself is kept)
+      .replace(/^[ \t]*(```|~~~).*$/gm, "")
+      // Images become their alt text, links their label
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      // Reference-style link definitions
+      .replace(/^[ \t]*\[[^\]]+\]:[ \t]+\S+.*$/gm, "")
+      // ATX headings, blockquotes and horizontal rules
+      .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1")
+      .replace(/^[ \t]{0,3}>[ \t]?/gm, "")
+      .replace(/^[ \t]{0,3}([-*_])([ \t]*\1){2,}[ \t]*$/gm, "")
+      // Emphasis, strikethrough and inline code
+      .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "$1")
+      .replace(/\*(?=\S)([^*\n]*?\S)\*/g, "$1")
+      // Underscores only delimit emphasis at word boundaries (snake_case stays intact)
+      .replace(/(^|\W)__(?=\S)([\s\S]*?\S)__(?=\W|$)/g, "$1$2")
+      .replace(/(^|\W)_(?=\S)([^_\n]*?\S)_(?=\W|$)/g, "$1$2")
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "$1")
+      .replace(/`([^`\n]+)`/g, "$1")
+      // Inline HTML tags
+      .replace(/<\/?[a-z][^>]*>/gi, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+/**
+ * Builds headings, paragraphs and pipe tables from Markdown
+ */
+export function markdownToStructureBlocks(markdown: string): StructureBlock[] {
+  const lines = markdown
+    .replace(/\r\n?/g, "\n")
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    .split("\n");
+  const blocks: StructureBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const text = convertMarkdownToText(paragraph.join("\n"));
+    if (text) blocks.push({ type: "paragraph", text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^[ \t]*(```|~~~)/.exec(line);
+    if (fence) {
+      // Code is kept verbatim as one paragraph
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      if (code.join("").trim()) {
+        blocks.push({ type: "paragraph", text: code.join("\n") });
+      }
+      continue;
+    }
+
+    const heading = /^[ \t]{0,3}(#{1,6})[ \t]+(.*?)[ \t]*#*[ \t]*$/.exec(line);
+    if (heading) {
+      flush();
+      const text = convertMarkdownToText(heading[2]);
+      if (text) {
+        blocks.push({ type: "heading", level: heading[1].length, text });
+      }
+      continue;
+    }
+
+    if (isTableRow(line) && isTableSeparator(lines[i + 1] ?? "")) {
+      flush();
+      const rows = [splitTableRow(line)];
+      i++;
+      while (i + 1 < lines.length && isTableRow(lines[i + 1])) {
+        rows.push(splitTableRow(lines[++i]));
+      }
+      blocks.push({ type: "table", rows });
+      continue;
+    }
+
+    // List items and blank lines end the running paragraph
+    if (!line.trim() || /^[ \t]*([-*+]|\d+[.)])[ \t]+/.test(line)) flush();
+    if (line.trim()) paragraph.push(line);
+  }
+
+  flush();
+  return blocks;
+}
+
+function isTableRow(line: string): boolean {
+  return /^[ \t]*\|?.*\|.*$/.test(line) && line.trim().length > 1;
+}
+
+function isTableSeparator(line: string): boolean {
+  return /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$/.test(
+    line,
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => convertMarkdownToText(cell.trim()));
+}
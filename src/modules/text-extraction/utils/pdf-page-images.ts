@@ -0,0 +1,119 @@
+import { PNG } from "pngjs";
+import type { PDFPageProxy } from "pdfjs-dist";
+import { MIN_OCR_IMAGE_PIXELS } from "../text-extraction.constants";
+
+type PdfJs = typeof import("pdfjs-dist/legacy/build/pdf");
+
+interface IPdfImageData {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Extracts the images drawn on the given PDF pages as PNG buffers
+ * Scanned PDFs embed each page as one or more images, which is what OCR needs;
+ * pages are not rasterized, so vector content without a text layer is not covered
+ */
+export async function extractPdfPageImages(
+  buffer: Buffer,
+  pageNumbers: number[],
+): Promise<Map<number, Buffer[]>> {
+  // Loaded on demand: pdf.js warns about missing canvas polyfills as soon as it is imported
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf");
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isOffscreenCanvasSupported: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  });
+  const document = await loadingTask.promise;
+  const images = new Map<number, Buffer[]>();
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await document.getPage(pageNumber);
+      images.set(pageNumber, await extractPageImages(pdfjs, page));
+      page.cleanup();
+    }
+  } finally {
+    await loadingTask.destroy();
+  }
+
+  return images;
+}
+
+/**
+ * Collects the images painted by a page's operator list, in drawing order
+ */
+async function extractPageImages(
+  pdfjs: PdfJs,
+  page: PDFPageProxy,
+): Promise<Buffer[]> {
+  const { OPS } = pdfjs;
+  const operatorList = await page.getOperatorList();
+  const images: Buffer[] = [];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    let image: IPdfImageData | null = null;
+    if (fn === OPS.paintImageXObject) {
+      image = await resolveImageObject(page, args[0]);
+    } else if (fn === OPS.paintInlineImageXObject) {
+      image = args[0];
+    }
+
+    if (image?.data && image.width * image.height >= MIN_OCR_IMAGE_PIXELS) {
+      images.push(encodePng(pdfjs, image));
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Image XObjects are decoded asynchronously; page-level and shared ones live in different stores
+ */
+function resolveImageObject(
+  page: PDFPageProxy,
+  objectId: string,
+): Promise<IPdfImageData | null> {
+  const objects = objectId.startsWith("g_") ? page.commonObjs : page.objs;
+  return new Promise((resolve) => {
+    objects.get(objectId, (image: IPdfImageData | null) => resolve(image));
+  });
+}
+
+/**
+ * Converts pdf.js decoded pixels to a PNG that Tesseract can read
+ */
+function encodePng(pdfjs: PdfJs, image: IPdfImageData): Buffer {
+  const { ImageKind } = pdfjs;
+  const { width, height, kind, data } = image;
+  const rgba = Buffer.alloc(width * height * 4);
+
+  if (kind === ImageKind.GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes and a set bit is white
+    const rowBytes = Math.ceil(width / 8);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        const offset = (y * width + x) * 4;
+        rgba.fill(bit ? 255 : 0, offset, offset + 3);
+        rgba[offset + 3] = 255;
+      }
+    }
+  } else {
+    const channels = kind === ImageKind.RGBA_32BPP ? 4 : 3;
+    for (let i = 0; i < width * height; i++) {
+      rgba[i * 4] = data[i * channels];
+      rgba[i * 4 + 1] = data[i * channels + 1];
+      rgba[i * 4 + 2] = data[i * channels + 2];
+      rgba[i * 4 + 3] = 255;
+    }
+  }
+
+  return PNG.sync.write({ width, height, data: rgba } as PNG);
+}
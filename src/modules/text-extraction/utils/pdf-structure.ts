@@ -0,0 +1,234 @@
+import {
+  IDocumentStructure,
+  StructureBlock,
+} from "../interfaces/document-structure.interface";
+import { IPdfCell, IPdfLine, IPdfPage } from "./pdf-text";
+import { textToParagraphs } from "./structure";
+
+// Lines this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 150;
+// A vertical gap wider than this many line heights starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.6;
+// Table rows further apart than this many line heights end the table
+const TABLE_ROW_GAP_RATIO = 3;
+const MIN_TABLE_ROWS = 2;
+// Two-column runs with longer cells than this are taken for multi-column prose, not tables
+const MAX_TWO_COLUMN_CELL_LENGTH = 30;
+
+interface IPdfTable {
+  end: number; // Index of the first line after the table
+  rows: string[][];
+}
+
+/**
+ * Rebuilds headings, paragraphs and tables of a PDF from the layout of its text layer
+ * Headings are told apart by font size and tables by lines split into aligned cells;
+ * pages recognized with OCR fall back to blank-line paragraphs
+ */
+export function buildPdfStructure(pages: IPdfPage[]): IDocumentStructure {
+  const bodySize = bodyFontSize(pages);
+  const headingSizes = [
+    ...new Set(
+      pages
+        .flatMap((page) => page.lines)
+        .filter((line) => isHeading(line, bodySize))
+        .map((line) => roundSize(line.fontSize)),
+    ),
+  ].sort((a, b) => b - a);
+
+  const blocks: StructureBlock[] = [];
+  pages.forEach((page, index) => {
+    const pageNumber = index + 1;
+    if (page.lines.length === 0) {
+      blocks.push(...textToParagraphs(page.text, pageNumber));
+      return;
+    }
+
+    let paragraph: IPdfLine[] = [];
+    const flush = () => {
+      const text = joinLines(paragraph);
+      if (text) blocks.push({ type: "paragraph", text, page: pageNumber });
+      paragraph = [];
+    };
+
+    const tables = detectTables(page.lines, bodySize);
+    for (let i = 0; i < page.lines.length; i++) {
+      const line = page.lines[i];
+      const table = tables.get(i);
+      if (table) {
+        flush();
+        blocks.push({ type: "table", rows: table.rows, page: pageNumber });
+        i = table.end - 1;
+        continue;
+      }
+
+      if (!line.text.trim()) {
+        flush();
+        continue;
+      }
+
+      if (isHeading(line, bodySize)) {
+        flush();
+        blocks.push({
+          type: "heading",
+          level: Math.min(
+            headingSizes.indexOf(roundSize(line.fontSize)) + 1,
+            6,
+          ),
+          text: lineText(line),
+          page: pageNumber,
+        });
+        continue;
+      }
+
+      const previous = paragraph[paragraph.length - 1];
+      // PDF y grows upwards, so the next line down has a smaller y
+      const gap = previous ? previous.y - line.y : 0;
+      if (
+        previous &&
+        (gap <= 0 ||
+          gap >
+            PARAGRAPH_GAP_RATIO * Math.max(line.fontSize, previous.fontSize))
+      ) {
+        flush();
+      }
+      paragraph.push(line);
+    }
+    flush();
+  });
+
+  return { pageCount: pages.length, blocks };
+}
+
+/**
+ * Most common font size, weighted by the amount of text set in it
+ */
+function bodyFontSize(pages: IPdfPage[]): number {
+  const weights = new Map<number, number>();
+  for (const line of pages.flatMap((page) => page.lines)) {
+    const size = roundSize(line.fontSize);
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+
+  let bodySize = 0;
+  let bodyWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bodyWeight) {
+      bodySize = size;
+      bodyWeight = weight;
+    }
+  }
+  return bodySize;
+}
+
+function isHeading(line: IPdfLine, bodySize: number): boolean {
+  const text = line.text.trim();
+  return (
+    bodySize > 0 &&
+    text.length > 0 &&
+    text.length <= MAX_HEADING_LENGTH &&
+    line.fontSize >= bodySize * HEADING_SIZE_RATIO
+  );
+}
+
+/**
+ * Finds runs of consecutive lines split into several cells, keyed by the index of their first line
+ */
+function detectTables(
+  lines: IPdfLine[],
+  bodySize: number,
+): Map<number, IPdfTable> {
+  const tables = new Map<number, IPdfTable>();
+  const isRow = (line: IPdfLine) =>
+    line.cells.length >= 2 && !isHeading(line, bodySize);
+
+  let start = 0;
+  while (start < lines.length) {
+    if (!isRow(lines[start])) {
+      start++;
+      continue;
+    }
+
+    let end = start + 1;
+    while (end < lines.length && isRow(lines[end])) {
+      const gap = lines[end - 1].y - lines[end].y;
+      if (gap <= 0 || gap > TABLE_ROW_GAP_RATIO * lines[end].fontSize) break;
+      end++;
+    }
+
+    const rows = alignRows(lines.slice(start, end));
+    if (rows.length >= MIN_TABLE_ROWS && isTableLike(rows)) {
+      tables.set(start, { end, rows });
+    }
+    start = end;
+  }
+
+  return tables;
+}
+
+/**
+ * Places the cells of each line in the columns of the line with the most cells,
+ * matching them by horizontal overlap so right-aligned numbers land under their header
+ */
+function alignRows(lines: IPdfLine[]): string[][] {
+  const columns = lines.reduce((widest, line) =>
+    line.cells.length > widest.cells.length ? line : widest,
+  ).cells;
+
+  return lines.map((line) => {
+    const row = Array<string>(columns.length).fill("");
+    for (const cell of line.cells) {
+      const column = closestColumn(cell, columns);
+      row[column] = [row[column], cell.text.trim()].filter(Boolean).join(" ");
+    }
+    return row;
+  });
+}
+
+function closestColumn(cell: IPdfCell, columns: IPdfCell[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, index) => {
+    const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+    // Without overlap, the column whose center is nearest wins
+    const score =
+      overlap > 0
+        ? overlap
+        : -Math.abs(cell.x0 + cell.x1 - column.x0 - column.x1);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function isTableLike(rows: string[][]): boolean {
+  if (rows[0].length >= 3) return true;
+  const cells = rows.flat().filter(Boolean);
+  const averageLength =
+    cells.reduce((total, cell) => total + cell.length, 0) / cells.length;
+  return averageLength <= MAX_TWO_COLUMN_CELL_LENGTH;
+}
+
+function lineText(line: IPdfLine): string {
+  return line.text.replace(/\t/g, " ").trim();
+}
+
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+/**
+ * Joins wrapped lines, undoing hyphenation at line ends
+ */
+function joinLines(lines: IPdfLine[]): string {
+  return lines.map(lineText).reduce((text, line) => {
+    if (!text) return line;
+    if (/[a-z]-$/.test(text) && /^[a-z]/.test(line)) {
+      return text.slice(0, -1) + line;
+    }
+    return `${text} ${line}`;
+  }, "");
+}
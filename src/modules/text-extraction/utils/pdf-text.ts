@@ -0,0 +1,110 @@
+import * as pdf from "pdf-parse";
+
+interface IPdfTextItem {
+  str: string;
+  transform: number[];
+  width?: number;
+  height?: number;
+}
+
+interface IPdfPageData {
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: IPdfTextItem[] }>;
+}
+
+// A horizontal gap wider than this many font sizes separates two cells of a line
+const CELL_GAP_RATIO = 1;
+
+/**
+ * Run of text on a line, separated from its neighbours by a wide horizontal gap
+ */
+export interface IPdfCell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+/**
+ * A line of a PDF text layer with its vertical position and font size
+ */
+export interface IPdfLine {
+  text: string;
+  y: number;
+  fontSize: number;
+  cells: IPdfCell[];
+}
+
+/**
+ * Text layer of a PDF page; lines are empty for pages recognized with OCR
+ */
+export interface IPdfPage {
+  text: string;
+  lines: IPdfLine[];
+}
+
+/**
+ * Extracts the text layer of every page of a PDF
+ * Lines are rebuilt the way pdf-parse does, except that cells of a line are separated by a tab
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<IPdfPage[]> {
+  const pages: IPdfPage[] = [];
+
+  await pdf(buffer, {
+    // pdf-parse renders pages sequentially, so they are collected in order
+    pagerender: async (pageData: IPdfPageData) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+
+      const lines: IPdfLine[] = [];
+      for (const item of content.items) {
+        const [, , , scaleY, x, y] = item.transform;
+        // The vertical scale of the text matrix is the rendered font size
+        const fontSize = Math.abs(scaleY) || item.height || 0;
+        const x1 = x + (item.width ?? 0);
+        const line = lines[lines.length - 1];
+
+        if (line && line.y === y) {
+          const cell = line.cells[line.cells.length - 1];
+          if (
+            x - cell.x1 >
+            CELL_GAP_RATIO * Math.max(fontSize, line.fontSize)
+          ) {
+            line.cells.push({ text: item.str, x0: x, x1 });
+          } else {
+            cell.text += item.str;
+            cell.x1 = Math.max(cell.x1, x1);
+          }
+          line.fontSize = Math.max(line.fontSize, fontSize);
+        } else {
+          lines.push({
+            text: "",
+            y,
+            fontSize,
+            cells: [{ text: item.str, x0: x, x1 }],
+          });
+        }
+      }
+      for (const line of lines) {
+        line.cells = line.cells.filter((cell) => cell.text.trim());
+        line.text = line.cells.map((cell) => cell.text).join("\t");
+      }
+
+      const text = lines.map((line) => line.text).join("\n");
+      pages.push({ text, lines });
+      return text;
+    },
+  });
+
+  return pages;
+}
+
+/**
+ * Joins page texts the way pdf-parse does
+ */
+export function joinPdfPageTexts(pages: IPdfPage[]): string {
+  return pages.map((page) => `\n\n${page.text}`).join("");
+}
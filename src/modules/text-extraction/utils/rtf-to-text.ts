@@ -0,0 +1,133 @@
+// Destinations that hold formatting tables, metadata or binary data rather than document text
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "generator",
+  "pict",
+  "object",
+  "fldinst",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "xmlnstbl",
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  row: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  tab: "\t",
+  cell: "\t",
+  emdash: "—",
+  endash: "–",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  bullet: "•",
+};
+
+interface IGroupState {
+  skip: boolean;
+  unicodeFallbackLength: number; // \ucN: characters that follow a \u escape as its fallback
+}
+
+const windows1252 = new TextDecoder("windows-1252");
+
+/**
+ * Converts RTF markup to plain text
+ * Handles groups, escapes and Unicode characters; formatting is dropped
+ */
+export function rtfToText(rtf: string): string {
+  const stack: IGroupState[] = [];
+  let state: IGroupState = { skip: false, unicodeFallbackLength: 1 };
+  let fallbackToSkip = 0;
+  let output = "";
+
+  const emit = (text: string) => {
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+      return;
+    }
+    if (!state.skip) output += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (char === "}") {
+      state = stack.pop() ?? state;
+      fallbackToSkip = 0;
+      i++;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "'") {
+        emit(windows1252.decode(Buffer.from(rtf.substr(i + 2, 2), "hex")));
+        i += 4;
+      } else if (next === "*") {
+        // Optional destination that this reader does not know
+        state.skip = true;
+        i += 2;
+      } else if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+      } else if (next === "~") {
+        emit(" ");
+        i += 2;
+      } else if (next === "\n" || next === "\r") {
+        emit("\n");
+        i += 2;
+      } else if (/[a-z]/i.test(next ?? "")) {
+        const match = /^\\([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i, i + 64));
+        const [token, word, parameter] = match;
+        i += token.length;
+
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (word === "uc") {
+          state.unicodeFallbackLength = Number(parameter ?? 1);
+        } else if (word === "u") {
+          const code = Number(parameter);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          fallbackToSkip = state.unicodeFallbackLength;
+        } else if (SYMBOLS[word]) {
+          emit(SYMBOLS[word]);
+        }
+      } else {
+        // Other control symbols (\-, \_, \|, ...) have no text equivalent worth keeping
+        i += 2;
+      }
+    } else {
+      if (char !== "\n" && char !== "\r") emit(char);
+      i++;
+    }
+  }
+
+  return output
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,230 @@
+import * as path from "path";
+import {
+  DOCX_MIME_TYPE,
+  EML_MIME_TYPE,
+  HTML_MIME_TYPE,
+  JPEG_MIME_TYPE,
+  MARKDOWN_MIME_TYPE,
+  ODT_MIME_TYPE,
+  PDF_MIME_TYPE,
+  PLAIN_TEXT_MIME_TYPE,
+  PNG_MIME_TYPE,
+  RTF_MIME_TYPE,
+  TIFF_MIME_TYPE,
+  XLSX_MIME_TYPE,
+} from "../text-extraction.constants";
+
+// Text formats cannot be told apart reliably by content, so the declared type is honored for them
+const TEXT_MIME_ALIASES: Record<string, string> = {
+  "text/plain": PLAIN_TEXT_MIME_TYPE,
+  "text/markdown": MARKDOWN_MIME_TYPE,
+  "text/x-markdown": MARKDOWN_MIME_TYPE,
+  "text/html": HTML_MIME_TYPE,
+  "application/xhtml+xml": HTML_MIME_TYPE,
+  "message/rfc822": EML_MIME_TYPE,
+};
+
+const TEXT_EXTENSIONS: Record<string, string> = {
+  ".txt": PLAIN_TEXT_MIME_TYPE,
+  ".text": PLAIN_TEXT_MIME_TYPE,
+  ".md": MARKDOWN_MIME_TYPE,
+  ".markdown": MARKDOWN_MIME_TYPE,
+  ".html": HTML_MIME_TYPE,
+  ".htm": HTML_MIME_TYPE,
+  ".eml": EML_MIME_TYPE,
+};
+
+const SNIFF_LENGTH = 8192;
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const ZIP_END_RECORD_SIGNATURE = 0x06054b50;
+const ZIP_END_RECORD_LENGTH = 22;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_CENTRAL_HEADER_LENGTH = 46;
+
+/**
+ * Detects the mimetype of an upload from its leading bytes
+ * Binary formats are identified by their signature regardless of what the client declared;
+ * returns null for content that no extractor understands
+ */
+export function sniffMimetype(
+  buffer: Buffer,
+  declaredMimetype: string,
+  filename: string,
+): string | null {
+  const binaryType = sniffBinaryMimetype(buffer);
+  if (binaryType !== undefined) return binaryType;
+
+  if (!looksLikeText(buffer)) return null;
+
+  const declared =
+    TEXT_MIME_ALIASES[declaredMimetype?.split(";")[0].trim().toLowerCase()] ??
+    TEXT_EXTENSIONS[path.extname(filename ?? "").toLowerCase()];
+  // A generic text/plain label (or none at all) still gets a look at the content
+  if (declared && declared !== PLAIN_TEXT_MIME_TYPE) return declared;
+
+  const head = buffer.subarray(0, SNIFF_LENGTH).toString("latin1");
+  if (/^\s*<(!doctype html|html|head|body)[\s>]/i.test(head)) {
+    return HTML_MIME_TYPE;
+  }
+  if (looksLikeEmail(head)) return EML_MIME_TYPE;
+
+  return PLAIN_TEXT_MIME_TYPE;
+}
+
+/**
+ * Whether an upload is a plain ZIP archive of files rather than a
+ * ZIP-based document such as DOCX, XLSX or ODT
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return (
+    buffer.subarray(0, 4).equals(ZIP_SIGNATURE) &&
+    sniffZipMimetype(buffer) === null
+  );
+}
+
+/**
+ * Returns the mimetype of a recognized binary signature, null for an unsupported
+ * binary signature, or undefined when the content has no known signature
+ */
+function sniffBinaryMimetype(buffer: Buffer): string | null | undefined {
+  const startsWith = (bytes: number[] | string, offset = 0) => {
+    const signature =
+      typeof bytes === "string" ? Buffer.from(bytes, "latin1") : bytes;
+    return (
+      buffer.length >= offset + signature.length &&
+      buffer
+        .subarray(offset, offset + signature.length)
+        .equals(Buffer.from(signature))
+    );
+  };
+
+  if (startsWith("%PDF-")) return PDF_MIME_TYPE;
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return PNG_MIME_TYPE;
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) return JPEG_MIME_TYPE;
+  if (startsWith("II*\0") || startsWith("MM\0*")) return TIFF_MIME_TYPE;
+  if (startsWith("{\\rtf")) return RTF_MIME_TYPE;
+  if (buffer.subarray(0, 4).equals(ZIP_SIGNATURE)) {
+    return sniffZipMimetype(buffer);
+  }
+
+  return undefined;
+}
+
+/**
+ * Tells OOXML and OpenDocument files apart by the entries of the archive
+ * Only top-level entry names count, so a plain ZIP holding a DOCX or XLSX
+ * file is not mistaken for one
+ */
+function sniffZipMimetype(buffer: Buffer): string | null {
+  const entryNames = readZipEntryNames(buffer);
+  if (!entryNames) return null;
+
+  // OpenDocument requires an uncompressed "mimetype" file as the first entry
+  if (entryNames.has("mimetype")) {
+    const isFirstEntry =
+      buffer.length >= 38 &&
+      buffer.readUInt16LE(26) === "mimetype".length &&
+      buffer.toString("latin1", 30, 38) === "mimetype";
+    if (!isFirstEntry) return null;
+
+    const start = 38 + buffer.readUInt16LE(28);
+    const mimetype = buffer.toString(
+      "latin1",
+      start,
+      start + ODT_MIME_TYPE.length,
+    );
+    return mimetype === ODT_MIME_TYPE ? ODT_MIME_TYPE : null;
+  }
+
+  if (!entryNames.has("[Content_Types].xml")) return null;
+  if (entryNames.has("word/document.xml")) return DOCX_MIME_TYPE;
+  if (entryNames.has("xl/workbook.xml")) return XLSX_MIME_TYPE;
+
+  return null;
+}
+
+/**
+ * Reads the entry names of a ZIP archive from its central directory
+ * Returns null when the end of central directory record can't be found
+ * or the directory runs past the end of the buffer
+ */
+function readZipEntryNames(buffer: Buffer): Set<string> | null {
+  // The end record is 22 bytes, followed by an archive comment of up to 64 KiB
+  const searchFrom = Math.max(
+    buffer.length - ZIP_END_RECORD_LENGTH - 0xffff,
+    0,
+  );
+  let endRecord = -1;
+  for (let i = buffer.length - ZIP_END_RECORD_LENGTH; i >= searchFrom; i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_RECORD_SIGNATURE) {
+      endRecord = i;
+      break;
+    }
+  }
+  if (endRecord === -1) return null;
+
+  const entryCount = buffer.readUInt16LE(endRecord + 10);
+  let offset = buffer.readUInt32LE(endRecord + 16);
+  const names = new Set<string>();
+
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (
+      offset + ZIP_CENTRAL_HEADER_LENGTH > buffer.length ||
+      buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIGNATURE
+    ) {
+      return null;
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const nameStart = offset + ZIP_CENTRAL_HEADER_LENGTH;
+    if (nameStart + nameLength > buffer.length) return null;
+
+    names.add(buffer.toString("utf8", nameStart, nameStart + nameLength));
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return names;
+}
+
+/**
+ * Text files have no NUL bytes (unless UTF-16 with a BOM) and few control characters
+ */
+function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, SNIFF_LENGTH);
+  if (
+    (sample[0] === 0xff && sample[1] === 0xfe) ||
+    (sample[0] === 0xfe && sample[1] === 0xff)
+  ) {
+    return true;
+  }
+
+  let controlCharacters = 0;
+  for (const byte of sample) {
+    if (byte === 0) return false;
+    // Tab, line feed, form feed, carriage return and escape are common in text
+    if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) {
+      controlCharacters++;
+    }
+  }
+
+  return controlCharacters <= sample.length * 0.1;
+}
+
+/**
+ * An email starts with a block of RFC 5322 headers including From and Date or Subject
+ */
+function looksLikeEmail(head: string): boolean {
+  const headerBlock = head.split(/\r?\n\r?\n/)[0];
+  if (!/^[A-Za-z][A-Za-z0-9-]*:/.test(headerBlock)) return false;
+
+  const names = new Set(
+    [...headerBlock.matchAll(/^([A-Za-z][A-Za-z0-9-]*):/gm)].map(([, name]) =>
+      name.toLowerCase(),
+    ),
+  );
+  return names.has("from") && (names.has("date") || names.has("subject"));
+}
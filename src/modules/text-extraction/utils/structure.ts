@@ -0,0 +1,59 @@
+import {
+  IDocumentStructure,
+  IExtractedTable,
+  IParagraphBlock,
+} from "../interfaces/document-structure.interface";
+
+/**
+ * Splits plain text into paragraphs at blank lines
+ */
+export function textToParagraphs(
+  text: string,
+  page?: number,
+): IParagraphBlock[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) =>
+      page === undefined
+        ? { type: "paragraph", text: paragraph }
+        : { type: "paragraph", text: paragraph, page },
+    );
+}
+
+/**
+ * Structure for formats whose only structure is their paragraphs
+ */
+export function textToStructure(text: string): IDocumentStructure {
+  return { pageCount: null, blocks: textToParagraphs(text) };
+}
+
+/**
+ * Tables of a structure as header and rows, with every row padded to the same width
+ */
+export function extractTables(
+  structure: IDocumentStructure,
+): IExtractedTable[] {
+  return structure.blocks.flatMap((block) => {
+    if (block.type !== "table" || block.rows.length === 0) return [];
+
+    const width = Math.max(...block.rows.map((row) => row.length));
+    const [header, ...rows] = block.rows.map((row) => [
+      ...row,
+      ...Array<string>(width - row.length).fill(""),
+    ]);
+    return [{ page: block.page ?? null, header, rows }];
+  });
+}
+
+/**
+ * Collapses runs of whitespace inside a block's text
+ */
+export function normalizeBlockText(text: string): string {
+  return text
+    .replace(/[ \t ]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .trim();
+}
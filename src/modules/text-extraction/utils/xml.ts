@@ -0,0 +1,44 @@
+import { DOMParser, Document, Element, Node } from "@xmldom/xmldom";
+
+/**
+ * Parses an XML part of an office document
+ */
+export function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, "text/xml");
+}
+
+/**
+ * Child elements with the given local name, ignoring namespace prefixes
+ */
+export function childElements(node: Node, localName?: string): Element[] {
+  return Array.from(node.childNodes).filter(
+    (child): child is Element =>
+      child.nodeType === Node.ELEMENT_NODE &&
+      (!localName || child.localName === localName),
+  );
+}
+
+/**
+ * Descendant elements with the given local name, in document order
+ */
+export function descendantElements(node: Node, localName: string): Element[] {
+  const found: Element[] = [];
+  for (const child of childElements(node)) {
+    if (child.localName === localName) found.push(child);
+    found.push(...descendantElements(child, localName));
+  }
+  return found;
+}
+
+/**
+ * Attribute value by local name, ignoring its namespace prefix
+ */
+export function attributeValue(
+  element: Element,
+  localName: string,
+): string | null {
+  const attribute = Array.from(element.attributes).find(
+    (attr) => attr.localName === localName,
+  );
+  return attribute ? attribute.value : null;
+}
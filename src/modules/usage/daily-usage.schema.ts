@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+
+export type DailyUsageDocument = DailyUsage & MongooseDocument;
+
+/**
+ * Tokens and estimated cost of a user's LLM requests by one model on one day (UTC)
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class DailyUsage {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  day: Date; // Midnight UTC
+
+  @Prop({ required: true })
+  model: string; // "<provider>:<model>"
+
+  @Prop({ default: 0 })
+  operations: number; // Analyses and questions that used tokens
+
+  @Prop({ default: 0 })
+  promptTokens: number;
+
+  @Prop({ default: 0 })
+  completionTokens: number;
+
+  @Prop({ default: 0 })
+  totalTokens: number;
+
+  @Prop({ default: 0 })
+  cost: number; // Estimated USD
+
+  @Prop({ default: 0 })
+  unpricedTokens: number; // Tokens of a model missing from the price table, not in cost
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DailyUsageSchema = SchemaFactory.createForClass(DailyUsage);
+
+// One record per user, day and model; also serves date range reports
+DailyUsageSchema.index({ owner: 1, day: 1, model: 1 }, { unique: true });
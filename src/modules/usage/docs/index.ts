@@ -0,0 +1,2 @@
+export * from "./usage.swagger";
+export * from "./usage.decorator";
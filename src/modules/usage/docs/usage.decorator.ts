@@ -0,0 +1,20 @@
+import { applyDecorators } from "@nestjs/common";
+import { ApiOperation, ApiResponse } from "@nestjs/swagger";
+import { UsageSwagger } from "./usage.swagger";
+import { UsageReportResponseDto } from "../dtos";
+
+/**
+ * Decorator for Usage Report endpoint
+ */
+export const DocsGetUsage = () => {
+  const { operation, responses } = UsageSwagger.endpoints.report;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiResponse({
+      ...responses.ok,
+      type: UsageReportResponseDto,
+    }),
+    ApiResponse(responses.badRequest),
+  );
+};
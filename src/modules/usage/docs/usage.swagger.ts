@@ -0,0 +1,31 @@
+import { HttpStatus } from "@nestjs/common";
+import * as sysMsg from "../../../constants/system.messages";
+
+/**
+ * Swagger documentation configuration for Usage endpoints
+ */
+export const UsageSwagger = {
+  tags: ["Usage"],
+  summary: "Token Usage",
+  description:
+    "Endpoints reporting the LLM tokens used by the user's analyses and questions and their estimated cost.",
+  endpoints: {
+    report: {
+      operation: {
+        summary: "Get token usage and estimated cost",
+        description:
+          "Returns the prompt and completion tokens used by the authenticated user's analyses (including failed attempts) and questions about documents, and their estimated cost in USD, in total, per day (UTC) and per model. Costs come from the per-model price table (LLM_MODEL_PRICES); tokens of models without a price are reported as unpricedTokens. Analyses served from the cache or reused from an identical upload use no tokens.",
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.USAGE_FETCHED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.VALIDATION_ERROR} / ${sysMsg.USAGE_INVALID_DATE_RANGE}`,
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,115 @@
+import { IsDateString, IsOptional } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+/**
+ * Query DTO for the token usage report
+ */
+export class UsageQueryDto {
+  @ApiPropertyOptional({
+    description: "Only usage on or after this day (UTC)",
+    example: "2024-12-01",
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: "Only usage on or before this day (UTC)",
+    example: "2024-12-31",
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+/**
+ * Tokens and estimated cost of a set of LLM requests
+ */
+export class UsageTotalsDto {
+  @ApiProperty({
+    description:
+      "Analyses (including failed attempts) and questions that used tokens",
+    example: 12,
+  })
+  operations: number;
+
+  @ApiProperty({ description: "Tokens sent to the model", example: 38400 })
+  promptTokens: number;
+
+  @ApiProperty({ description: "Tokens generated by the model", example: 5100 })
+  completionTokens: number;
+
+  @ApiProperty({ description: "Prompt and completion tokens", example: 43500 })
+  totalTokens: number;
+
+  @ApiProperty({
+    description: "Estimated cost in USD of the priced tokens",
+    example: 0.00882,
+  })
+  cost: number;
+
+  @ApiProperty({
+    description:
+      "Tokens of models missing from the price table, not included in cost",
+    example: 0,
+  })
+  unpricedTokens: number;
+}
+
+/**
+ * Usage on one day
+ */
+export class DailyUsageDto extends UsageTotalsDto {
+  @ApiProperty({ description: "Day (UTC)", example: "2024-12-06" })
+  date: string;
+}
+
+/**
+ * Usage of one model
+ */
+export class ModelUsageDto extends UsageTotalsDto {
+  @ApiProperty({
+    description: "Provider and model",
+    example: "openrouter:openai/gpt-4o-mini",
+  })
+  model: string;
+}
+
+/**
+ * Response DTO for the token usage report of a user
+ */
+export class UsageReportResponseDto {
+  @ApiPropertyOptional({
+    description: "Start of the reported range; null for all time",
+    example: "2024-12-01",
+    nullable: true,
+  })
+  from: string | null;
+
+  @ApiPropertyOptional({
+    description: "End of the reported range; null for all time",
+    example: "2024-12-31",
+    nullable: true,
+  })
+  to: string | null;
+
+  @ApiProperty({ description: "Usage over the range", type: UsageTotalsDto })
+  totals: UsageTotalsDto;
+
+  @ApiProperty({
+    description: "Usage per day with LLM requests, oldest first",
+    type: [DailyUsageDto],
+  })
+  days: DailyUsageDto[];
+
+  @ApiProperty({ description: "Usage per model", type: [ModelUsageDto] })
+  models: ModelUsageDto[];
+
+  constructor(partial: UsageReportResponseDto) {
+    this.from = partial.from;
+    this.to = partial.to;
+    this.totals = partial.totals;
+    this.days = partial.days;
+    this.models = partial.models;
+  }
+}
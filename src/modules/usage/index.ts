@@ -0,0 +1,6 @@
+export * from "./daily-usage.schema";
+export * from "./usage.constants";
+export * from "./usage.module";
+export * from "./usage.service";
+export * from "./dtos";
+export * from "./model-actions";
@@ -0,0 +1,64 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, Types } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import { DailyUsage, DailyUsageDocument } from "../daily-usage.schema";
+
+/**
+ * Identifies the usage record of a user's analyses by a model on a day
+ */
+export interface IDailyUsageKey {
+  owner: Types.ObjectId;
+  day: Date;
+  model: string;
+}
+
+/**
+ * Amounts added to a usage record for one analysis
+ */
+export type DailyUsageIncrement = Pick<
+  DailyUsage,
+  | "promptTokens"
+  | "completionTokens"
+  | "totalTokens"
+  | "cost"
+  | "unpricedTokens"
+>;
+
+/**
+ * Model action for DailyUsage entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class DailyUsageModelAction extends AbstractModelAction<DailyUsage> {
+  constructor(
+    @InjectModel(DailyUsage.name)
+    private dailyUsageModel: Model<DailyUsageDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(dailyUsageModel);
+  }
+
+  /**
+   * Adds the usage of one analysis to its day's record, creating it if needed
+   */
+  async increment(
+    key: IDailyUsageKey,
+    increment: DailyUsageIncrement,
+  ): Promise<void> {
+    try {
+      await this.dailyUsageModel.updateOne(
+        key,
+        { $inc: { ...increment, operations: 1 } },
+        { upsert: true },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_UPDATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+}
@@ -0,0 +1 @@
+export * from "./daily-usage.action";
@@ -0,0 +1,21 @@
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface IModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Prices of common models, keyed on the model name as given in LLM_MODEL
+ * Entries of the LLM_MODEL_PRICES env var are added to (or replace) these
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, IModelPrice> = {
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "openai/gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+};
+
+// Estimated costs are kept to a millionth of a dollar
+export const COST_DECIMALS = 6;
@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Query,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { UsageService } from "./usage.service";
+import { UsageQueryDto } from "./dtos";
+import { DocsGetUsage } from "./docs";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { UserDocument } from "../auth/user.schema";
+
+/**
+ * Controller for usage endpoints
+ * Reports the tokens used by the user's analyses and their estimated cost
+ */
+@ApiTags("Usage")
+@ApiBearerAuth("JWT")
+@UseGuards(JwtAuthGuard)
+@Controller("usage")
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  /**
+   * GET /usage?from=2024-12-01&to=2024-12-31
+   * Returns token usage and estimated cost, in total, per day and per model
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @DocsGetUsage()
+  async getUsage(
+    @Query() query: UsageQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.usageService.getUsage(user.id, query);
+  }
+}
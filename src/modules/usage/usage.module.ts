@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConfigModule } from "@nestjs/config";
+import { DailyUsage, DailyUsageSchema } from "./daily-usage.schema";
+import { UsageController } from "./usage.controller";
+import { UsageService } from "./usage.service";
+import { DailyUsageModelAction } from "./model-actions";
+
+/**
+ * Usage module
+ * Prices the tokens used by analyses and reports them per user, day and model
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: DailyUsage.name, schema: DailyUsageSchema },
+    ]),
+  ],
+  controllers: [UsageController],
+  providers: [UsageService, DailyUsageModelAction],
+  exports: [UsageService],
+})
+export class UsageModule {}
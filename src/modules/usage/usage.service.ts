@@ -0,0 +1,207 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Types } from "mongoose";
+import * as sysMsg from "../../constants/system.messages";
+import { ApiResponse } from "../../common/interfaces";
+import { ITokenUsage } from "../llm/interfaces";
+import { DailyUsage } from "./daily-usage.schema";
+import { DailyUsageModelAction } from "./model-actions";
+import { UsageQueryDto, UsageReportResponseDto, UsageTotalsDto } from "./dtos";
+import {
+  COST_DECIMALS,
+  DEFAULT_MODEL_PRICES,
+  IModelPrice,
+} from "./usage.constants";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Token usage and cost accounting
+ * Analyses and questions are priced from a per-model table and added up per user, day and
+ * model; recording failures are logged and never fail an analysis
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly prices: Record<string, IModelPrice>;
+
+  constructor(
+    private readonly dailyUsageModelAction: DailyUsageModelAction,
+    private readonly configService: ConfigService,
+  ) {
+    this.prices = {
+      ...DEFAULT_MODEL_PRICES,
+      ...this.parsePrices(this.configService.get<string>("LLM_MODEL_PRICES")),
+    };
+  }
+
+  /**
+   * Estimates the cost in USD of an analysis by a model
+   * model is "<provider>:<model>" and may be priced under either form;
+   * returns null when tokens were used by a model without a price
+   */
+  estimateCost(model: string, usage: ITokenUsage): number | null {
+    if (!usage.totalTokens) return 0;
+
+    const price = this.findPrice(model);
+    if (!price) return null;
+
+    const cost =
+      (usage.promptTokens * price.prompt +
+        usage.completionTokens * price.completion) /
+      TOKENS_PER_PRICE_UNIT;
+    return Number(cost.toFixed(COST_DECIMALS));
+  }
+
+  /**
+   * Prices the tokens of an LLM call and adds them to the user's total for the day
+   * Returns the estimated cost; calls that used no tokens aren't recorded
+   */
+  async record(
+    ownerId: string | Types.ObjectId,
+    model: string,
+    usage: ITokenUsage,
+    at = new Date(),
+  ): Promise<number | null> {
+    const cost = this.estimateCost(model, usage);
+    if (!usage.totalTokens) return cost;
+
+    const day = new Date(at);
+    day.setUTCHours(0, 0, 0, 0);
+
+    try {
+      await this.dailyUsageModelAction.increment(
+        { owner: new Types.ObjectId(ownerId), day, model },
+        {
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
+          cost: cost ?? 0,
+          unpricedTokens: cost === null ? usage.totalTokens : 0,
+        },
+      );
+    } catch (error) {
+      this.logger.warn(`${sysMsg.USAGE_RECORD_FAILED}: ${error.message}`);
+    }
+    return cost;
+  }
+
+  /**
+   * Reports a user's token usage and estimated cost, in total, per day and
+   * per model, optionally limited to a date range
+   */
+  async getUsage(
+    ownerId: string,
+    query: UsageQueryDto,
+  ): Promise<ApiResponse<UsageReportResponseDto>> {
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+    from?.setUTCHours(0, 0, 0, 0);
+    to?.setUTCHours(23, 59, 59, 999);
+    if (from && to && from > to) {
+      throw new BadRequestException(sysMsg.USAGE_INVALID_DATE_RANGE);
+    }
+
+    const findOptions: Record<string, unknown> = { owner: ownerId };
+    if (from || to) {
+      findOptions.day = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+    const { payload } = await this.dailyUsageModelAction.find({
+      findOptions,
+      sort: { day: 1, model: 1 },
+    });
+
+    const totals = this.emptyTotals();
+    const days = new Map<string, UsageTotalsDto>();
+    const models = new Map<string, UsageTotalsDto>();
+    for (const record of payload as DailyUsage[]) {
+      const date = record.day.toISOString().substring(0, 10);
+      if (!days.has(date)) days.set(date, this.emptyTotals());
+      if (!models.has(record.model)) {
+        models.set(record.model, this.emptyTotals());
+      }
+
+      this.addRecord(totals, record);
+      this.addRecord(days.get(date), record);
+      this.addRecord(models.get(record.model), record);
+    }
+
+    return {
+      message: sysMsg.USAGE_FETCHED,
+      data: new UsageReportResponseDto({
+        from: query.from ?? null,
+        to: query.to ?? null,
+        totals,
+        days: [...days].map(([date, dayTotals]) => ({ date, ...dayTotals })),
+        models: [...models].map(([model, modelTotals]) => ({
+          model,
+          ...modelTotals,
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Finds the price of a model, by its full ID or by its name alone
+   */
+  private findPrice(model: string): IModelPrice | undefined {
+    const name = model.substring(model.indexOf(":") + 1);
+    return this.prices[model] ?? this.prices[name];
+  }
+
+  /**
+   * Reads the LLM_MODEL_PRICES env var: a JSON object mapping model names to
+   * { "prompt": <USD>, "completion": <USD> } per million tokens
+   */
+  private parsePrices(value?: string): Record<string, IModelPrice> {
+    if (!value?.trim()) return {};
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new Error(`${sysMsg.LLM_MODEL_PRICES_INVALID}: ${value}`);
+    }
+    if (typeof parsed !== "object" || parsed === null) {
+      throw new Error(`${sysMsg.LLM_MODEL_PRICES_INVALID}: ${value}`);
+    }
+
+    const prices: Record<string, IModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      const { prompt, completion } = (price ?? {}) as Record<string, unknown>;
+      const isPrice = (amount: unknown) =>
+        typeof amount === "number" && amount >= 0;
+      if (!isPrice(prompt) || !isPrice(completion)) {
+        throw new Error(`${sysMsg.LLM_MODEL_PRICES_INVALID}: ${model}`);
+      }
+      prices[model] = {
+        prompt: prompt as number,
+        completion: completion as number,
+      };
+    }
+    return prices;
+  }
+
+  private emptyTotals(): UsageTotalsDto {
+    return {
+      operations: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      unpricedTokens: 0,
+    };
+  }
+
+  private addRecord(totals: UsageTotalsDto, record: DailyUsage): void {
+    totals.operations += record.operations;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.totalTokens += record.totalTokens;
+    totals.cost = Number((totals.cost + record.cost).toFixed(COST_DECIMALS));
+    totals.unpricedTokens += record.unpricedTokens;
+  }
+}
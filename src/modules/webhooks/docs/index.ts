@@ -0,0 +1,2 @@
+export * from "./webhook.swagger";
+export * from "./webhook.decorator";
@@ -0,0 +1,142 @@
+import { applyDecorators } from "@nestjs/common";
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+} from "@nestjs/swagger";
+import { WebhookSwagger } from "./webhook.swagger";
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookResponseDto,
+  WebhookDeliveryResponseDto,
+  PaginatedWebhookDeliveriesResponseDto,
+} from "../dtos";
+
+/**
+ * Decorator for Create Webhook endpoint
+ */
+export const DocsCreateWebhook = () => {
+  const { operation, responses } = WebhookSwagger.endpoints.create;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiBody({ type: CreateWebhookDto }),
+    ApiResponse({
+      ...responses.created,
+      type: WebhookResponseDto,
+    }),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for List Webhooks endpoint
+ */
+export const DocsListWebhooks = () => {
+  const { operation, responses } = WebhookSwagger.endpoints.list;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiResponse({
+      ...responses.ok,
+      type: [WebhookResponseDto],
+    }),
+  );
+};
+
+/**
+ * Decorator for Get Webhook endpoint
+ */
+export const DocsGetWebhookById = () => {
+  const { operation, parameters, responses } = WebhookSwagger.endpoints.getById;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse({
+      ...responses.ok,
+      type: WebhookResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Update Webhook endpoint
+ */
+export const DocsUpdateWebhook = () => {
+  const { operation, parameters, responses } = WebhookSwagger.endpoints.update;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiBody({ type: UpdateWebhookDto }),
+    ApiResponse({
+      ...responses.ok,
+      type: WebhookResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Delete Webhook endpoint
+ */
+export const DocsDeleteWebhook = () => {
+  const { operation, parameters, responses } = WebhookSwagger.endpoints.delete;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiResponse(responses.ok),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for List Webhook Deliveries endpoint
+ */
+export const DocsListWebhookDeliveries = () => {
+  const { operation, parameters, responses } =
+    WebhookSwagger.endpoints.listDeliveries;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiQuery(parameters.page),
+    ApiQuery(parameters.limit),
+    ApiQuery(parameters.status),
+    ApiResponse({
+      ...responses.ok,
+      type: PaginatedWebhookDeliveriesResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
+
+/**
+ * Decorator for Redeliver Webhook Event endpoint
+ */
+export const DocsRedeliverWebhookEvent = () => {
+  const { operation, parameters, responses } =
+    WebhookSwagger.endpoints.redeliver;
+
+  return applyDecorators(
+    ApiOperation(operation),
+    ApiParam(parameters.id),
+    ApiParam(parameters.deliveryId),
+    ApiResponse({
+      ...responses.accepted,
+      type: WebhookDeliveryResponseDto,
+    }),
+    ApiResponse(responses.notFound),
+    ApiResponse(responses.badRequest),
+  );
+};
@@ -0,0 +1,173 @@
+import { HttpStatus } from "@nestjs/common";
+import * as sysMsg from "../../../constants/system.messages";
+import { WebhookDeliveryStatus } from "../webhook-delivery.schema";
+
+const webhookIdParameter = {
+  name: "id",
+  description: "Webhook ID",
+  type: String,
+};
+
+const webhookNotFoundResponses = {
+  notFound: {
+    status: HttpStatus.NOT_FOUND,
+    description: sysMsg.WEBHOOK_NOT_FOUND,
+  },
+  badRequest: {
+    status: HttpStatus.BAD_REQUEST,
+    description: sysMsg.WEBHOOK_INVALID_ID,
+  },
+};
+
+/**
+ * Swagger documentation configuration for Webhook endpoints
+ */
+export const WebhookSwagger = {
+  tags: ["Webhooks"],
+  summary: "Webhook Management",
+  description:
+    "Endpoints for registering webhook endpoints that receive signed document lifecycle events, and for inspecting and replaying their deliveries.",
+  endpoints: {
+    create: {
+      operation: {
+        summary: "Register a webhook",
+        description:
+          "Registers a URL that receives an HMAC-signed POST for each subscribed event (document.uploaded, document.analysis.completed, document.analysis.failed, document.deleted). The signing secret is generated unless provided, and is only returned in this response.",
+      },
+      responses: {
+        created: {
+          status: HttpStatus.CREATED,
+          description: sysMsg.WEBHOOK_CREATED,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description:
+            "Invalid URL, events or secret, or a URL of a non-public host",
+        },
+      },
+    },
+    list: {
+      operation: {
+        summary: "List webhooks",
+        description: "Returns the authenticated user's webhook endpoints.",
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.WEBHOOKS_FETCHED,
+        },
+      },
+    },
+    getById: {
+      operation: {
+        summary: "Get a webhook by ID",
+        description: "Returns a webhook endpoint without its secret.",
+      },
+      parameters: { id: webhookIdParameter },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.WEBHOOK_FETCHED,
+        },
+        ...webhookNotFoundResponses,
+      },
+    },
+    update: {
+      operation: {
+        summary: "Update a webhook",
+        description:
+          "Changes the URL, subscribed events, secret or description of a webhook, or pauses and resumes it with isActive.",
+      },
+      parameters: { id: webhookIdParameter },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.WEBHOOK_UPDATED,
+        },
+        ...webhookNotFoundResponses,
+      },
+    },
+    delete: {
+      operation: {
+        summary: "Delete a webhook",
+        description:
+          "Deletes a webhook endpoint and its delivery log. Pending deliveries are dropped.",
+      },
+      parameters: { id: webhookIdParameter },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.WEBHOOK_DELETED,
+        },
+        ...webhookNotFoundResponses,
+      },
+    },
+    listDeliveries: {
+      operation: {
+        summary: "List webhook deliveries",
+        description:
+          "Returns the delivery log of a webhook, newest first, with the payload, status, attempts and the endpoint's last response.",
+      },
+      parameters: {
+        id: webhookIdParameter,
+        page: {
+          name: "page",
+          in: "query",
+          required: false,
+          type: Number,
+          description: "Page number (default: 1)",
+        },
+        limit: {
+          name: "limit",
+          in: "query",
+          required: false,
+          type: Number,
+          description: "Items per page (default: 20, max: 100)",
+        },
+        status: {
+          name: "status",
+          in: "query",
+          required: false,
+          enum: WebhookDeliveryStatus,
+          description: "Filter by delivery status",
+        },
+      },
+      responses: {
+        ok: {
+          status: HttpStatus.OK,
+          description: sysMsg.WEBHOOK_DELIVERIES_FETCHED,
+        },
+        ...webhookNotFoundResponses,
+      },
+    },
+    redeliver: {
+      operation: {
+        summary: "Redeliver a webhook event",
+        description:
+          "Queues a new delivery of a logged event with its original payload and event ID. The new delivery is signed with the webhook's current secret.",
+      },
+      parameters: {
+        id: webhookIdParameter,
+        deliveryId: {
+          name: "deliveryId",
+          description: "Delivery ID",
+          type: String,
+        },
+      },
+      responses: {
+        accepted: {
+          status: HttpStatus.ACCEPTED,
+          description: sysMsg.WEBHOOK_REDELIVERY_QUEUED,
+        },
+        notFound: {
+          status: HttpStatus.NOT_FOUND,
+          description: `${sysMsg.WEBHOOK_NOT_FOUND} / ${sysMsg.WEBHOOK_DELIVERY_NOT_FOUND}`,
+        },
+        badRequest: {
+          status: HttpStatus.BAD_REQUEST,
+          description: `${sysMsg.WEBHOOK_INVALID_ID} / ${sysMsg.WEBHOOK_INACTIVE}`,
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,2 @@
+export * from "./webhook.dto";
+export * from "./webhook-response.dto";
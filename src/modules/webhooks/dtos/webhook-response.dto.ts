@@ -0,0 +1,245 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { WebhookDocument, WebhookEvent } from "../webhook.schema";
+import {
+  IWebhookPayload,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from "../webhook-delivery.schema";
+
+/**
+ * Response DTO for a webhook endpoint
+ */
+export class WebhookResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the webhook",
+    example: "6571f1a2bcf86cd799439101",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "URL that receives the event POSTs",
+    example: "https://example.com/hooks/documents",
+  })
+  url: string;
+
+  @ApiProperty({
+    description: "Events delivered to the endpoint",
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED],
+  })
+  events: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: "Note describing the endpoint",
+    example: "Accounting system",
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: "Whether events are delivered to the endpoint",
+    example: true,
+  })
+  isActive: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Secret used to sign deliveries; only returned when the webhook is created",
+    example: "whsec_5f0c6a4c1e2b...",
+  })
+  secret?: string;
+
+  @ApiProperty({
+    description: "Timestamp when the webhook was created",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the webhook was last updated",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  updatedAt: Date;
+
+  constructor(partial: Partial<WebhookResponseDto>, includeSecret = false) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      partial &&
+      typeof (partial as Record<string, unknown>).toObject === "function"
+        ? (partial as WebhookDocument).toObject()
+        : partial;
+
+    this.id = plain.id || plain._id;
+    this.url = plain.url;
+    this.events = plain.events;
+    this.description = plain.description;
+    this.isActive = plain.isActive;
+    if (includeSecret) this.secret = plain.secret;
+    this.createdAt = plain.createdAt;
+    this.updatedAt = plain.updatedAt;
+  }
+}
+
+/**
+ * Response DTO for an entry of a webhook's delivery log
+ */
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({
+    description: "Unique identifier of the delivery",
+    example: "6571f1a2bcf86cd799439201",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Webhook the delivery was sent to",
+    example: "6571f1a2bcf86cd799439101",
+  })
+  webhookId: string;
+
+  @ApiProperty({
+    description: "Event that was delivered",
+    enum: WebhookEvent,
+    example: WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED,
+  })
+  event: WebhookEvent;
+
+  @ApiProperty({
+    description: "Current status of the delivery",
+    enum: WebhookDeliveryStatus,
+    example: WebhookDeliveryStatus.SUCCEEDED,
+  })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({
+    description: "Number of attempts made so far",
+    example: 1,
+  })
+  attempts: number;
+
+  @ApiProperty({
+    description: "Maximum number of attempts before the delivery fails",
+    example: 5,
+  })
+  maxAttempts: number;
+
+  @ApiProperty({
+    description: "Earliest time of the next attempt",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  runAt: Date;
+
+  @ApiPropertyOptional({
+    description: "HTTP status returned by the endpoint on the last attempt",
+    example: 200,
+  })
+  responseStatus?: number;
+
+  @ApiPropertyOptional({
+    description: "Duration of the last attempt in milliseconds",
+    example: 142,
+  })
+  durationMs?: number;
+
+  @ApiPropertyOptional({
+    description: "Error of the last failed attempt",
+    example: null,
+  })
+  lastError?: string;
+
+  @ApiPropertyOptional({
+    description: "Timestamp when the endpoint accepted the delivery",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  deliveredAt?: Date;
+
+  @ApiPropertyOptional({
+    description: "Delivery this one was manually redelivered from",
+    example: null,
+  })
+  redeliveryOf?: string;
+
+  @ApiProperty({
+    description: "Body POSTed to the endpoint",
+    example: {
+      id: "6571f1a2bcf86cd799439301",
+      event: WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED,
+      createdAt: "2024-12-06T10:00:00.000Z",
+      data: {
+        document: {
+          id: "507f1f77bcf86cd799439011",
+          originalName: "invoice_2024.pdf",
+          analysisStatus: "COMPLETED",
+          documentType: "invoice",
+        },
+      },
+    },
+  })
+  payload: IWebhookPayload;
+
+  @ApiProperty({
+    description: "Timestamp when the delivery was created",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the delivery was last updated",
+    example: "2024-12-06T10:00:00.000Z",
+  })
+  updatedAt: Date;
+
+  constructor(partial: Partial<WebhookDeliveryDocument>) {
+    // Convert Mongoose document to plain object if needed
+    const plain =
+      partial && typeof partial.toObject === "function"
+        ? partial.toObject()
+        : partial;
+
+    this.id = plain.id || plain._id;
+    this.webhookId = plain.webhook?.toString();
+    this.event = plain.event;
+    this.status = plain.status;
+    this.attempts = plain.attempts;
+    this.maxAttempts = plain.maxAttempts;
+    this.runAt = plain.runAt;
+    this.responseStatus = plain.responseStatus;
+    this.durationMs = plain.durationMs;
+    this.lastError = plain.lastError;
+    this.deliveredAt = plain.deliveredAt;
+    this.redeliveryOf = plain.redeliveryOf?.toString() ?? null;
+    this.payload = plain.payload;
+    this.createdAt = plain.createdAt;
+    this.updatedAt = plain.updatedAt;
+  }
+}
+
+/**
+ * Paginated response DTO for a webhook's delivery log
+ */
+export class PaginatedWebhookDeliveriesResponseDto {
+  @ApiProperty({
+    type: [WebhookDeliveryResponseDto],
+    description: "Deliveries, newest first",
+  })
+  deliveries: WebhookDeliveryResponseDto[];
+
+  @ApiProperty({
+    description: "Pagination metadata",
+    example: {
+      total: 12,
+      page: 1,
+      limit: 20,
+      total_pages: 1,
+      has_next: false,
+      has_previous: false,
+    },
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    total_pages: number;
+    has_next: boolean;
+    has_previous: boolean;
+  };
+}
@@ -0,0 +1,165 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { WebhookEvent } from "../webhook.schema";
+import { WebhookDeliveryStatus } from "../webhook-delivery.schema";
+
+const WEBHOOK_URL_OPTIONS = {
+  protocols: ["http", "https"],
+  require_protocol: true,
+  require_tld: false,
+};
+
+/**
+ * DTO for registering a webhook endpoint
+ */
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: "URL that receives the event POSTs",
+    example: "https://example.com/hooks/documents",
+  })
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  @ApiPropertyOptional({
+    description: "Events to deliver. Defaults to all events",
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description:
+      "Secret used to sign deliveries. Generated when omitted; it is only returned when the webhook is created",
+    example: "my-shared-secret-value",
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(256)
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: "Note describing the endpoint",
+    example: "Accounting system",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
+
+/**
+ * DTO for updating a webhook endpoint
+ */
+export class UpdateWebhookDto {
+  @ApiPropertyOptional({
+    description: "URL that receives the event POSTs",
+    example: "https://example.com/hooks/documents",
+  })
+  @IsOptional()
+  @IsUrl(WEBHOOK_URL_OPTIONS)
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: "Events to deliver",
+    enum: WebhookEvent,
+    isArray: true,
+    example: [
+      WebhookEvent.DOCUMENT_ANALYSIS_COMPLETED,
+      WebhookEvent.DOCUMENT_ANALYSIS_FAILED,
+    ],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events?: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: "New secret used to sign deliveries",
+    example: "my-new-shared-secret",
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(256)
+  secret?: string;
+
+  @ApiPropertyOptional({
+    description: "Note describing the endpoint",
+    example: "Accounting system",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: "Pause (false) or resume (true) deliveries to the endpoint",
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * DTO for query parameters when listing the deliveries of a webhook
+ */
+export class ListWebhookDeliveriesQueryDto {
+  @ApiPropertyOptional({
+    description: "Page number",
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: "Number of deliveries per page",
+    example: 20,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: "Filter by delivery status",
+    enum: WebhookDeliveryStatus,
+  })
+  @IsOptional()
+  @IsIn(Object.values(WebhookDeliveryStatus))
+  status?: WebhookDeliveryStatus;
+}
@@ -0,0 +1,9 @@
+export * from "./webhook.schema";
+export * from "./webhook-delivery.schema";
+export * from "./webhooks.constants";
+export * from "./webhooks.module";
+export * from "./webhooks.service";
+export * from "./webhook-deliveries.service";
+export * from "./dtos";
+export * from "./model-actions";
+export * from "./utils";
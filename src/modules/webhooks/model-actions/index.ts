@@ -0,0 +1,2 @@
+export * from "./webhook.action";
+export * from "./webhook-delivery.action";
@@ -0,0 +1,72 @@
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import * as sysMsg from "../../../constants/system.messages";
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from "../webhook-delivery.schema";
+
+/**
+ * Model action for WebhookDelivery entity
+ * Adds atomic queue operations on top of the standard CRUD operations
+ */
+@Injectable()
+export class WebhookDeliveryModelAction extends AbstractModelAction<WebhookDelivery> {
+  constructor(
+    @InjectModel(WebhookDelivery.name)
+    private webhookDeliveryModel: Model<WebhookDeliveryDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(webhookDeliveryModel);
+  }
+
+  /**
+   * Atomically claims the oldest due delivery for the given worker
+   * Returns null when no delivery is ready to be sent
+   */
+  async claimNext(workerId: string): Promise<WebhookDeliveryDocument | null> {
+    const now = new Date();
+
+    try {
+      return await this.webhookDeliveryModel.findOneAndUpdate(
+        { status: WebhookDeliveryStatus.PENDING, runAt: { $lte: now } },
+        {
+          $set: {
+            status: WebhookDeliveryStatus.DELIVERING,
+            lockedAt: now,
+            lockedBy: workerId,
+          },
+          $inc: { attempts: 1 },
+        },
+        { sort: { runAt: 1 }, new: true },
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_UPDATE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Deletes the delivery log of a webhook
+   */
+  async deleteByWebhook(webhookId: string): Promise<number> {
+    try {
+      const result = await this.webhookDeliveryModel.deleteMany({
+        webhook: webhookId,
+      });
+      return result.deletedCount;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      throw new InternalServerErrorException(
+        `${sysMsg.DB_DELETE_FAILED}: ${errorMessage}`,
+      );
+    }
+  }
+}
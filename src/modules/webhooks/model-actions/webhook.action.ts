@@ -0,0 +1,20 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { AbstractModelAction } from "../../../common/base";
+import { Webhook, WebhookDocument } from "../webhook.schema";
+
+/**
+ * Model action for Webhook entity
+ * Provides standardized CRUD operations following the HNG SDK pattern
+ */
+@Injectable()
+export class WebhookModelAction extends AbstractModelAction<Webhook> {
+  constructor(
+    @InjectModel(Webhook.name)
+    private webhookModel: Model<WebhookDocument>,
+  ) {
+    // @ts-expect-error - Type assertion needed due to Mongoose Model generic complexity
+    super(webhookModel);
+  }
+}
@@ -0,0 +1,19 @@
+import { createHmac, randomBytes } from "crypto";
+
+/**
+ * Generates a random signing secret for a webhook
+ */
+export const generateWebhookSecret = (): string =>
+  `whsec_${randomBytes(24).toString("hex")}`;
+
+/**
+ * Signs a delivery body for the X-Webhook-Signature header
+ * The signature is an HMAC-SHA256 of "<timestamp>.<body>" keyed with the
+ * webhook secret, so receivers can also reject replayed deliveries
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
@@ -0,0 +1,110 @@
+import { BlockList, isIP, LookupFunction } from "net";
+import { lookup } from "dns";
+import { promises as dns } from "dns";
+import * as sysMsg from "../../../constants/system.messages";
+
+/**
+ * Addresses webhooks may not be delivered to: loopback, private, link-local
+ * (incl. cloud metadata endpoints), unique-local, shared, multicast and reserved ranges
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]: [string, number]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4"),
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]: [string, number]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6"),
+);
+
+/**
+ * Whether an IP address is reachable on the public internet
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (!family) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Host name of a URL, without the brackets of IPv6 literals
+ */
+const toHostname = (url: string): string =>
+  new URL(url).hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+
+/**
+ * Throws unless a webhook URL points at a public host
+ * The host is resolved, and every address it resolves to must be public
+ */
+export const assertPublicWebhookUrl = async (url: string): Promise<void> => {
+  const hostname = toHostname(url);
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new Error(sysMsg.WEBHOOK_URL_NOT_PUBLIC);
+  }
+
+  if (isIP(hostname)) {
+    if (!isPublicAddress(hostname)) {
+      throw new Error(sysMsg.WEBHOOK_URL_NOT_PUBLIC);
+    }
+    return;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(hostname, { all: true });
+  } catch {
+    throw new Error(`${sysMsg.WEBHOOK_URL_UNRESOLVABLE}: ${hostname}`);
+  }
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new Error(sysMsg.WEBHOOK_URL_NOT_PUBLIC);
+  }
+};
+
+/**
+ * DNS lookup for the delivery HTTP agents that refuses non-public addresses
+ * The address is checked when the connection is made, so a host that
+ * resolves differently after assertPublicWebhookUrl (DNS rebinding) is still refused
+ */
+export const publicAddressLookup: LookupFunction = (
+  hostname,
+  options,
+  callback,
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+
+    const entries = addresses as { address: string; family: number }[];
+    if (entries.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new Error(sysMsg.WEBHOOK_URL_NOT_PUBLIC), "", 0);
+    }
+
+    if (options.all) {
+      return (callback as unknown as (err: null, all: unknown) => void)(
+        null,
+        entries,
+      );
+    }
+    callback(null, entries[0].address, entries[0].family);
+  });
+};
@@ -0,0 +1,257 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Types } from "mongoose";
+import * as sysMsg from "../../constants/system.messages";
+import { IListResponse } from "../../common/base";
+import { WebhookDeliveryModelAction } from "./model-actions";
+import {
+  IWebhookPayload,
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from "./webhook-delivery.schema";
+import { WebhookEvent } from "./webhook.schema";
+import {
+  DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  DEFAULT_WEBHOOK_RETRY_DELAY_MS,
+  DEFAULT_WEBHOOK_TIMEOUT_MS,
+} from "./webhooks.constants";
+
+/**
+ * Options for queueing a webhook delivery
+ */
+export interface IEnqueueDeliveryOptions {
+  webhookId: string;
+  ownerId: string;
+  event: WebhookEvent;
+  payload: IWebhookPayload;
+  redeliveryOf?: string;
+}
+
+/**
+ * Outcome of a single attempt to send a delivery
+ */
+export interface IDeliveryAttempt {
+  responseStatus?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+/**
+ * Service for the Mongo-backed webhook delivery queue
+ * Handles enqueueing, claiming, retry backoff and recovery of interrupted deliveries
+ */
+@Injectable()
+export class WebhookDeliveriesService {
+  private readonly logger = new Logger(WebhookDeliveriesService.name);
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly webhookDeliveryModelAction: WebhookDeliveryModelAction,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get<string>(
+        "WEBHOOK_MAX_ATTEMPTS",
+        String(DEFAULT_WEBHOOK_MAX_ATTEMPTS),
+      ),
+    );
+    this.retryDelayMs = Number(
+      this.configService.get<string>(
+        "WEBHOOK_RETRY_DELAY_MS",
+        String(DEFAULT_WEBHOOK_RETRY_DELAY_MS),
+      ),
+    );
+    this.timeoutMs = Number(
+      this.configService.get<string>(
+        "WEBHOOK_TIMEOUT_MS",
+        String(DEFAULT_WEBHOOK_TIMEOUT_MS),
+      ),
+    );
+  }
+
+  /**
+   * Timeout of a single delivery request
+   */
+  getTimeoutMs(): number {
+    return this.timeoutMs;
+  }
+
+  /**
+   * Adds a delivery to the queue
+   */
+  async enqueue(options: IEnqueueDeliveryOptions): Promise<WebhookDelivery> {
+    return this.webhookDeliveryModelAction.create({
+      createPayload: {
+        webhook: new Types.ObjectId(options.webhookId),
+        owner: new Types.ObjectId(options.ownerId),
+        event: options.event,
+        payload: options.payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        maxAttempts: this.maxAttempts,
+        runAt: new Date(),
+        redeliveryOf: options.redeliveryOf
+          ? new Types.ObjectId(options.redeliveryOf)
+          : null,
+      },
+    });
+  }
+
+  /**
+   * Returns a delivery of the given webhook, if any
+   */
+  async findDelivery(
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery | null> {
+    return this.webhookDeliveryModelAction.get({
+      identifierOptions: { _id: deliveryId, webhook: webhookId },
+    });
+  }
+
+  /**
+   * Lists the deliveries of a webhook, newest first
+   */
+  async listDeliveries(
+    webhookId: string,
+    page: number,
+    limit: number,
+    status?: WebhookDeliveryStatus,
+  ): Promise<IListResponse<WebhookDelivery>> {
+    return this.webhookDeliveryModelAction.list({
+      filterRecordOptions: { webhook: webhookId, ...(status && { status }) },
+      sort: { createdAt: -1 },
+      paginationPayload: { page, limit },
+    });
+  }
+
+  /**
+   * Deletes the delivery log of a webhook
+   */
+  async deleteDeliveries(webhookId: string): Promise<number> {
+    return this.webhookDeliveryModelAction.deleteByWebhook(webhookId);
+  }
+
+  /**
+   * Atomically claims the next due delivery for a worker
+   */
+  async claimNext(workerId: string): Promise<WebhookDeliveryDocument | null> {
+    return this.webhookDeliveryModelAction.claimNext(workerId);
+  }
+
+  /**
+   * Records a delivery the endpoint accepted
+   */
+  async markSucceeded(
+    delivery: WebhookDeliveryDocument,
+    attempt: IDeliveryAttempt,
+  ): Promise<void> {
+    await this.webhookDeliveryModelAction.update({
+      identifierOptions: { _id: delivery.id },
+      updatePayload: {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        lockedAt: null,
+        lockedBy: null,
+        responseStatus: attempt.responseStatus ?? null,
+        durationMs: attempt.durationMs ?? null,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `${sysMsg.WEBHOOK_DELIVERED}: ${delivery.event} ${delivery.id}`,
+    );
+  }
+
+  /**
+   * Records a failed attempt, requeueing the delivery with exponential backoff
+   * until it runs out of attempts; retry=false fails it right away
+   */
+  async markFailed(
+    delivery: WebhookDeliveryDocument,
+    attempt: IDeliveryAttempt,
+    retry = true,
+  ): Promise<void> {
+    const willRetry = retry && delivery.attempts < delivery.maxAttempts;
+    const runAt = willRetry
+      ? new Date(Date.now() + this.retryDelayMs * 2 ** (delivery.attempts - 1))
+      : delivery.runAt;
+
+    await this.webhookDeliveryModelAction.update({
+      identifierOptions: { _id: delivery.id },
+      updatePayload: {
+        status: willRetry
+          ? WebhookDeliveryStatus.PENDING
+          : WebhookDeliveryStatus.FAILED,
+        runAt,
+        lockedAt: null,
+        lockedBy: null,
+        responseStatus: attempt.responseStatus ?? null,
+        durationMs: attempt.durationMs ?? null,
+        lastError: attempt.error ?? null,
+      },
+    });
+
+    if (willRetry) {
+      this.logger.warn(
+        `${sysMsg.WEBHOOK_DELIVERY_RETRY_SCHEDULED}: ${delivery.id} (attempt ${delivery.attempts}/${delivery.maxAttempts}, next run ${runAt.toISOString()})`,
+      );
+    } else {
+      this.logger.error(
+        `${sysMsg.WEBHOOK_DELIVERY_FAILED}: ${delivery.id} (${attempt.error})`,
+      );
+    }
+  }
+
+  /**
+   * Requeues deliveries left DELIVERING by a worker that stopped mid-request
+   * A request can't outlive its timeout, so anything locked for twice as long is abandoned
+   */
+  async recoverStaleDeliveries(): Promise<number> {
+    const staleBefore = new Date(Date.now() - this.timeoutMs * 2);
+    const { payload: staleDeliveries } =
+      await this.webhookDeliveryModelAction.find({
+        findOptions: {
+          status: WebhookDeliveryStatus.DELIVERING,
+          lockedAt: { $lt: staleBefore },
+        },
+      });
+
+    let recovered = 0;
+    for (const delivery of staleDeliveries as WebhookDeliveryDocument[]) {
+      const exhausted = delivery.attempts >= delivery.maxAttempts;
+      try {
+        await this.webhookDeliveryModelAction.update({
+          identifierOptions: {
+            _id: delivery.id,
+            status: WebhookDeliveryStatus.DELIVERING,
+            lockedAt: delivery.lockedAt,
+          },
+          updatePayload: {
+            status: exhausted
+              ? WebhookDeliveryStatus.FAILED
+              : WebhookDeliveryStatus.PENDING,
+            runAt: new Date(),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: sysMsg.WEBHOOK_DELIVERY_LEASE_EXPIRED,
+          },
+        });
+        recovered++;
+      } catch (error) {
+        // Another worker recovered the delivery in the meantime
+        if (!(error instanceof NotFoundException)) throw error;
+      }
+    }
+
+    if (recovered > 0) {
+      this.logger.warn(`${sysMsg.WEBHOOK_DELIVERIES_RECOVERED}: ${recovered}`);
+    }
+
+    return recovered;
+  }
+}
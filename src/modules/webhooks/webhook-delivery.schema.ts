@@ -0,0 +1,116 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+import { WebhookEvent } from "./webhook.schema";
+
+export type WebhookDeliveryDocument = WebhookDelivery & MongooseDocument;
+
+/**
+ * Lifecycle status of a webhook delivery
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = "PENDING",
+  DELIVERING = "DELIVERING",
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED",
+}
+
+/**
+ * Body POSTed to a webhook endpoint
+ * The id identifies the event and is kept when the event is redelivered
+ */
+export interface IWebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Webhook delivery schema, doubling as the delivery queue and the delivery log
+ * A delivery is claimed by a worker by atomically moving it from PENDING to DELIVERING
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class WebhookDelivery {
+  @Prop({ type: Types.ObjectId, ref: "Webhook", required: true })
+  webhook: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ type: String, enum: Object.values(WebhookEvent), required: true })
+  event: WebhookEvent;
+
+  @Prop({ type: Object, required: true })
+  payload: IWebhookPayload;
+
+  @Prop({
+    type: String,
+    enum: Object.values(WebhookDeliveryStatus),
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  maxAttempts: number;
+
+  @Prop({ default: () => new Date() })
+  runAt: Date; // Earliest time of the next attempt (used for retry backoff)
+
+  @Prop({ default: null })
+  lockedAt?: Date; // Set while a worker is sending the delivery
+
+  @Prop({ default: null })
+  lockedBy?: string; // Identifier of the worker sending the delivery
+
+  @Prop({ default: null })
+  responseStatus?: number; // HTTP status of the last attempt
+
+  @Prop({ default: null })
+  durationMs?: number; // Duration of the last attempt
+
+  @Prop({ default: null })
+  lastError?: string;
+
+  @Prop({ default: null })
+  deliveredAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: "WebhookDelivery", default: null })
+  redeliveryOf?: Types.ObjectId;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+// Indexes for claiming and the delivery log
+WebhookDeliverySchema.index({ status: 1, runAt: 1 });
+WebhookDeliverySchema.index({ status: 1, lockedAt: 1 });
+WebhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import axios from "axios";
+import * as http from "http";
+import * as https from "https";
+import * as os from "os";
+import * as sysMsg from "../../constants/system.messages";
+import { WebhookDeliveryDocument } from "./webhook-delivery.schema";
+import {
+  IDeliveryAttempt,
+  WebhookDeliveriesService,
+} from "./webhook-deliveries.service";
+import { WebhooksService } from "./webhooks.service";
+import {
+  assertPublicWebhookUrl,
+  publicAddressLookup,
+  signWebhookPayload,
+} from "./utils";
+import {
+  DEFAULT_WEBHOOK_POLL_INTERVAL_MS,
+  MAX_WEBHOOK_REQUEST_BYTES,
+  MAX_WEBHOOK_RESPONSE_BYTES,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhooks.constants";
+
+/**
+ * Background worker that sends queued webhook deliveries
+ * Polls the delivery queue, claims deliveries atomically and POSTs their signed payloads
+ */
+@Injectable()
+export class WebhookDeliveryWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhookDeliveryWorker.name);
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly enabled: boolean;
+  private readonly pollIntervalMs: number;
+  // Connections are only made to public addresses, checked as they are resolved
+  private readonly httpAgent = new http.Agent({ lookup: publicAddressLookup });
+  private readonly httpsAgent = new https.Agent({
+    lookup: publicAddressLookup,
+  });
+  private pollTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly webhookDeliveriesService: WebhookDeliveriesService,
+    private readonly webhooksService: WebhooksService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>("WEBHOOK_WORKER_ENABLED", "true") !==
+      "false";
+    this.pollIntervalMs = Number(
+      this.configService.get<string>(
+        "WEBHOOK_WORKER_POLL_INTERVAL_MS",
+        String(DEFAULT_WEBHOOK_POLL_INTERVAL_MS),
+      ),
+    );
+  }
+
+  /**
+   * Recovers interrupted deliveries and starts polling once the app has booted
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.enabled) {
+      this.logger.warn(sysMsg.WEBHOOK_WORKER_DISABLED);
+      return;
+    }
+
+    try {
+      await this.webhookDeliveriesService.recoverStaleDeliveries();
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.WEBHOOK_WORKER_POLL_FAILED}: ${error.message}`,
+      );
+    }
+
+    this.logger.log(`${sysMsg.WEBHOOK_WORKER_STARTED}: ${this.workerId}`);
+    this.scheduleNextPoll();
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private scheduleNextPoll(): void {
+    if (this.stopped) return;
+    this.pollTimer = setTimeout(() => this.poll(), this.pollIntervalMs);
+  }
+
+  /**
+   * Sends all due deliveries, then waits for the next poll interval
+   */
+  private async poll(): Promise<void> {
+    try {
+      let delivery = await this.webhookDeliveriesService.claimNext(
+        this.workerId,
+      );
+      while (delivery && !this.stopped) {
+        await this.processDelivery(delivery);
+        delivery = await this.webhookDeliveriesService.claimNext(this.workerId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.WEBHOOK_WORKER_POLL_FAILED}: ${error.message}`,
+      );
+    } finally {
+      this.scheduleNextPoll();
+    }
+  }
+
+  /**
+   * Sends a single claimed delivery and records the outcome in the delivery log
+   * Any 2xx response counts as accepted; everything else, including a
+   * response over MAX_WEBHOOK_RESPONSE_BYTES, is retried
+   */
+  private async processDelivery(
+    delivery: WebhookDeliveryDocument,
+  ): Promise<void> {
+    const webhook = await this.webhooksService.findDeliverableWebhook(
+      delivery.webhook.toString(),
+    );
+    if (!webhook) {
+      await this.webhookDeliveriesService.markFailed(
+        delivery,
+        { error: sysMsg.WEBHOOK_ENDPOINT_UNAVAILABLE },
+        false,
+      );
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let attempt: IDeliveryAttempt;
+
+    try {
+      await assertPublicWebhookUrl(webhook.url);
+      const response = await axios.post<string>(webhook.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_EVENT_HEADER]: delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            body,
+          ),
+        },
+        timeout: this.webhookDeliveriesService.getTimeoutMs(),
+        maxRedirects: 0,
+        maxContentLength: MAX_WEBHOOK_RESPONSE_BYTES,
+        maxBodyLength: MAX_WEBHOOK_REQUEST_BYTES,
+        httpAgent: this.httpAgent,
+        httpsAgent: this.httpsAgent,
+        responseType: "text",
+        transformResponse: (data) => data,
+        validateStatus: () => true,
+      });
+
+      attempt = {
+        responseStatus: response.status,
+        durationMs: Date.now() - startedAt,
+      };
+      if (response.status >= 200 && response.status < 300) {
+        await this.webhookDeliveriesService.markSucceeded(delivery, attempt);
+        return;
+      }
+      attempt.error = `${sysMsg.WEBHOOK_ENDPOINT_REJECTED} ${response.status}`;
+    } catch (error) {
+      attempt = { durationMs: Date.now() - startedAt, error: error.message };
+    }
+
+    await this.webhookDeliveriesService.markFailed(delivery, attempt);
+  }
+}
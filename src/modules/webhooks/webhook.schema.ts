@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document as MongooseDocument, Types } from "mongoose";
+
+export type WebhookDocument = Webhook & MongooseDocument;
+
+/**
+ * Document lifecycle events that can be delivered to webhooks
+ */
+export enum WebhookEvent {
+  DOCUMENT_UPLOADED = "document.uploaded",
+  DOCUMENT_ANALYSIS_COMPLETED = "document.analysis.completed",
+  DOCUMENT_ANALYSIS_FAILED = "document.analysis.failed",
+  DOCUMENT_DELETED = "document.deleted",
+}
+
+/**
+ * Webhook endpoint registered by a user
+ * Deliveries are signed with the endpoint's secret
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+  toObject: {
+    virtuals: true,
+    getters: true,
+    transform: (_doc, ret: Record<string, unknown>) => {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Webhook {
+  @Prop({ type: Types.ObjectId, ref: "User", required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  url: string;
+
+  @Prop({ required: true })
+  secret: string; // Kept in plain text, it is needed to sign every delivery
+
+  @Prop({
+    type: [String],
+    enum: Object.values(WebhookEvent),
+    default: () => Object.values(WebhookEvent),
+  })
+  events: WebhookEvent[];
+
+  @Prop({ default: null })
+  description?: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  // Virtual fields for timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const WebhookSchema = SchemaFactory.createForClass(Webhook);
+
+// Index for finding the endpoints subscribed to an event
+WebhookSchema.index({ owner: 1, isActive: 1, events: 1 });
@@ -0,0 +1,12 @@
+export const WEBHOOK_EVENT_HEADER = "X-Webhook-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Webhook-Delivery";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 5;
+export const DEFAULT_WEBHOOK_RETRY_DELAY_MS = 10000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000;
+export const DEFAULT_WEBHOOK_POLL_INTERVAL_MS = 2000;
+// Larger responses fail the delivery instead of being read into memory
+export const MAX_WEBHOOK_RESPONSE_BYTES = 64 * 1024;
+export const MAX_WEBHOOK_REQUEST_BYTES = 1024 * 1024;
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from "@nestjs/common";
+import { ApiTags, ApiBearerAuth } from "@nestjs/swagger";
+import { WebhooksService } from "./webhooks.service";
+import {
+  CreateWebhookDto,
+  ListWebhookDeliveriesQueryDto,
+  UpdateWebhookDto,
+} from "./dtos";
+import {
+  DocsCreateWebhook,
+  DocsListWebhooks,
+  DocsGetWebhookById,
+  DocsUpdateWebhook,
+  DocsDeleteWebhook,
+  DocsListWebhookDeliveries,
+  DocsRedeliverWebhookEvent,
+} from "./docs";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { CurrentUser } from "../auth/current-user.decorator";
+import { UserDocument } from "../auth/user.schema";
+
+/**
+ * Controller for webhook endpoints
+ * Handles registration of endpoints and their delivery log
+ */
+@ApiTags("Webhooks")
+@ApiBearerAuth("JWT")
+@UseGuards(JwtAuthGuard)
+@Controller("webhooks")
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * POST /webhooks
+   * Registers a webhook endpoint
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @DocsCreateWebhook()
+  async createWebhook(
+    @Body() createDto: CreateWebhookDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.webhooksService.createWebhook(user.id, createDto);
+  }
+
+  /**
+   * GET /webhooks
+   * Lists the user's webhook endpoints
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @DocsListWebhooks()
+  async listWebhooks(@CurrentUser() user: UserDocument) {
+    return this.webhooksService.listWebhooks(user.id);
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries
+   * Lists the delivery log of a webhook
+   */
+  @Get(":id/deliveries")
+  @HttpCode(HttpStatus.OK)
+  @DocsListWebhookDeliveries()
+  async listDeliveries(
+    @Param("id") id: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.webhooksService.listDeliveries(id, user.id, query);
+  }
+
+  /**
+   * POST /webhooks/:id/deliveries/:deliveryId/redeliver
+   * Queues a logged event for another delivery
+   */
+  @Post(":id/deliveries/:deliveryId/redeliver")
+  @HttpCode(HttpStatus.ACCEPTED)
+  @DocsRedeliverWebhookEvent()
+  async redeliver(
+    @Param("id") id: string,
+    @Param("deliveryId") deliveryId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.webhooksService.redeliver(id, deliveryId, user.id);
+  }
+
+  /**
+   * GET /webhooks/:id
+   * Retrieves a single webhook endpoint
+   */
+  @Get(":id")
+  @HttpCode(HttpStatus.OK)
+  @DocsGetWebhookById()
+  async getWebhook(@Param("id") id: string, @CurrentUser() user: UserDocument) {
+    return this.webhooksService.getWebhook(id, user.id);
+  }
+
+  /**
+   * PATCH /webhooks/:id
+   * Updates a webhook endpoint
+   */
+  @Patch(":id")
+  @HttpCode(HttpStatus.OK)
+  @DocsUpdateWebhook()
+  async updateWebhook(
+    @Param("id") id: string,
+    @Body() updateDto: UpdateWebhookDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.webhooksService.updateWebhook(id, user.id, updateDto);
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   * Deletes a webhook endpoint and its delivery log
+   */
+  @Delete(":id")
+  @HttpCode(HttpStatus.OK)
+  @DocsDeleteWebhook()
+  async deleteWebhook(
+    @Param("id") id: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.webhooksService.deleteWebhook(id, user.id);
+  }
+}
@@ -0,0 +1,41 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConfigModule } from "@nestjs/config";
+import { Webhook, WebhookSchema } from "./webhook.schema";
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from "./webhook-delivery.schema";
+import { WebhooksController } from "./webhooks.controller";
+import { WebhooksService } from "./webhooks.service";
+import { WebhookDeliveriesService } from "./webhook-deliveries.service";
+import { WebhookDeliveryWorker } from "./webhook-delivery.worker";
+import {
+  WebhookDeliveryModelAction,
+  WebhookModelAction,
+} from "./model-actions";
+
+/**
+ * Webhooks module
+ * Lets users register endpoints for document lifecycle events and runs the
+ * background worker that delivers them
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: Webhook.name, schema: WebhookSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+  ],
+  controllers: [WebhooksController],
+  providers: [
+    WebhooksService,
+    WebhookDeliveriesService,
+    WebhookModelAction,
+    WebhookDeliveryModelAction,
+    WebhookDeliveryWorker,
+  ],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import { isValidObjectId, Types } from "mongoose";
+import * as sysMsg from "../../constants/system.messages";
+import { ApiResponse, PaginatedResponse } from "../../common/interfaces";
+import { WebhookModelAction } from "./model-actions";
+import { Webhook, WebhookDocument, WebhookEvent } from "./webhook.schema";
+import { WebhookDeliveriesService } from "./webhook-deliveries.service";
+import {
+  CreateWebhookDto,
+  ListWebhookDeliveriesQueryDto,
+  UpdateWebhookDto,
+  WebhookDeliveryResponseDto,
+  WebhookResponseDto,
+} from "./dtos";
+import { assertPublicWebhookUrl, generateWebhookSecret } from "./utils";
+
+/**
+ * Service for webhook endpoints
+ * Manages the endpoints registered by users and queues a delivery to each
+ * endpoint subscribed to a document lifecycle event
+ */
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    private readonly webhookModelAction: WebhookModelAction,
+    private readonly webhookDeliveriesService: WebhookDeliveriesService,
+  ) {}
+
+  /**
+   * Registers a webhook endpoint; the response is the only one carrying its secret
+   */
+  async createWebhook(
+    ownerId: string,
+    createDto: CreateWebhookDto,
+  ): Promise<ApiResponse<WebhookResponseDto>> {
+    await this.validateWebhookUrl(createDto.url);
+
+    const webhook = await this.webhookModelAction.create({
+      createPayload: {
+        owner: new Types.ObjectId(ownerId),
+        url: createDto.url,
+        secret: createDto.secret ?? generateWebhookSecret(),
+        events: createDto.events ?? Object.values(WebhookEvent),
+        description: createDto.description ?? null,
+        isActive: true,
+      },
+    });
+
+    this.logger.log(`${sysMsg.WEBHOOK_CREATED}: ${createDto.url}`);
+    return {
+      message: sysMsg.WEBHOOK_CREATED,
+      data: new WebhookResponseDto(webhook, true),
+    };
+  }
+
+  /**
+   * Lists the webhook endpoints of a user
+   */
+  async listWebhooks(
+    ownerId: string,
+  ): Promise<ApiResponse<WebhookResponseDto[]>> {
+    const { payload } = await this.webhookModelAction.find({
+      findOptions: { owner: ownerId },
+      sort: { createdAt: -1 },
+    });
+
+    return {
+      message: sysMsg.WEBHOOKS_FETCHED,
+      data: payload.map((webhook) => new WebhookResponseDto(webhook)),
+    };
+  }
+
+  /**
+   * Retrieves a webhook endpoint by ID
+   */
+  async getWebhook(
+    id: string,
+    ownerId: string,
+  ): Promise<ApiResponse<WebhookResponseDto>> {
+    const webhook = await this.findOwnedWebhook(id, ownerId);
+
+    return {
+      message: sysMsg.WEBHOOK_FETCHED,
+      data: new WebhookResponseDto(webhook),
+    };
+  }
+
+  /**
+   * Updates the URL, events, secret, description or active flag of a webhook
+   */
+  async updateWebhook(
+    id: string,
+    ownerId: string,
+    updateDto: UpdateWebhookDto,
+  ): Promise<ApiResponse<WebhookResponseDto>> {
+    await this.findOwnedWebhook(id, ownerId);
+    if (updateDto.url !== undefined) {
+      await this.validateWebhookUrl(updateDto.url);
+    }
+
+    const webhook = await this.webhookModelAction.update({
+      identifierOptions: { _id: id, owner: ownerId },
+      updatePayload: {
+        ...(updateDto.url !== undefined && { url: updateDto.url }),
+        ...(updateDto.events !== undefined && { events: updateDto.events }),
+        ...(updateDto.secret !== undefined && { secret: updateDto.secret }),
+        ...(updateDto.description !== undefined && {
+          description: updateDto.description,
+        }),
+        ...(updateDto.isActive !== undefined && {
+          isActive: updateDto.isActive,
+        }),
+      },
+    });
+
+    this.logger.log(`${sysMsg.WEBHOOK_UPDATED}: ${id}`);
+    return {
+      message: sysMsg.WEBHOOK_UPDATED,
+      data: new WebhookResponseDto(webhook),
+    };
+  }
+
+  /**
+   * Deletes a webhook endpoint along with its delivery log
+   */
+  async deleteWebhook(id: string, ownerId: string): Promise<ApiResponse<null>> {
+    await this.findOwnedWebhook(id, ownerId);
+
+    await this.webhookModelAction.delete({
+      identifierOptions: { _id: id, owner: ownerId },
+    });
+    await this.webhookDeliveriesService.deleteDeliveries(id);
+
+    this.logger.log(`${sysMsg.WEBHOOK_DELETED}: ${id}`);
+    return { message: sysMsg.WEBHOOK_DELETED, data: null };
+  }
+
+  /**
+   * Lists the delivery log of a webhook, newest first
+   */
+  async listDeliveries(
+    id: string,
+    ownerId: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ): Promise<PaginatedResponse<WebhookDeliveryResponseDto>> {
+    const { page = 1, limit = 20, status } = query;
+    await this.findOwnedWebhook(id, ownerId);
+
+    const { payload, paginationMeta } =
+      await this.webhookDeliveriesService.listDeliveries(
+        id,
+        page,
+        limit,
+        status,
+      );
+
+    return {
+      message: sysMsg.WEBHOOK_DELIVERIES_FETCHED,
+      data: payload.map((delivery) => new WebhookDeliveryResponseDto(delivery)),
+      pagination: paginationMeta,
+    };
+  }
+
+  /**
+   * Queues a new delivery of a logged event with the original payload
+   * The payload keeps its event ID so receivers can recognize the redelivery
+   */
+  async redeliver(
+    id: string,
+    deliveryId: string,
+    ownerId: string,
+  ): Promise<ApiResponse<WebhookDeliveryResponseDto>> {
+    const webhook = await this.findOwnedWebhook(id, ownerId);
+    if (!isValidObjectId(deliveryId)) {
+      throw new BadRequestException(sysMsg.WEBHOOK_DELIVERY_INVALID_ID);
+    }
+
+    const delivery = await this.webhookDeliveriesService.findDelivery(
+      id,
+      deliveryId,
+    );
+    if (!delivery) {
+      throw new NotFoundException(sysMsg.WEBHOOK_DELIVERY_NOT_FOUND);
+    }
+    if (!webhook.isActive) {
+      throw new BadRequestException(sysMsg.WEBHOOK_INACTIVE);
+    }
+
+    const redelivery = await this.webhookDeliveriesService.enqueue({
+      webhookId: id,
+      ownerId,
+      event: delivery.event,
+      payload: delivery.payload,
+      redeliveryOf: deliveryId,
+    });
+
+    return {
+      message: sysMsg.WEBHOOK_REDELIVERY_QUEUED,
+      data: new WebhookDeliveryResponseDto(redelivery),
+    };
+  }
+
+  /**
+   * Queues a delivery of an event to every active endpoint of the user subscribed to it
+   * Failures are only logged so they never break the operation that raised the event
+   */
+  async dispatch(
+    ownerId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+  ): Promise<number> {
+    try {
+      const { payload: webhooks } = await this.webhookModelAction.find({
+        findOptions: { owner: ownerId, isActive: true, events: event },
+      });
+      if (webhooks.length === 0) return 0;
+
+      const payload = {
+        id: new Types.ObjectId().toString(),
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+      for (const webhook of webhooks as WebhookDocument[]) {
+        await this.webhookDeliveriesService.enqueue({
+          webhookId: webhook.id,
+          ownerId,
+          event,
+          payload,
+        });
+      }
+
+      return webhooks.length;
+    } catch (error) {
+      this.logger.error(
+        `${sysMsg.WEBHOOK_DISPATCH_FAILED} for ${event}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Returns a webhook that can still receive deliveries, or null when it
+   * was deleted or deactivated
+   */
+  async findDeliverableWebhook(webhookId: string): Promise<Webhook | null> {
+    return this.webhookModelAction.get({
+      identifierOptions: { _id: webhookId, isActive: true },
+    });
+  }
+
+  /**
+   * Rejects URLs of hosts that aren't public, so webhooks can't be used to
+   * reach internal services or cloud metadata endpoints
+   */
+  private async validateWebhookUrl(url: string): Promise<void> {
+    try {
+      await assertPublicWebhookUrl(url);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  /**
+   * Loads a webhook owned by the given user
+   * Webhooks belonging to other users are reported as not found so IDs don't leak
+   */
+  private async findOwnedWebhook(
+    id: string,
+    ownerId: string,
+  ): Promise<Webhook> {
+    if (!isValidObjectId(id)) {
+      throw new BadRequestException(sysMsg.WEBHOOK_INVALID_ID);
+    }
+
+    const webhook = await this.webhookModelAction.get({
+      identifierOptions: { _id: id, owner: ownerId },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException(sysMsg.WEBHOOK_NOT_FOUND);
+    }
+
+    return webhook;
+  }
+}